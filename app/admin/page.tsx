@@ -0,0 +1,39 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import AdminConsole from '@/components/AdminConsole';
+
+// Users, quotas and storage across every account, for admins only
+export default function AdminPage() {
+  const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState<boolean | null>(null);
+
+  // Only decides whether to render the console; the server checks the claim itself
+  useEffect(() => {
+    user?.getIdTokenResult().then(result => setIsAdmin(result.claims.admin === true));
+  }, [user]);
+
+  if (!user || isAdmin === false) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">This page is only available to admins.</p>
+      </div>
+    );
+  }
+
+  if (isAdmin === null) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-6xl mx-auto py-6 px-4">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Admin</h1>
+      <AdminConsole />
+    </div>
+  );
+}
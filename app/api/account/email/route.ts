@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { syncProfileEmailAdmin } from '@/lib/accounts';
+
+// Bring the caller's profile in line with the email on their ID token. The
+// browser calls this with a fresh token after changing the email.
+export async function POST(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await syncProfileEmailAdmin(user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
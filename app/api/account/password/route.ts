@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { recordPasswordChangeAdmin } from '@/lib/accounts';
+
+// Record in the audit log that the caller just changed their password
+export async function POST(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await recordPasswordChangeAdmin(user);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { createProfileAdmin } from '@/lib/accounts';
+
+// Create the caller's profile after they sign up
+export async function POST(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const profile = await createProfileAdmin(user);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { deleteFileRecordAdmin, getFileRecordAdmin } from '@/lib/serverFiles';
+import { writeAuditEntry } from '@/lib/auditLog';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Permanently delete any user's file, with all its versions, bypassing the
+// trash. The owner sees the deletion in their activity.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    assertAdmin(user);
+
+    const record = await getFileRecordAdmin(params.id);
+    await deleteFileRecordAdmin(record);
+
+    await writeAuditEntry(user, {
+      action: 'file.purge',
+      targetId: record.id!,
+      targetName: record.name,
+      ownerId: record.userId,
+      before: { size: record.size, deletedAt: record.deletedAt?.toISOString() || null },
+      after: null
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
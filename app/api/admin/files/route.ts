@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { listFilesAdmin } from '@/lib/admin';
+
+// Browse every user's files, or one user's with ?userId=
+export async function GET(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    assertAdmin(user);
+
+    const params = new URL(request.url).searchParams;
+    const result = await listFilesAdmin({
+      userId: params.get('userId') || undefined,
+      after: params.get('after') || undefined,
+      limit: Number(params.get('limit')) || undefined
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { getStorageTotalsAdmin } from '@/lib/admin';
+
+// Storage totals across every account
+export async function GET(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    assertAdmin(user);
+
+    return NextResponse.json(await getStorageTotalsAdmin());
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
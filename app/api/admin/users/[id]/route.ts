@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { setAdminRole, setStorageLimitAdmin, setUserDisabledAdmin } from '@/lib/admin';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Change a user's quota, disable or re-enable the account, or grant or
+// remove the admin role. Any combination may be sent at once.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    assertAdmin(user);
+
+    const { storageLimit, disabled, isAdmin } = await request.json();
+    if (storageLimit === undefined && disabled === undefined && isAdmin === undefined) {
+      throw new HttpError(400, 'Nothing to change');
+    }
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      throw new HttpError(400, 'disabled must be a boolean');
+    }
+    if (isAdmin !== undefined && typeof isAdmin !== 'boolean') {
+      throw new HttpError(400, 'isAdmin must be a boolean');
+    }
+
+    if (storageLimit !== undefined) {
+      await setStorageLimitAdmin(user, params.id, storageLimit);
+    }
+    if (disabled !== undefined) {
+      await setUserDisabledAdmin(user, params.id, disabled);
+    }
+    if (isAdmin !== undefined) {
+      await setAdminRole(user, params.id, isAdmin);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
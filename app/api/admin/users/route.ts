@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { listUsersAdmin } from '@/lib/admin';
+
+// List users by email, optionally only those whose email starts with ?search=
+export async function GET(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    assertAdmin(user);
+
+    const params = new URL(request.url).searchParams;
+    const result = await listUsersAdmin({
+      search: params.get('search') || undefined,
+      after: params.get('after') || undefined,
+      limit: Number(params.get('limit')) || undefined
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
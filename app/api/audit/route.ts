@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { assertAdmin, verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { getAuditEntries } from '@/lib/auditLog';
+import { AUDIT_ACTIONS } from '@/utils/audit';
+import { AuditAction } from '@/types';
+
+// Read the log. By default callers see entries where they are the actor or
+// the owner; ?scope=all returns everyone's and needs the admin claim.
+export async function GET(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    const params = new URL(request.url).searchParams;
+
+    const scope = params.get('scope') || 'mine';
+    if (scope === 'all') {
+      assertAdmin(user);
+    }
+
+    const action = params.get('action');
+    if (action && !AUDIT_ACTIONS.includes(action as AuditAction)) {
+      throw new HttpError(400, 'Unknown audit action');
+    }
+
+    const before = params.get('before');
+    const entries = await getAuditEntries({
+      userId: scope === 'all' ? undefined : user.uid,
+      action: (action as AuditAction) || undefined,
+      targetId: params.get('targetId') || undefined,
+      before: before ? new Date(before) : undefined,
+      limit: Number(params.get('limit')) || undefined
+    });
+
+    return NextResponse.json({
+      entries: entries.map(entry => ({ ...entry, createdAt: entry.createdAt.toISOString() }))
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { getUploadOwner } from '@/lib/uploads';
+import {
+  CLOUDINARY_API_KEY,
+  CLOUDINARY_CLOUD_NAME,
+  CLOUDINARY_DELIVERY_TYPE,
+  signCloudinaryParams
+} from '@/lib/cloudinary';
+
+// Issue signed upload parameters. The folder and delivery type are fixed
+// server-side so a caller can only ever upload private assets into their own
+// directory, or for a new version (`fileId`), the directory of a file they
+// may edit.
+export async function POST(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { fileId } = await request.json().catch(() => ({}));
+    const owner = await getUploadOwner({ uid: user.uid, email: user.email || null }, fileId);
+
+    const timestamp = Math.round(Date.now() / 1000);
+    const folder = `ofss/${owner}`;
+    const type = CLOUDINARY_DELIVERY_TYPE;
+    const signature = signCloudinaryParams({ folder, timestamp, type });
+
+    return NextResponse.json({
+      apiKey: CLOUDINARY_API_KEY,
+      cloudName: CLOUDINARY_CLOUD_NAME,
+      folder,
+      timestamp,
+      type,
+      signature
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { assertCronRequest, errorResponse } from '@/lib/serverAuth';
+import { cleanupExpiredFiles } from '@/lib/expiredFiles';
+
+// Each run stops after this many files; the next run picks up the rest
+const MAX_FILES_PER_RUN = 500;
+
+// Delete expired files. Point any scheduler at this route, e.g. hourly.
+// ?dryRun=true reports what would be deleted without deleting it.
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request);
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+
+    const report = await cleanupExpiredFiles({ dryRun, maxFiles: MAX_FILES_PER_RUN });
+    console.log(
+      `Expired file cleanup${dryRun ? ' (dry run)' : ''}: scanned ${report.scanned}, `
+      + `deleted ${report.deleted.length}, failed ${report.failed.length}`
+    );
+
+    return NextResponse.json(report, { status: report.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { assertCronRequest, errorResponse } from '@/lib/serverAuth';
+import { purgeTrash } from '@/lib/trash';
+
+// Each run stops after purging this many files; the next run picks up the rest
+const MAX_FILES_PER_RUN = 500;
+
+// Permanently delete trash older than each owner's retention period. Point
+// any scheduler at this route, e.g. daily. ?dryRun=true only reports.
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request);
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+
+    const report = await purgeTrash({ dryRun, maxFiles: MAX_FILES_PER_RUN });
+    console.log(
+      `Trash purge${dryRun ? ' (dry run)' : ''}: scanned ${report.scanned}, purged `
+      + `${report.purgedFiles.length} files and ${report.purgedFolders.length} folders, failed ${report.failed.length}`
+    );
+
+    return NextResponse.json(report, { status: report.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
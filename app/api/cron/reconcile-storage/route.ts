@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { assertCronRequest, errorResponse } from '@/lib/serverAuth';
+import { reconcileStorage } from '@/lib/storageReconciliation';
+
+// Each run stops after this many users; the next run carries on after the last one
+const MAX_USERS_PER_RUN = 1000;
+
+// Recompute every user's usedStorage from their files and fix any drift,
+// and delete uploads that were never recorded. Point any scheduler at this
+// route, e.g. daily. ?dryRun=true only reports.
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request);
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+
+    const report = await reconcileStorage({ dryRun, maxUsers: MAX_USERS_PER_RUN });
+    console.log(
+      `Storage reconciliation${dryRun ? ' (dry run)' : ''}: scanned ${report.scanned}, `
+      + `corrected ${report.corrected.length}, orphans ${report.orphans.length}, skipped ${report.skipped.length}, failed ${report.failed.length}`
+    );
+
+    return NextResponse.json(report, { status: report.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
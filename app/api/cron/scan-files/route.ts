@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { assertCronRequest, errorResponse } from '@/lib/serverAuth';
+import { scanPendingFiles } from '@/lib/malwareScan';
+
+// Each run stops after this many files; the rest wait for the next run
+const MAX_FILES_PER_RUN = 50;
+
+// Scan uploads still pending after their browser's own request should have
+// finished, and retry ones whose scan errored once their backoff is up.
+// Point any scheduler at this route, e.g. every 10 minutes.
+// ?dryRun=true only counts them.
+export async function GET(request: Request) {
+  try {
+    assertCronRequest(request);
+    const dryRun = new URL(request.url).searchParams.get('dryRun') === 'true';
+
+    const report = await scanPendingFiles({ dryRun, maxFiles: MAX_FILES_PER_RUN });
+    console.log(
+      `Malware scan${dryRun ? ' (dry run)' : ''}: scanned ${report.scanned}, clean ${report.clean}, `
+      + `quarantined ${report.quarantined.length}, failed ${report.failed.length}`
+    );
+
+    return NextResponse.json(report, { status: report.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { getFileRecordAdmin } from '@/lib/serverFiles';
+import { getFileAnalytics } from '@/lib/accessLog';
+import { can } from '@/utils/permissions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Access analytics for a file, for the people who manage its sharing
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const record = await getFileRecordAdmin(params.id);
+    if (!can(record, { uid: user.uid, email: user.email || null }, 'share')) {
+      throw new HttpError(403, 'You do not have permission to see analytics for this file');
+    }
+
+    return NextResponse.json(await getFileAnalytics(params.id));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { shareFileAdmin, unshareFileAdmin } from '@/lib/fileActions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Share a file with someone by email, or change their role
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { email, role } = await request.json();
+
+    const file = await shareFileAdmin(user, params.id, email, role);
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Stop sharing a file with someone. Collaborators may remove themselves.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { email } = await request.json();
+
+    const file = await unshareFileAdmin(user, params.id, email);
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { getFileRecordAdmin } from '@/lib/serverFiles';
+import { assertCanDownload, assertScanAllowsDownload, createSignedDownloadUrl } from '@/lib/downloads';
+import { recordAccess } from '@/lib/accessLog';
+import { FileRecord } from '@/types';
+import { parseFileVersion, storedFileFields } from '@/utils/schema';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Hand out a short-lived signed URL for a file's bytes, or for an earlier
+// version's (`versionId`), after checking ownership or collaboration, expiry
+// and the malware scan. Visitors of share links use the share download route.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { disposition = 'attachment', versionId } = await request.json();
+
+    if (disposition !== 'attachment' && disposition !== 'inline') {
+      throw new HttpError(400, 'disposition must be attachment or inline');
+    }
+
+    const record = await getFileRecordAdmin(params.id);
+    assertCanDownload(record, user);
+
+    let target: FileRecord = record;
+    if (versionId) {
+      const versionDoc = await adminDb.collection('fileVersions').doc(String(versionId)).get();
+      const version = versionDoc.exists && parseFileVersion(versionDoc.id, versionDoc.data()!);
+      if (!version || version.fileId !== record.id) {
+        throw new HttpError(404, 'Version not found');
+      }
+      target = { ...record, ...storedFileFields(version), name: version.name, type: version.type };
+    }
+
+    assertScanAllowsDownload(target, user);
+    const { url, expiresAt } = await createSignedDownloadUrl(target, disposition);
+    await recordAccess(request, record, disposition === 'inline' ? 'view' : 'download', { userId: user.uid });
+    return NextResponse.json({ url, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
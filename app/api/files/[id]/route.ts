@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { moveFileAdmin, purgeFileAdmin, renameFileAdmin, setFileExpiryAdmin } from '@/lib/fileActions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Rename a file ({ name }), move it ({ parentFolderId }) or change when it
+// expires ({ expiresIn }, in hours, or null). One change per request.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const body = await request.json();
+
+    let file;
+    if ('name' in body) {
+      file = await renameFileAdmin(user, params.id, body.name);
+    } else if ('parentFolderId' in body) {
+      file = await moveFileAdmin(user, params.id, body.parentFolderId);
+    } else if ('expiresIn' in body) {
+      file = await setFileExpiryAdmin(user, params.id, body.expiresIn);
+    } else {
+      throw new HttpError(400, 'name, parentFolderId or expiresIn is required');
+    }
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Delete a file for good, with every version
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await purgeFileAdmin(user, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
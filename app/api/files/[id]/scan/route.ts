@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { getFileRecordAdmin } from '@/lib/serverFiles';
+import { scanFileAdmin } from '@/lib/malwareScan';
+import { can } from '@/utils/permissions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Scan a file that is waiting for it. The browser calls this right after
+// uploading; files it never asks for are picked up by the scan-files job.
+// Files the job gave up on can be retried from here. Anything already
+// scanned just reports its status.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const record = await getFileRecordAdmin(params.id);
+    if (!can(record, { uid: user.uid, email: user.email || null }, 'edit')) {
+      throw new HttpError(403, 'You do not have permission to scan this file');
+    }
+
+    if (record.scanStatus !== 'pending' && record.scanStatus !== 'failed') {
+      return NextResponse.json({ scanStatus: record.scanStatus || null });
+    }
+
+    const verdict = await scanFileAdmin(record);
+    return NextResponse.json({ scanStatus: verdict ? verdict.scanStatus : 'pending' });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { createShareAdmin, listSharesAdmin } from '@/lib/shares';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// A file's active share links, for its owner and co-owners
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const shares = await listSharesAdmin(user, params.id);
+    return NextResponse.json({ shares });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Create a share link to a file
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { label, expiresIn, password, allowView, allowDownload } = await request.json();
+
+    const share = await createShareAdmin(user, params.id, { label, expiresIn, password, allowView, allowDownload });
+    return NextResponse.json({ share });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { restoreFileAdmin, trashFileAdmin } from '@/lib/fileActions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Move a file to the trash
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const file = await trashFileAdmin(user, params.id);
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Take a file back out of the trash
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const file = await restoreFileAdmin(user, params.id);
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
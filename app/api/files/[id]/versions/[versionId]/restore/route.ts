@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { restoreFileVersionAdmin } from '@/lib/fileActions';
+
+interface RouteContext {
+  params: { id: string; versionId: string };
+}
+
+// Make an earlier version of a file current again
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const file = await restoreFileVersionAdmin(user, params.id, params.versionId);
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { addFileVersionAdmin, listFileVersionsAdmin } from '@/lib/fileActions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// A file's earlier versions, newest first
+export async function GET(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    const versions = await listFileVersionsAdmin(user, params.id);
+    return NextResponse.json({ versions });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Make stored bytes the file's new contents. Versions beyond the cap are
+// deleted here too, since editors may not delete the owner's objects
+// themselves.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { name, type, upload, hash } = await request.json();
+
+    const file = await addFileVersionAdmin(user, params.id, { name, type, upload, hash });
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { createFileAdmin } from '@/lib/fileActions';
+
+// Record a new file from bytes the browser has already stored (or the hash
+// of identical bytes stored before). The upload policy is checked against
+// what the storage backend holds, and the owner's quota is charged.
+export async function POST(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { name, type, parentFolderId, expiresIn, upload, hash } = await request.json();
+
+    const file = await createFileAdmin(user, { name, type, parentFolderId, expiresIn, upload, hash });
+    return NextResponse.json({ file });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
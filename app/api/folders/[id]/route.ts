@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { purgeFolderAdmin } from '@/lib/folderActions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Delete a trashed folder for good, with everything trashed along with it
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await purgeFolderAdmin(user, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse } from '@/lib/serverAuth';
+import { restoreFolderAdmin, trashFolderAdmin } from '@/lib/folderActions';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+// Move a folder and everything in it to the trash
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await trashFolderAdmin(user, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Take a folder and everything trashed with it back out of the trash
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await restoreFolderAdmin(user, params.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
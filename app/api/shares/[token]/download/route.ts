@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, HttpError } from '@/lib/serverAuth';
+import { getActiveShare } from '@/lib/shares';
+import { assertScanAllowsDownload, createSignedDownloadUrl, isValidAccessToken } from '@/lib/downloads';
+import { recordAccess } from '@/lib/accessLog';
+
+interface RouteContext {
+  params: { token: string };
+}
+
+// Hand out a short-lived signed URL through a share link, within the
+// permissions of that link: inline needs allowView, attachment allowDownload
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { accessToken, disposition = 'attachment' } = await request.json();
+
+    if (disposition !== 'attachment' && disposition !== 'inline') {
+      throw new HttpError(400, 'disposition must be attachment or inline');
+    }
+
+    const { share, record } = await getActiveShare(params.token);
+
+    if (disposition === 'attachment' && !share.allowDownload) {
+      throw new HttpError(403, 'This link does not allow downloading');
+    }
+    if (disposition === 'inline' && !share.allowView) {
+      throw new HttpError(403, 'This link does not allow viewing');
+    }
+    if (share.isPasswordProtected && !isValidAccessToken(`share:${params.token}`, accessToken)) {
+      throw new HttpError(401, 'Password required');
+    }
+
+    assertScanAllowsDownload(record, null);
+    const { url, expiresAt } = await createSignedDownloadUrl(record, disposition);
+    await recordAccess(request, record, disposition === 'inline' ? 'view' : 'download', { shareId: params.token });
+    return NextResponse.json({ url, expiresAt: expiresAt.toISOString() });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
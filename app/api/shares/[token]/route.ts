@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, verifyRequestUser } from '@/lib/serverAuth';
+import { getActiveShare, revokeShareAdmin, updateShareAdmin } from '@/lib/shares';
+
+interface RouteContext {
+  params: { token: string };
+}
+
+// Describe a share link to whoever holds it: what the file is and what the link allows
+export async function GET(_request: Request, { params }: RouteContext) {
+  try {
+    const { share, record } = await getActiveShare(params.token);
+
+    return NextResponse.json({
+      allowView: share.allowView,
+      allowDownload: share.allowDownload,
+      isPasswordProtected: share.isPasswordProtected,
+      expiresAt: share.expiresAt?.toISOString(),
+      file: {
+        name: record.name,
+        size: record.size,
+        type: record.type,
+        isEncrypted: !!record.isEncrypted
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Change a link's label, expiry, password or what it allows
+export async function PATCH(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+    const { label, expiresIn, password, allowView, allowDownload } = await request.json();
+
+    const share = await updateShareAdmin(user, params.token, { label, expiresIn, password, allowView, allowDownload });
+    return NextResponse.json({ share });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Revoke a link. It stops working at once but stays on record.
+export async function DELETE(request: Request, { params }: RouteContext) {
+  try {
+    const user = await verifyRequestUser(request);
+
+    await revokeShareAdmin(user, params.token);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
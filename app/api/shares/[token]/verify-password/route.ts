@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, HttpError } from '@/lib/serverAuth';
+import { checkSharePassword, getActiveShare } from '@/lib/shares';
+import { createAccessToken } from '@/lib/downloads';
+import {
+  assertNotLockedOut,
+  clearFailedAttempts,
+  getClientIp,
+  recordFailedAttempt
+} from '@/lib/attemptLimiter';
+
+interface RouteContext {
+  params: { token: string };
+}
+
+// Check a share link's password. Failures count against the file the link
+// points at, so trying many links to one file does not dodge the lockout.
+export async function POST(request: Request, { params }: RouteContext) {
+  try {
+    const { password } = await request.json();
+    if (!password || typeof password !== 'string') {
+      throw new HttpError(400, 'password is required');
+    }
+
+    const { share } = await getActiveShare(params.token);
+    const ip = getClientIp(request);
+    await assertNotLockedOut(share.fileId, ip);
+
+    const subject = `share:${params.token}`;
+    if (!share.isPasswordProtected) {
+      return NextResponse.json({ valid: true, accessToken: createAccessToken(subject) });
+    }
+
+    const valid = await checkSharePassword(params.token, password);
+    if (!valid) {
+      await recordFailedAttempt(share.fileId, ip);
+      return NextResponse.json({ valid });
+    }
+
+    await clearFailedAttempts(share.fileId);
+    return NextResponse.json({ valid, accessToken: createAccessToken(subject) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { errorResponse, HttpError } from '@/lib/serverAuth';
+import { contentDisposition, Disposition, verifyLocalObjectSignature } from '@/lib/downloads';
+import { isLocalStorageEnabled, statLocalObject, readLocalObject } from '@/lib/localDiskStore';
+
+interface RouteContext {
+  params: { key: string[] };
+}
+
+const getKey = ({ params }: RouteContext) => {
+  if (!isLocalStorageEnabled()) {
+    throw new HttpError(404, 'Local storage is disabled');
+  }
+  return params.key.map(decodeURIComponent).join('/');
+};
+
+const objectHeaders = (stat: { size: number; contentType: string; updatedAt: Date }) => ({
+  'Content-Type': stat.contentType,
+  'Content-Length': stat.size.toString(),
+  'Last-Modified': stat.updatedAt.toUTCString()
+});
+
+// Types a browser can show inline without running anything in our origin.
+// Everything else, HTML and SVG above all, is only ever downloaded.
+const INLINE_SAFE_TYPE = /^(?:image\/(?!svg)|video\/|audio\/|application\/pdf\s*(?:;|$)|text\/plain\s*(?:;|$))/i;
+
+// Uploads are served from our own origin, so never let the browser guess a
+// more dangerous type than the stored one, and sandbox whatever it renders.
+// PDF viewers refuse to render in a sandbox, and a PDF can't reach the page.
+const safetyHeaders = (contentType: string): Record<string, string> => ({
+  'X-Content-Type-Options': 'nosniff',
+  ...(/^application\/pdf\s*(?:;|$)/i.test(contentType) ? {} : { 'Content-Security-Policy': 'sandbox' })
+});
+
+// Serve the bytes, but only through a URL signed by the download route
+export async function GET(request: Request, context: RouteContext) {
+  try {
+    const key = getKey(context);
+    const { searchParams } = new URL(request.url);
+    if (!verifyLocalObjectSignature(key, searchParams)) {
+      throw new HttpError(403, 'Invalid or expired download link');
+    }
+
+    const stat = await statLocalObject(key);
+    if (!stat) {
+      throw new HttpError(404, 'File not found');
+    }
+
+    // Keys look like "<uid>/<uuid>-<name>"
+    const filename = key.split('/').pop()!.replace(/^[0-9a-f-]{36}-/, '');
+    const disposition: Disposition = searchParams.get('disposition') === 'inline' && INLINE_SAFE_TYPE.test(stat.contentType)
+      ? 'inline'
+      : 'attachment';
+
+    return new NextResponse(await readLocalObject(key), {
+      headers: {
+        ...objectHeaders(stat),
+        ...safetyHeaders(stat.contentType),
+        'Content-Disposition': contentDisposition(disposition, filename)
+      }
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
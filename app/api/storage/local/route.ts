@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { getUploadOwner } from '@/lib/uploads';
+import { isLocalStorageEnabled, writeLocalObject } from '@/lib/localDiskStore';
+import { ENCRYPTED_FILE_TYPE } from '@/utils/encryption';
+import { maxStoredSize, readFileHead, sniffFileType } from '@/utils/uploadPolicy';
+
+// Room for the multipart boundary and part headers around the file
+const FORM_OVERHEAD = 64 * 1024;
+
+// Store an uploaded file on local disk under the caller's directory, or for
+// a new version (`fileId`), the directory of the file's owner
+export async function POST(request: Request) {
+  try {
+    if (!isLocalStorageEnabled()) {
+      throw new HttpError(404, 'Local storage is disabled');
+    }
+
+    const user = await verifyRequestUser(request);
+
+    // The whole form is read into memory, so turn away anything larger than
+    // the upload policy allows before reading it
+    const length = Number(request.headers.get('content-length'));
+    if (!length) {
+      throw new HttpError(411, 'Content-Length is required');
+    }
+    if (length > maxStoredSize() + FORM_OVERHEAD) {
+      throw new HttpError(413, 'This file is over the upload size limit');
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+
+    if (!(file instanceof File)) {
+      throw new HttpError(400, 'file is required');
+    }
+
+    const owner = await getUploadOwner({ uid: user.uid, email: user.email || null }, formData.get('fileId'));
+    const key = `${owner}/${uuidv4()}-${file.name.replace(/[\\/]/g, '_')}`;
+
+    // Serve the bytes as what they are, not what the browser called them.
+    // Anything without a recognisable signature, encrypted files included,
+    // is served as opaque bytes.
+    const sniffed = sniffFileType(await readFileHead(file));
+    const contentType = sniffed && sniffed !== ENCRYPTED_FILE_TYPE ? sniffed : 'application/octet-stream';
+    await writeLocalObject(key, Buffer.from(await file.arrayBuffer()), contentType);
+
+    return NextResponse.json({
+      provider: 'local',
+      key,
+      size: file.size,
+      contentType
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { verifyRequestUser, errorResponse, HttpError } from '@/lib/serverAuth';
+import { getUploadOwner, hasStoredCopy } from '@/lib/uploads';
+
+// Whether identical bytes are already stored, so the browser can skip
+// uploading them and record the file by its hash instead. Pass fileId when
+// uploading a new version of that file.
+export async function GET(request: Request) {
+  try {
+    const user = await verifyRequestUser(request);
+    const params = new URL(request.url).searchParams;
+    const hash = params.get('hash');
+
+    if (!hash) {
+      throw new HttpError(400, 'hash is required');
+    }
+
+    const owner = await getUploadOwner({ uid: user.uid, email: user.email || null }, params.get('fileId'));
+    return NextResponse.json({ exists: await hasStoredCopy(hash, owner) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import AuditLog from '@/components/AuditLog';
+
+// The signed-in user's activity, plus everyone's for admins
+export default function AuditPage() {
+  const { user } = useAuth();
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [scope, setScope] = useState<'mine' | 'all'>('mine');
+
+  // Only decides whether to offer the tab; the server checks the claim itself
+  useEffect(() => {
+    user?.getIdTokenResult().then(result => setIsAdmin(result.claims.admin === true));
+  }, [user]);
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Sign in to see your activity.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-6 px-4">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-gray-900">Activity</h1>
+        {isAdmin && (
+          <div className="flex space-x-2">
+            {(['mine', 'all'] as const).map(value => (
+              <button
+                key={value}
+                onClick={() => setScope(value)}
+                className={`px-3 py-1 text-sm rounded ${
+                  scope === value ? 'bg-blue-600 text-white' : 'text-blue-600 hover:bg-blue-50'
+                }`}
+              >
+                {value === 'mine' ? 'My activity' : 'All users'}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AuditLog scope={scope} />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+
+// Old public file links: /files/<id>. The records migration turned each
+// public file into a share link whose token is the file id, so forward to
+// it, keeping any #key=<key> fragment for encrypted files.
+export default function PublicFilePage() {
+  const { id } = useParams<{ id: string }>();
+  const router = useRouter();
+
+  useEffect(() => {
+    router.replace(`/s/${encodeURIComponent(id)}${window.location.hash}`);
+  }, [id, router]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import toast from 'react-hot-toast';
+import FilePreview from '@/components/FilePreview';
+import PasswordProtectedFile from '@/components/PasswordProtectedFile';
+import { downloadEncryptedFile } from '@/services/fileService';
+import {
+  getShareDownloadUrl,
+  getSharedLink,
+  SharedLinkInfo,
+  verifySharePassword
+} from '@/services/shareService';
+import { formatFileSize, getFileTypeIcon } from '@/utils/fileOperations';
+import { keyFromLocationHash } from '@/utils/encryption';
+import { getPreviewKind } from '@/utils/preview';
+
+// Landing page for share links: /s/<token>, plus #key=<key> for encrypted files
+export default function SharedLinkPage() {
+  const { token } = useParams<{ token: string }>();
+  const [link, setLink] = useState<SharedLinkInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [unlocked, setUnlocked] = useState(false);
+  const [encryptionKey, setEncryptionKey] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    // The fragment is only available in the browser
+    setEncryptionKey(keyFromLocationHash());
+
+    getSharedLink(token)
+      .then(setLink)
+      .catch((error) => setLoadError(error.message));
+  }, [token]);
+
+  const handleOpen = async (disposition: 'attachment' | 'inline') => {
+    if (!link) return;
+
+    try {
+      setDownloading(true);
+      setError(null);
+
+      if (link.file.isEncrypted) {
+        setProgress(0);
+        await downloadEncryptedFile(link.file, encryptionKey!, await getShareDownloadUrl(token), setProgress);
+        toast.success('File decrypted and saved');
+      } else {
+        window.location.assign(await getShareDownloadUrl(token, disposition));
+      }
+    } catch (error: any) {
+      // Closing the save dialog is not an error worth showing
+      if (error?.name === 'AbortError') return;
+      console.error('Error opening shared file:', error);
+      setError(error?.message || 'Failed to open file');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center py-12 px-4">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold mb-4">Link Not Available</h2>
+          <p className="text-gray-600">{loadError}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!link) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  // Without the key there is nothing to decrypt with, so don't ask for a password first
+  if (link.file.isEncrypted && !encryptionKey) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center py-12 px-4">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full text-center">
+          <h2 className="text-2xl font-bold mb-4">Decryption Key Missing</h2>
+          <p className="text-gray-600">
+            This file is encrypted, but the link you opened does not include its key.
+            Ask the sender for the full link, including everything after the #.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (link.isPasswordProtected && !unlocked) {
+    return (
+      <PasswordProtectedFile
+        isEncrypted={link.file.isEncrypted}
+        verifyPassword={(password) => verifySharePassword(token, password)}
+        onAuthenticated={() => setUnlocked(true)}
+      />
+    );
+  }
+
+  // Previewable files are viewed in the page, encrypted ones decrypted in
+  // memory. Anything else opens in the browser, which can't decrypt.
+  const canPreview = link.allowView && !!getPreviewKind(link.file);
+  const canView = link.allowView && (canPreview || !link.file.isEncrypted);
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center py-12 px-4">
+      <div className="bg-white p-8 rounded-lg shadow-md max-w-md w-full">
+        <div className="text-5xl text-center mb-4">{getFileTypeIcon(link.file.type)}</div>
+        <h2 className="text-xl font-bold text-center break-words">{link.file.name}</h2>
+        <p className="text-sm text-gray-500 text-center mt-1">
+          {formatFileSize(link.file.size)}
+          {link.file.isEncrypted && <span className="ml-2 text-green-700 font-medium">• 🔐 Encrypted</span>}
+        </p>
+        {link.expiresAt && (
+          <p className="text-xs text-yellow-600 text-center mt-1">
+            Link expires {new Date(link.expiresAt).toLocaleString()}
+          </p>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded mt-6">
+            {error}
+          </div>
+        )}
+
+        {downloading && link.file.isEncrypted && (
+          <div className="mt-6">
+            <div className="h-2 bg-gray-200 rounded-full">
+              <div
+                className="h-2 bg-blue-500 rounded-full transition-all duration-300"
+                style={{ width: `${progress}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 text-center mt-1">Downloading and decrypting...</p>
+          </div>
+        )}
+
+        <div className="flex space-x-3 mt-6">
+          {canView && (
+            <button
+              onClick={() => (canPreview ? setPreviewing(!previewing) : handleOpen('inline'))}
+              disabled={downloading}
+              className="flex-1 border border-blue-600 text-blue-600 font-medium py-2 px-4 rounded hover:bg-blue-50 disabled:opacity-50"
+            >
+              {previewing ? 'Hide preview' : 'View'}
+            </button>
+          )}
+          {link.allowDownload && (
+            <button
+              onClick={() => handleOpen('attachment')}
+              disabled={downloading}
+              className="flex-1 bg-blue-600 text-white font-medium py-2 px-4 rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {downloading ? 'Downloading...' : 'Download'}
+            </button>
+          )}
+        </div>
+
+        {!canView && !link.allowDownload && (
+          <p className="text-sm text-gray-500 text-center mt-4">
+            This link does not currently allow viewing or downloading.
+          </p>
+        )}
+      </div>
+
+      {/* Fetched through the link, so its permissions, password and expiry apply */}
+      {previewing && (
+        <div className="bg-white p-6 rounded-lg shadow-md w-full max-w-4xl mt-6">
+          <FilePreview
+            file={link.file}
+            getUrl={() => getShareDownloadUrl(token, 'inline')}
+            encryptionKey={encryptionKey}
+            expiresAt={link.expiresAt ? new Date(link.expiresAt) : null}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import Trash from '@/components/Trash';
+
+export default function TrashPage() {
+  const { user } = useAuth();
+
+  if (!user) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-gray-600">Sign in to see your trash.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-6 px-4">
+      <h1 className="text-2xl font-bold text-gray-900 mb-6">Trash</h1>
+      <Trash />
+    </div>
+  );
+}
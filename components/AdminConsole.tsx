@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { getStorageTotals } from '@/services/adminService';
+import { formatFileSize } from '@/utils/fileOperations';
+import { StorageTotals } from '@/types';
+import AdminUsers from '@/components/AdminUsers';
+import AdminFiles from '@/components/AdminFiles';
+
+// Global storage totals above tabs for managing users and browsing files
+export default function AdminConsole() {
+  const [totals, setTotals] = useState<StorageTotals | null>(null);
+  const [tab, setTab] = useState<'users' | 'files'>('users');
+  const [fileOwner, setFileOwner] = useState<{ uid: string; email: string } | null>(null);
+
+  const refreshTotals = async () => {
+    try {
+      setTotals(await getStorageTotals());
+    } catch (error: any) {
+      console.error('Error loading storage totals:', error);
+      toast.error(error.message || 'Failed to load storage totals');
+    }
+  };
+
+  useEffect(() => {
+    refreshTotals();
+  }, []);
+
+  const showFiles = (owner: { uid: string; email: string } | null) => {
+    setFileOwner(owner);
+    setTab('files');
+  };
+
+  const cards = totals && [
+    { label: 'Users', value: totals.users.toLocaleString() },
+    { label: 'Used', value: `${formatFileSize(totals.usedBytes)} of ${formatFileSize(totals.allocatedBytes)} allocated` },
+    { label: 'Files', value: `${totals.files.toLocaleString()} (${formatFileSize(totals.fileBytes)})` },
+    { label: 'In trash', value: `${totals.trashedFiles.toLocaleString()} (${formatFileSize(totals.trashedBytes)})` },
+    { label: 'Earlier versions', value: `${totals.versions.toLocaleString()} (${formatFileSize(totals.versionBytes)})` }
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {cards
+          ? cards.map(card => (
+              <div key={card.label} className="bg-white p-4 rounded-lg shadow border border-gray-200">
+                <p className="text-sm text-gray-500">{card.label}</p>
+                <p className="text-lg font-semibold text-gray-900">{card.value}</p>
+              </div>
+            ))
+          : (
+              <div className="col-span-full flex justify-center py-4">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+              </div>
+            )}
+      </div>
+
+      <div className="flex space-x-2">
+        {(['users', 'files'] as const).map(value => (
+          <button
+            key={value}
+            onClick={() => (value === 'files' ? showFiles(null) : setTab(value))}
+            className={`px-3 py-1 text-sm rounded ${
+              tab === value ? 'bg-blue-600 text-white' : 'text-blue-600 hover:bg-blue-50'
+            }`}
+          >
+            {value === 'users' ? 'Users' : 'Files'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'users'
+        ? <AdminUsers onShowFiles={showFiles} onChange={refreshTotals} />
+        : <AdminFiles owner={fileOwner} onClearOwner={() => setFileOwner(null)} onChange={refreshTotals} />}
+    </div>
+  );
+}
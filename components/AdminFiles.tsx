@@ -0,0 +1,122 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { forceDeleteFile, listAllFiles } from '@/services/adminService';
+import { formatFileSize } from '@/utils/fileOperations';
+import { FileRecord } from '@/types';
+
+interface AdminFilesProps {
+  owner: { uid: string; email: string } | null; // Only this user's files when set
+  onClearOwner: () => void;
+  onChange: () => void;
+}
+
+// Every user's files, newest first, trashed ones included, with a
+// permanent delete that bypasses the owner's trash
+export default function AdminFiles({ owner, onClearOwner, onChange }: AdminFilesProps) {
+  const [files, setFiles] = useState<FileRecord[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = async (after?: string) => {
+    try {
+      setLoading(true);
+      const page = await listAllFiles(owner?.uid, after);
+      setFiles(current => (after ? [...current, ...page.items] : page.items));
+      setCursor(page.nextCursor);
+    } catch (error: any) {
+      console.error('Error loading files:', error);
+      toast.error(error.message || 'Failed to load files');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [owner?.uid]);
+
+  const handleDelete = async (file: FileRecord) => {
+    if (!window.confirm(`Permanently delete "${file.name}" and all its versions? The owner cannot restore it.`)) return;
+
+    try {
+      setBusy(file.id!);
+      await forceDeleteFile(file.id!);
+      setFiles(current => current.filter(item => item.id !== file.id));
+      toast.success('File permanently deleted');
+      onChange();
+    } catch (error: any) {
+      console.error('Error deleting file:', error);
+      toast.error(error.message || 'Failed to delete file');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const status = (file: FileRecord) => {
+    if (file.scanStatus === 'quarantined') return `Quarantined: ${file.scanSignature || 'malware found'}`;
+    if (file.scanStatus === 'failed') return `Scan failed: ${file.scanError || 'scanner error'}`;
+    if (file.deletedAt) return `In trash since ${file.deletedAt.toLocaleDateString()}`;
+    if (file.expiresAt && file.expiresAt <= new Date()) return 'Expired';
+    return null;
+  };
+
+  return (
+    <div className="space-y-4">
+      {owner && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 text-blue-800 px-4 py-2 rounded text-sm">
+          <span>Showing files owned by {owner.email || owner.uid}</span>
+          <button onClick={onClearOwner} className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-100 rounded">
+            Show all files
+          </button>
+        </div>
+      )}
+
+      {!loading && files.length === 0 && (
+        <p className="text-center text-gray-500 py-12">No files</p>
+      )}
+
+      {files.map(file => (
+        <div key={file.id} className="bg-white p-4 rounded-lg shadow border border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="text-2xl">{file.type.startsWith('image/') ? '🖼️' : '📄'}</div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{file.name}</h3>
+              <p className="text-sm text-gray-500">
+                {formatFileSize(file.size)} • v{file.version || 1} • Uploaded {file.uploadedAt.toLocaleDateString()}
+                {!owner && <> • Owner {file.userId}</>}
+                {status(file) && <> • {status(file)}</>}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => handleDelete(file)}
+            disabled={busy !== null}
+            className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+          >
+            Delete forever
+          </button>
+        </div>
+      ))}
+
+      {loading && (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {!loading && cursor && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => load(cursor)}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
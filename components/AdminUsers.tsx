@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { AdminUserChanges, listUsers, updateUser } from '@/services/adminService';
+import { formatFileSize } from '@/utils/fileOperations';
+import { AdminUser } from '@/types';
+
+interface AdminUsersProps {
+  onShowFiles: (owner: { uid: string; email: string }) => void;
+  onChange: () => void;
+}
+
+const GB = 1024 * 1024 * 1024;
+
+// Users by email, with their quota, account state and admin role
+export default function AdminUsers({ onShowFiles, onChange }: AdminUsersProps) {
+  const { user } = useAuth();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [search, setSearch] = useState('');
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ uid: string; gigabytes: string } | null>(null);
+
+  const load = async (after?: string) => {
+    try {
+      setLoading(true);
+      const page = await listUsers(search, after);
+      setUsers(current => (after ? [...current, ...page.items] : page.items));
+      setCursor(page.nextCursor);
+    } catch (error: any) {
+      console.error('Error loading users:', error);
+      toast.error(error.message || 'Failed to load users');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const update = async (target: AdminUser, changes: AdminUserChanges, success: string) => {
+    try {
+      setBusy(target.uid);
+      await updateUser(target.uid, changes);
+      setUsers(current => current.map(item => (item.uid === target.uid ? { ...item, ...changes } : item)));
+      toast.success(success);
+      onChange();
+    } catch (error: any) {
+      console.error('Error updating user:', error);
+      toast.error(error.message || 'Failed to update user');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSaveQuota = async (target: AdminUser) => {
+    const gigabytes = Number(editing?.gigabytes);
+    if (!editing?.gigabytes || !Number.isFinite(gigabytes) || gigabytes < 0) {
+      toast.error('Enter a quota in GB');
+      return;
+    }
+
+    await update(target, { storageLimit: Math.round(gigabytes * GB) }, `Quota for ${target.email} updated`);
+    setEditing(null);
+  };
+
+  const handleToggleDisabled = (target: AdminUser) => {
+    const verb = target.disabled ? 'Enable' : 'Disable';
+    if (!window.confirm(`${verb} ${target.email}?`)) return;
+    update(target, { disabled: !target.disabled }, `${target.email} ${target.disabled ? 'enabled' : 'disabled'}`);
+  };
+
+  const handleToggleAdmin = (target: AdminUser) => {
+    const message = target.isAdmin ? `Remove admin access from ${target.email}?` : `Make ${target.email} an admin?`;
+    if (!window.confirm(message)) return;
+    update(target, { isAdmin: !target.isAdmin }, `Admin role ${target.isAdmin ? 'removed' : 'granted'}`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load();
+        }}
+        className="flex gap-2"
+      >
+        <input
+          type="search"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by email prefix or user id"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+        >
+          Search
+        </button>
+      </form>
+
+      {!loading && users.length === 0 && (
+        <p className="text-center text-gray-500 py-12">No users found</p>
+      )}
+
+      {users.map(item => (
+        <div key={item.uid} className="bg-white p-4 rounded-lg shadow border border-gray-200 flex flex-wrap items-center justify-between gap-2">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              {item.email || item.uid}
+              {item.isAdmin && <span className="ml-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">Admin</span>}
+              {item.disabled && <span className="ml-2 px-2 py-0.5 text-xs bg-red-100 text-red-700 rounded">Disabled</span>}
+            </h3>
+            <p className="text-sm text-gray-500">
+              {item.displayName && <>{item.displayName} • </>}
+              {formatFileSize(item.usedStorage)} of {formatFileSize(item.storageLimit)} used • Joined {item.createdAt.toLocaleDateString()}
+            </p>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            {editing?.uid === item.uid ? (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={editing.gigabytes}
+                  onChange={(e) => setEditing({ uid: item.uid, gigabytes: e.target.value })}
+                  className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  aria-label="Quota in GB"
+                />
+                <span className="text-sm text-gray-500">GB</span>
+                <button
+                  onClick={() => handleSaveQuota(item)}
+                  disabled={busy !== null}
+                  className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                >
+                  Save
+                </button>
+                <button
+                  onClick={() => setEditing(null)}
+                  className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded"
+                >
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setEditing({ uid: item.uid, gigabytes: String(+(item.storageLimit / GB).toFixed(2)) })}
+                disabled={busy !== null}
+                className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+              >
+                Quota
+              </button>
+            )}
+            <button
+              onClick={() => onShowFiles({ uid: item.uid, email: item.email })}
+              className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded"
+            >
+              Files
+            </button>
+            {item.uid !== user?.uid && (
+              <>
+                <button
+                  onClick={() => handleToggleAdmin(item)}
+                  disabled={busy !== null}
+                  className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded disabled:opacity-50"
+                >
+                  {item.isAdmin ? 'Remove admin' : 'Make admin'}
+                </button>
+                <button
+                  onClick={() => handleToggleDisabled(item)}
+                  disabled={busy !== null}
+                  className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+                >
+                  {item.disabled ? 'Enable' : 'Disable'}
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {loading && (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {!loading && cursor && (
+        <div className="flex justify-center">
+          <button
+            onClick={() => load(cursor)}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Load more
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
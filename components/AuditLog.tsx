@@ -0,0 +1,138 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getAuditLog } from '@/services/auditService';
+import { AUDIT_ACTION_LABELS, AUDIT_ACTIONS } from '@/utils/audit';
+import { AuditAction, AuditEntry } from '@/types';
+
+interface AuditLogProps {
+  scope: 'mine' | 'all'; // 'all' shows every user's entries and needs the admin claim
+}
+
+const PAGE_SIZE = 50;
+
+const formatValues = (values: Record<string, unknown> | null) =>
+  values
+    ? Object.entries(values).map(([key, value]) => `${key}: ${value === null ? '—' : String(value)}`).join(', ')
+    : '—';
+
+// Filterable, newest-first view of the audit log
+export default function AuditLog({ scope }: AuditLogProps) {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [action, setAction] = useState<AuditAction | ''>('');
+  const [targetId, setTargetId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async (before?: Date) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await getAuditLog({
+        scope,
+        action: action || undefined,
+        targetId: targetId.trim() || undefined,
+        before,
+        limit: PAGE_SIZE
+      });
+      setEntries(current => (before ? [...current, ...page] : page));
+      setHasMore(page.length === PAGE_SIZE);
+    } catch (error: any) {
+      console.error('Error loading audit log:', error);
+      setError(error.message || 'Failed to load audit log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [scope, action]);
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load();
+        }}
+        className="flex flex-wrap gap-2"
+      >
+        <select
+          value={action}
+          onChange={(e) => setAction(e.target.value as AuditAction | '')}
+          className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map(value => (
+            <option key={value} value={value}>{AUDIT_ACTION_LABELS[value]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={targetId}
+          onChange={(e) => setTargetId(e.target.value)}
+          placeholder="File or user id"
+          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+        <button
+          type="submit"
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
+        >
+          Filter
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {!loading && entries.length === 0 && !error && (
+        <p className="text-center text-gray-500 py-8">No activity found</p>
+      )}
+
+      <ul className="space-y-2">
+        {entries.map(entry => (
+          <li key={entry.id} className="bg-white p-4 rounded-lg shadow border border-gray-200 text-sm">
+            <div className="flex justify-between">
+              <span className="font-medium text-gray-900">
+                {/* Older entries can name actions that no longer exist */}
+                {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+                {entry.targetName && <span className="font-normal text-gray-700"> · {entry.targetName}</span>}
+              </span>
+              <span className="text-gray-500">{entry.createdAt.toLocaleString()}</span>
+            </div>
+            <p className="text-gray-600 mt-1">
+              By {entry.actorEmail || entry.actorId}
+              {scope === 'all' && entry.ownerId !== entry.actorId && <> · owner {entry.ownerId}</>}
+              <span className="text-gray-400"> · {entry.targetId}</span>
+            </p>
+            {(entry.before || entry.after) && (
+              <p className="text-gray-500 mt-1 break-words">
+                {formatValues(entry.before)} → {formatValues(entry.after)}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {loading && (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {hasMore && !loading && (
+        <button
+          onClick={() => load(entries[entries.length - 1].createdAt)}
+          className="w-full px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+'use client';
+
+import { useMemo } from 'react';
+import { highlightCode, TokenKind } from '@/utils/highlight';
+
+interface CodeBlockProps {
+  code: string;
+  language: string; // 'plain' for no highlighting
+}
+
+const TOKEN_CLASSES: Record<TokenKind, string> = {
+  comment: 'text-gray-500 italic',
+  string: 'text-green-700',
+  number: 'text-blue-700',
+  keyword: 'text-purple-700',
+  tag: 'text-red-700'
+};
+
+export default function CodeBlock({ code, language }: CodeBlockProps) {
+  const tokens = useMemo(() => highlightCode(code, language), [code, language]);
+
+  return (
+    <pre className="text-sm bg-gray-50 border border-gray-200 rounded p-4 overflow-auto">
+      <code>
+        {tokens.map((token, index) => (token.kind
+          ? <span key={index} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+          : token.text
+        ))}
+      </code>
+    </pre>
+  );
+}
@@ -1,35 +1,14 @@
-import { useState, useCallback } from 'react';
+import { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { useAuth } from '@/contexts/AuthContext';
-import { uploadFile, formatFileSize, getFileTypeIcon } from '@/utils/fileOperations';
-import toast from 'react-hot-toast';
+import { useUploadQueue } from '@/contexts/UploadQueueContext';
 
 export default function Dashboard() {
-  const { user } = useAuth();
-  const [uploadProgress, setUploadProgress] = useState<{ [key: string]: number }>({});
-  const [isUploading, setIsUploading] = useState(false);
+  const { enqueue } = useUploadQueue();
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    setIsUploading(true);
-    const uploadPromises = acceptedFiles.map(async (file) => {
-      try {
-        await uploadFile(file, `users/${user?.uid}/files`, (progress) => {
-          setUploadProgress((prev) => ({
-            ...prev,
-            [file.name]: progress,
-          }));
-        });
-        toast.success(`Successfully uploaded ${file.name}`);
-      } catch (error) {
-        console.error('Upload error:', error);
-        toast.error(`Failed to upload ${file.name}`);
-      }
-    });
-
-    await Promise.all(uploadPromises);
-    setIsUploading(false);
-    setUploadProgress({});
-  }, [user]);
+  // Progress, retries and cancellation are shown by the upload queue panel
+  const onDrop = useCallback((acceptedFiles: File[]) => {
+    enqueue(acceptedFiles);
+  }, [enqueue]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -70,34 +49,6 @@ export default function Dashboard() {
           </div>
         </div>
 
-        {/* Upload Progress */}
-        {Object.keys(uploadProgress).length > 0 && (
-          <div className="mt-6 space-y-4">
-            <h2 className="text-lg font-semibold">Uploading Files</h2>
-            {Object.entries(uploadProgress).map(([fileName, progress]) => (
-              <div key={fileName} className="bg-white p-4 rounded-lg shadow">
-                <div className="flex items-center space-x-4">
-                  <div className="text-2xl">
-                    {getFileTypeIcon(fileName.split('.').pop()?.toLowerCase() || '')}
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex justify-between">
-                      <span className="font-medium">{fileName}</span>
-                      <span>{Math.round(progress)}%</span>
-                    </div>
-                    <div className="mt-2 h-2 bg-gray-200 rounded-full">
-                      <div
-                        className="h-2 bg-blue-500 rounded-full transition-all duration-300"
-                        style={{ width: `${progress}%` }}
-                      />
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
-        )}
-
         {/* File List will be added here */}
       </main>
     </div>
@@ -0,0 +1,125 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getFileAnalytics } from '@/services/fileService';
+import { FileAnalytics, FileRecord } from '@/types';
+import { shareLinkHint } from '@/utils/audit';
+
+interface FileAnalyticsPanelProps {
+  file: FileRecord;
+  onClose: () => void;
+}
+
+// Views and downloads of a file through FileList and share links
+export default function FileAnalyticsPanel({ file, onClose }: FileAnalyticsPanelProps) {
+  const [analytics, setAnalytics] = useState<FileAnalytics | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFileAnalytics(file.id!)
+      .then(setAnalytics)
+      .catch((error) => setError(error.message));
+  }, [file.id]);
+
+  const busiestDay = Math.max(1, ...(analytics?.daily.map(day => day.views + day.downloads) || []));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">
+          Analytics for <span className="font-medium">{file.name}</span>
+        </h3>
+
+        {error && (
+          <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        {!analytics && !error && (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        )}
+
+        {analytics && (
+          <>
+            <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+              <div className="border border-gray-200 rounded-md p-3">
+                <p className="text-2xl font-semibold">{analytics.views}</p>
+                <p className="text-xs text-gray-500">Views</p>
+              </div>
+              <div className="border border-gray-200 rounded-md p-3">
+                <p className="text-2xl font-semibold">{analytics.downloads}</p>
+                <p className="text-xs text-gray-500">Downloads</p>
+              </div>
+              <div className="border border-gray-200 rounded-md p-3">
+                <p className="text-2xl font-semibold">{analytics.uniqueVisitors}</p>
+                <p className="text-xs text-gray-500">Unique visitors, 30 days</p>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-4">
+              Last accessed: {analytics.lastAccessedAt ? new Date(analytics.lastAccessedAt).toLocaleString() : 'never'}
+            </p>
+
+            <h4 className="text-sm font-semibold mb-2">Last 30 days</h4>
+            <div className="flex items-end h-24 space-x-px mb-1">
+              {analytics.daily.map(day => (
+                <div
+                  key={day.date}
+                  title={`${day.date}: ${day.views} views, ${day.downloads} downloads`}
+                  className="flex-1 flex flex-col justify-end h-full"
+                >
+                  <div className="bg-blue-500" style={{ height: `${(day.downloads / busiestDay) * 100}%` }} />
+                  <div className="bg-blue-200" style={{ height: `${(day.views / busiestDay) * 100}%` }} />
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              <span className="inline-block w-2 h-2 bg-blue-500 mr-1" />Downloads
+              <span className="inline-block w-2 h-2 bg-blue-200 ml-3 mr-1" />Views
+            </p>
+
+            {analytics.links.length > 0 && (
+              <>
+                <h4 className="text-sm font-semibold mb-2">By share link</h4>
+                <ul className="text-sm mb-4 space-y-1">
+                  {analytics.links.map(link => (
+                    <li key={link.shareId} className="flex justify-between">
+                      <span className="truncate">{link.label || `Link ${shareLinkHint(link.shareId)}`}</span>
+                      <span className="text-gray-600">{link.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+
+            {analytics.userAgents.length > 0 && (
+              <>
+                <h4 className="text-sm font-semibold mb-2">Browsers</h4>
+                <ul className="text-sm mb-4 space-y-1">
+                  {analytics.userAgents.map(agent => (
+                    <li key={agent.userAgent} className="flex justify-between">
+                      <span>{agent.userAgent}</span>
+                      <span className="text-gray-600">{agent.count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
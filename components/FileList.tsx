@@ -1,237 +1,526 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { FileData, deleteFile, shareFile, generateShareableLink, getUserFiles, verifyFilePassword } from '@/services/fileService';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import {
+  deleteFile,
+  subscribeToUserFiles,
+  subscribeToSharedFiles,
+  applyFileChanges,
+  FileChange,
+  FileCursor,
+  FileListUpdate,
+  FilePageRange,
+  moveFile,
+  renameFile,
+  unshareFile,
+  getDownloadUrl,
+  downloadEncryptedFile
+} from '@/services/fileService';
+import { createFolder, deleteFolder, getFolderPath, getFolders, moveFolder, renameFolder } from '@/services/folderService';
 import { useAuth } from '@/contexts/AuthContext';
+import { askForFileKey } from '@/utils/encryption';
+import { getFileTypeIcon } from '@/utils/fileOperations';
+import { getPreviewKind } from '@/utils/preview';
+import { can, getFileRole, ROLE_LABELS } from '@/utils/permissions';
+import {
+  applyFileFilters,
+  FileFilters,
+  filtersFromSearchParams,
+  filtersToSearchParams,
+  matchesFileFilters
+} from '@/utils/fileFilters';
 import toast from 'react-hot-toast';
 import ExpirationChecker from '@/components/ExpirationChecker';
+import FolderBreadcrumbs from '@/components/FolderBreadcrumbs';
+import ShareModal from '@/components/ShareModal';
+import FileAnalyticsPanel from '@/components/FileAnalyticsPanel';
+import FileVersionsPanel from '@/components/FileVersionsPanel';
+import FileToolbar from '@/components/FileToolbar';
+import FilePreviewModal from '@/components/FilePreviewModal';
+import { FileRecord, FolderMetadata } from '@/types';
+import { Unsubscribe } from 'firebase/firestore';
 
 interface FileListProps {
-  files: FileData[];
-  onFilesChange: (files: FileData[]) => void;
-  isOwner: boolean;
+  files: FileRecord[];
+  onFilesChange: (files: FileRecord[]) => void;
+  isOwner: boolean; // false lists the files shared with the current user instead
+  onFolderChange?: (folderId: string | null) => void;
 }
 
-export default function FileList({ files, onFilesChange, isOwner }: FileListProps) {
+// Drag-and-drop payload types for moving items between folders
+const FILE_DRAG_TYPE = 'application/x-ofss-file';
+const FOLDER_DRAG_TYPE = 'application/x-ofss-folder';
+
+const PAGE_SIZE = 50;
+const CHANGE_HIGHLIGHT_MS = 5000;
+
+// A page of owned files and the subscription that keeps it up to date
+interface ListedPage {
+  range: FilePageRange;
+  files: FileRecord[];
+  cursor: FileCursor | null;
+  hasMore: boolean;
+  unsubscribe: Unsubscribe;
+}
+
+export default function FileList({ files, onFilesChange, isOwner, onFolderChange }: FileListProps) {
   const { user } = useAuth();
-  const [sharingFile, setSharingFile] = useState<string | null>(null);
-  const [shareEmail, setShareEmail] = useState('');
   const [loading, setLoading] = useState(true);
   const [deleting, setDeleting] = useState<string | null>(null);
-  const [shareModalOpen, setShareModalOpen] = useState(false);
-  const [currentFile, setCurrentFile] = useState<FileData | null>(null);
-  const [expirationHours, setExpirationHours] = useState<number | ''>('');
-  const [passwordProtect, setPasswordProtect] = useState(false);
-  const [password, setPassword] = useState('');
-  
-  // Password modal state for downloads
-  const [passwordModalOpen, setPasswordModalOpen] = useState(false);
-  const [fileToDownload, setFileToDownload] = useState<FileData | null>(null);
-  const [downloadPassword, setDownloadPassword] = useState('');
-  const [verifying, setVerifying] = useState(false);
-  const [passwordError, setPasswordError] = useState<string | null>(null);
-
-  const refreshFiles = async () => {
-    if (!user) return;
+  const [currentFile, setCurrentFile] = useState<FileRecord | null>(null); // File whose share modal is open
+  const [analyticsFile, setAnalyticsFile] = useState<FileRecord | null>(null);
+  const [versionsFile, setVersionsFile] = useState<FileRecord | null>(null);
+  const [previewFile, setPreviewFile] = useState<FileRecord | null>(null);
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+
+  // Folder navigation state
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<FolderMetadata[]>([]);
+  const [folderPath, setFolderPath] = useState<FolderMetadata[]>([]);
+  const [dragOverFolder, setDragOverFolder] = useState<string | null>(null);
+
+  // Owned files are listed a page at a time, already sorted by the query,
+  // and each page keeps its own live subscription. Loading more ends the
+  // last page where it stands and subscribes to the one after it.
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadNextPage = useRef<() => void>();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  // Files that changed elsewhere while listed, highlighted for a moment
+  const [changedIds, setChangedIds] = useState<string[]>([]);
+  const [liveNotice, setLiveNotice] = useState<string | null>(null);
+  const noticeTimer = useRef<ReturnType<typeof setTimeout>>();
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  // Search, filters and sort order live in the URL so a view can be bookmarked
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => filtersFromSearchParams(new URLSearchParams(searchParams.toString())), [searchParams]);
+  const setFilters = (next: FileFilters) => {
+    const params = filtersToSearchParams(next, new URLSearchParams(searchParams.toString())).toString();
+    router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+  };
+  const visibleFiles = useMemo(
+    () => (isOwner ? files.filter(file => matchesFileFilters(file, filters)) : applyFileFilters(files, filters)),
+    [files, filters, isOwner]
+  );
+  const query = filters.query.trim().toLowerCase();
+  const visibleFolders = query ? folders.filter(folder => folder.name.toLowerCase().includes(query)) : folders;
+
+  // Shared files live in other people's folders, so that view is flat and
+  // restarts only with the user. Owned views restart with the folder and order.
+  const listKey = isOwner ? `${currentFolderId}:${filters.sort}:${filters.direction}` : 'shared';
+
+  // Folders are not live, so reload them after changing them
+  const refreshFolders = async () => {
+    if (!user || !isOwner) return;
     
     try {
-      setLoading(true);
-      const userFiles = await getUserFiles(user.uid);
-      onFilesChange(userFiles);
+      const [childFolders, path] = await Promise.all([
+        getFolders(user.uid, currentFolderId),
+        getFolderPath(currentFolderId, user.uid)
+      ]);
+      setFolders(childFolders);
+      setFolderPath(path);
     } catch (error) {
-      console.error('Error fetching files:', error);
+      console.error('Error fetching folders:', error);
+      toast.error('Failed to load folders');
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      refreshFolders();
+    }
+    onFolderChange?.(currentFolderId);
+  }, [user, currentFolderId]);
+
+  // Point out changes made in other tabs or by other people
+  const showRemoteChanges = (changes: FileChange[]) => {
+    if (changes.length === 0) return;
+
+    const changed = changes.filter(change => change.type !== 'removed').map(change => change.file.id!);
+    const removed = changes.length - changed.length;
+    setChangedIds(current => [...current, ...changed]);
+    setLiveNotice([
+      changed.length > 0 && `${changed.length} file${changed.length !== 1 ? 's' : ''} updated`,
+      removed > 0 && `${removed} file${removed !== 1 ? 's' : ''} removed`
+    ].filter(Boolean).join(', ') + ' just now');
+
+    clearTimeout(noticeTimer.current);
+    noticeTimer.current = setTimeout(() => setLiveNotice(null), CHANGE_HIGHLIGHT_MS);
+    setTimeout(() => setChangedIds(current => current.filter(id => !changed.includes(id))), CHANGE_HIGHLIGHT_MS);
+  };
+
+  // Keep the list in step with Firestore. The first update of a subscription
+  // replaces what it lists; later ones are applied change by change.
+  useEffect(() => {
+    if (!user) return;
+
+    const handleError = () => {
       toast.error('Failed to load files');
-    } finally {
       setLoading(false);
+      setLoadingMore(false);
+    };
+
+    setLoading(true);
+    if (isOwner) {
+      const pages: ListedPage[] = [];
+
+      const subscribePage = (index: number) => subscribeToUserFiles(
+        user.uid,
+        currentFolderId,
+        { ...pages[index].range, sort: filters.sort, direction: filters.direction, limit: PAGE_SIZE },
+        (update) => {
+          const page = pages[index];
+          page.files = update.initial ? update.files : applyFileChanges(page.files, update.changes);
+          page.cursor = update.cursor;
+          page.hasMore = update.hasMore;
+          if (!update.initial) {
+            showRemoteChanges(update.changes.filter(change => change.remote));
+          }
+
+          onFilesChange(pages.flatMap(listed => listed.files));
+          if (index === pages.length - 1) {
+            setHasMore(page.hasMore);
+            setLoadingMore(false);
+          }
+          setLoading(false);
+        },
+        handleError
+      );
+
+      // A new page counts as having more until its first update says otherwise
+      const addPage = (range: FilePageRange) => {
+        pages.push({ range, files: [], cursor: null, hasMore: true, unsubscribe: () => {} });
+        pages[pages.length - 1].unsubscribe = subscribePage(pages.length - 1);
+      };
+
+      // Resubscribing the last page reads only that page again; its first
+      // update replaces it, so nothing is reported as removed
+      loadNextPage.current = () => {
+        const last = pages[pages.length - 1];
+        if (!last.hasMore || !last.cursor) return;
+
+        const through = last.cursor;
+        last.unsubscribe();
+        last.range = { ...last.range, through };
+        last.unsubscribe = subscribePage(pages.length - 1);
+        addPage({ after: through });
+      };
+
+      addPage({});
+      return () => {
+        loadNextPage.current = undefined;
+        pages.forEach(page => page.unsubscribe());
+      };
     }
+    if (user.email) {
+      return subscribeToSharedFiles(user.email, (update: FileListUpdate) => {
+        if (update.initial) {
+          onFilesChange(update.files);
+        } else {
+          onFilesChange(applyFileChanges(filesRef.current, update.changes));
+          showRemoteChanges(update.changes.filter(change => change.remote));
+        }
+        setHasMore(update.hasMore);
+        setLoading(false);
+      }, handleError);
+    }
+    onFilesChange([]);
+    setLoading(false);
+  }, [user, listKey]);
+
+  const loadMore = () => {
+    if (!hasMore || loadingMore || !loadNextPage.current) return;
+    setLoadingMore(true);
+    loadNextPage.current();
   };
 
-  const handleCopyToClipboard = async (file: FileData) => {
+  // Load the next page when the end of the list scrolls into view. The
+  // observer is recreated after each page and reports straight away if the
+  // end is still visible, e.g. when filters hid everything just loaded.
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => entries[0].isIntersecting && loadMore(),
+      { rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, files]);
+
+  const handleCreateFolder = async () => {
+    const name = window.prompt('Folder name');
+    if (!name?.trim() || !user) return;
+
     try {
-      // Generate proper shareable link
-      const shareUrl = `${window.location.origin}/files/${file.id}`;
-      
-      await navigator.clipboard.writeText(shareUrl);
-      toast.success('Link copied to clipboard!');
-    } catch (error) {
-      console.error('Failed to copy to clipboard:', error);
-      toast.error('Failed to copy link');
+      await createFolder(user.uid, name, currentFolderId);
+      toast.success('Folder created');
+      refreshFolders();
+    } catch (error: any) {
+      console.error('Create folder error:', error);
+      toast.error(error.message || 'Failed to create folder');
     }
   };
 
-  useEffect(() => {
-    if (user) {
-      refreshFiles();
+  const handleRenameFolder = async (folder: FolderMetadata) => {
+    const name = window.prompt('New folder name', folder.name);
+    if (!name?.trim() || name.trim() === folder.name || !user) return;
+
+    try {
+      await renameFolder(folder.id!, user.uid, name);
+      toast.success('Folder renamed');
+      refreshFolders();
+    } catch (error: any) {
+      console.error('Rename folder error:', error);
+      toast.error(error.message || 'Failed to rename folder');
     }
-  }, [user]);
+  };
+
+  const handleDeleteFolder = async (folder: FolderMetadata) => {
+    if (!user || !window.confirm(`Move "${folder.name}" and everything inside it to the trash?`)) return;
 
-  const handleDelete = async (fileId: string) => {
     try {
-      setDeleting(fileId);
-      await deleteFile(fileId, user!.uid);
-      onFilesChange(files.filter(f => f.id !== fileId));
-      toast.success('File deleted successfully');
+      await deleteFolder(folder.id!);
+      toast.success('Folder moved to trash');
+      refreshFolders();
     } catch (error) {
-      console.error('Error deleting file:', error);
-      toast.error('Failed to delete file');
-    } finally {
-      setDeleting(null);
+      console.error('Delete folder error:', error);
+      toast.error('Failed to delete folder');
     }
   };
 
-  const handleShare = async (fileId: string) => {
+  // Move a dragged file or folder into the folder it was dropped on
+  const handleDropItem = async (e: React.DragEvent, targetFolderId: string | null) => {
+    e.preventDefault();
+    setDragOverFolder(null);
+    if (!user) return;
+
+    const fileId = e.dataTransfer.getData(FILE_DRAG_TYPE);
+    const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+
     try {
-      if (!shareEmail) {
-        toast.error('Please enter an email address');
+      if (fileId) {
+        await moveFile(fileId, targetFolderId);
+        toast.success('File moved');
+      } else if (folderId && folderId !== targetFolderId) {
+        await moveFolder(folderId, user.uid, targetFolderId);
+        toast.success('Folder moved');
+      } else {
         return;
       }
-      await shareFile(fileId, user!.uid, shareEmail);
-      setSharingFile(null);
-      setShareEmail('');
-      toast.success('File shared successfully');
-    } catch (error) {
-      console.error('Share error:', error);
-      toast.error('Failed to share file');
+      refreshFolders();
+    } catch (error: any) {
+      console.error('Move error:', error);
+      toast.error(error.message || 'Failed to move item');
     }
   };
 
-  const handleGenerateLink = async (fileId: string) => {
+  const handleDelete = async (fileId: string) => {
     try {
-      const link = await generateShareableLink(fileId, user!.uid);
-      await navigator.clipboard.writeText(link);
-      toast.success('Shareable link copied to clipboard');
+      setDeleting(fileId);
+      await deleteFile(fileId);
+      onFilesChange(files.filter(f => f.id !== fileId));
+      toast.success('File moved to trash');
     } catch (error) {
-      console.error('Generate link error:', error);
-      toast.error('Failed to generate shareable link');
+      console.error('Error deleting file:', error);
+      toast.error('Failed to delete file');
+    } finally {
+      setDeleting(null);
     }
   };
 
-  const openShareModal = (file: FileData) => {
-    setCurrentFile(file);
-    setShareModalOpen(true);
-    
-    // If the file already has an expiration, show it in the input
-    if (file.expiresAt) {
-      // Calculate how many hours are left from now until expiration
-      const now = new Date();
-      const expiry = new Date(file.expiresAt);
-      const hoursLeft = Math.max(0, Math.ceil((expiry.getTime() - now.getTime()) / (1000 * 60 * 60)));
-      setExpirationHours(hoursLeft);
-    } else {
-      setExpirationHours('');
+  const handleRename = async (file: FileRecord) => {
+    const name = window.prompt('New file name', file.name);
+    if (!name?.trim() || name.trim() === file.name || !user) return;
+
+    try {
+      const updated = await renameFile(file.id!, name);
+      onFilesChange(files.map(f => (f.id === updated.id ? updated : f)));
+      toast.success('File renamed');
+    } catch (error: any) {
+      console.error('Rename error:', error);
+      toast.error(error.message || 'Failed to rename file');
     }
-    
-    // Check if file is password protected
-    setPasswordProtect(!!file.isPasswordProtected);
-    setPassword('');
   };
 
-  const closeShareModal = () => {
-    setShareModalOpen(false);
-    setCurrentFile(null);
-  };
+  // Fetch a short-lived signed URL; the download route checks access again
+  const startDownload = async (file: FileRecord) => {
+    if (file.scanStatus === 'quarantined') {
+      toast.error('This file was quarantined because malware was found in it');
+      return;
+    }
 
-  const handleShareFile = async () => {
-    if (!currentFile || !user) return;
-    
     try {
-      const options: {
-        expiresIn?: number;
-        password?: string;
-      } = {};
-      
-      // Add expiration if specified
-      if (expirationHours && !isNaN(Number(expirationHours))) {
-        options.expiresIn = Number(expirationHours);
-      } else if (currentFile.expiresAt) {
-        // If the user removed the expiration, indicate that with a null value
-        // The server will handle this as removing the expiration
-        options.expiresIn = null as any;
-      }
-      
-      // Add password protection if enabled and not already protected
-      if (passwordProtect && !currentFile.isPasswordProtected && password.trim()) {
-        options.password = password.trim();
+      if (file.isEncrypted) {
+        const key = askForFileKey(file.name);
+        if (!key) return;
+        toast.success('Downloading and decrypting...');
+        await downloadEncryptedFile(file, key, await getDownloadUrl(file.id!));
+        return;
       }
-      
-      const link = await generateShareableLink(currentFile.id!, user.uid, options);
-      handleCopyToClipboard(currentFile);
-      closeShareModal();
-      refreshFiles();
-    } catch (error) {
-      console.error('Error generating shareable link:', error);
-      toast.error('Failed to generate link');
+
+      const url = await getDownloadUrl(file.id!);
+      window.location.assign(url);
+      toast.success('Download started!');
+    } catch (error: any) {
+      console.error('Error downloading file:', error);
+      toast.error(error?.message || 'Failed to download file');
     }
   };
 
-  const handleDownloadFile = (file: FileData) => {
-    // If file is password protected and user is not the owner, show password prompt
-    if (file.isPasswordProtected && (!isOwner || file.userId !== user?.uid)) {
-      setFileToDownload(file);
-      setPasswordModalOpen(true);
-      setDownloadPassword('');
-      setPasswordError(null);
-    } else {
-      // Otherwise download directly using the secure URL
-      window.open(file.secureUrl, '_blank');
-      toast.success('Download started!');
+  // Collaborators can take themselves off a file they no longer need
+  const handleLeave = async (file: FileRecord) => {
+    if (!user?.email || !window.confirm(`Remove "${file.name}" from your shared files?`)) return;
+
+    try {
+      await unshareFile(file.id!, user.email);
+      onFilesChange(files.filter(f => f.id !== file.id));
+      toast.success('You no longer have access to this file');
+    } catch (error: any) {
+      console.error('Leave error:', error);
+      toast.error(error.message || 'Failed to leave file');
     }
   };
-  
-  const handleVerifyDownloadPassword = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!fileToDownload || !downloadPassword.trim()) {
-      setPasswordError('Please enter a password');
+
+  const handleDownloadFile = (file: FileRecord) => {
+    if (file.scanStatus === 'quarantined') {
+      toast.error('This file was quarantined because malware was found in it');
       return;
     }
-    
-    try {
-      setVerifying(true);
-      setPasswordError(null);
-      
-      const isValid = await verifyFilePassword(fileToDownload.id!, downloadPassword);
-      
-      if (isValid) {
-        setPasswordModalOpen(false);
-        // Use the secure URL
-        window.open(fileToDownload.secureUrl, '_blank');
-        toast.success('Download started!');
-      } else {
-        setPasswordError('Invalid password. Please try again.');
-      }
-    } catch (error) {
-      console.error('Error verifying password:', error);
-      setPasswordError('An error occurred while verifying the password');
-    } finally {
-      setVerifying(false);
-    }
+
+    startDownload(file);
   };
 
-  if (files.length === 0) {
-    return (
-      <div className="text-center py-12">
-        <p className="text-gray-500">No files found</p>
-      </div>
-    );
-  }
+  // Previews fetch the file through the same checks as downloads
+  const handlePreviewFile = (file: FileRecord) => {
+    const key = file.isEncrypted ? askForFileKey(file.name) : null;
+    if (file.isEncrypted && !key) return;
+
+    setPreviewKey(key);
+    setPreviewFile(file);
+  };
 
   return (
     <div className="space-y-4">
-      {files.map((file) => (
+      {isOwner && (
+        <div className="flex items-center justify-between">
+          <FolderBreadcrumbs
+            path={folderPath}
+            onNavigate={setCurrentFolderId}
+            onDropItem={handleDropItem}
+          />
+          <button
+            onClick={handleCreateFolder}
+            className="px-3 py-1 text-sm text-blue-600 border border-blue-200 hover:bg-blue-50 rounded"
+          >
+            New Folder
+          </button>
+        </div>
+      )}
+
+      <FileToolbar
+        filters={filters}
+        onChange={setFilters}
+        shown={visibleFiles.length}
+        total={files.length}
+        partial={isOwner && hasMore}
+      />
+
+      {liveNotice && <p className="text-xs text-blue-600">{liveNotice}</p>}
+
+      {isOwner && visibleFolders.map((folder) => (
+        <div
+          key={folder.id}
+          draggable
+          onDragStart={(e) => e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id!)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOverFolder(folder.id!);
+          }}
+          onDragLeave={() => setDragOverFolder(null)}
+          onDrop={(e) => handleDropItem(e, folder.id!)}
+          onDoubleClick={() => setCurrentFolderId(folder.id!)}
+          className={`bg-white p-4 rounded-lg shadow border flex items-center justify-between cursor-pointer
+            ${dragOverFolder === folder.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+        >
+          <button
+            onClick={() => setCurrentFolderId(folder.id!)}
+            className="flex items-center space-x-4 text-left"
+          >
+            <div className="text-2xl">📁</div>
+            <h3 className="text-lg font-medium text-gray-900">{folder.name}</h3>
+          </button>
+
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handleRenameFolder(folder)}
+              className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+            >
+              Rename
+            </button>
+            <button
+              onClick={() => handleDeleteFolder(folder)}
+              className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {visibleFiles.length === 0 && (!isOwner || visibleFolders.length === 0) && (
+        <div className="text-center py-12">
+          <p className="text-gray-500">
+            {files.length === 0
+              ? 'No files found'
+              : isOwner && hasMore ? 'None of the files loaded so far match these filters' : 'No files match these filters'}
+          </p>
+        </div>
+      )}
+
+      {visibleFiles.map((file) => (
         <div
           key={file.id}
-          className="bg-white p-4 rounded-lg shadow border border-gray-200 flex items-center justify-between"
+          draggable={isOwner}
+          onDragStart={(e) => e.dataTransfer.setData(FILE_DRAG_TYPE, file.id!)}
+          className={`bg-white p-4 rounded-lg shadow border flex items-center justify-between transition-colors
+            ${changedIds.includes(file.id!) ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}
         >
           <div className="flex items-center space-x-4">
             <div className="text-2xl">
-              {file.type.startsWith('image/') ? '🖼️' : '📄'}
+              {getFileTypeIcon(file.type)}
             </div>
             <div>
-              <h3 className="text-lg font-medium text-gray-900">{file.name}</h3>
+              <h3 className="text-lg font-medium text-gray-900">
+                {file.name}
+                {changedIds.includes(file.id!) && <span className="ml-2 text-xs font-normal text-blue-600">Updated</span>}
+              </h3>
               <p className="text-sm text-gray-500">
                 Size: {(file.size / 1024 / 1024).toFixed(2)} MB • Type: {file.type}
-                {file.isPasswordProtected && <span className="ml-2 text-blue-600 font-medium">• 🔒 Password protected</span>}
+                {file.isEncrypted && <span className="ml-2 text-green-700 font-medium">• 🔐 Encrypted</span>}
+                {!isOwner && getFileRole(file, user) && (
+                  <span className="ml-2 text-purple-700 font-medium">• {ROLE_LABELS[getFileRole(file, user)!]}</span>
+                )}
+                {isOwner && file.scanStatus === 'pending' && <span className="ml-2 text-gray-600">• Scanning…</span>}
+                {isOwner && file.scanStatus === 'clean' && <span className="ml-2 text-green-700">• ✓ Scanned</span>}
+                {isOwner && file.scanStatus === 'failed' && (
+                  <span className="ml-2 text-amber-700" title={file.scanError}>• Scan failed</span>
+                )}
+                {file.scanStatus === 'quarantined' && (
+                  <span className="ml-2 text-red-600 font-medium">
+                    • ⚠ Quarantined{isOwner && file.scanSignature ? ` (${file.scanSignature})` : ''}
+                  </span>
+                )}
+                {(file.version || 1) > 1 && <span className="ml-2">• v{file.version}</span>}
+                {file.downloadCount > 0 && <span className="ml-2">• {file.downloadCount} download{file.downloadCount !== 1 ? 's' : ''}</span>}
                 {file.expiresAt && (
                   <span className="ml-2 text-yellow-600 font-medium">
                     • Expires: {new Date(file.expiresAt).toLocaleDateString()} {new Date(file.expiresAt).toLocaleTimeString()}
@@ -241,29 +530,74 @@ export default function FileList({ files, onFilesChange, isOwner }: FileListProp
               {file.expiresAt && (
                 <ExpirationChecker 
                   expirationDate={new Date(file.expiresAt)} 
-                  onExpired={() => refreshFiles()}
+                  onExpired={() => onFilesChange(filesRef.current.filter(f => f.id !== file.id))}
                 />
               )}
             </div>
           </div>
 
           <div className="flex items-center space-x-2">
-            {isOwner && (
-              <>
-                <button
-                  onClick={() => openShareModal(file)}
-                  className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
-                >
-                  Share
-                </button>
-
-                <button
-                  onClick={() => handleDelete(file.id!)}
-                  className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
-                >
-                  Delete
-                </button>
-              </>
+            {can(file, user, 'edit') && (
+              <button
+                onClick={() => handleRename(file)}
+                className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded"
+              >
+                Rename
+              </button>
+            )}
+
+            {can(file, user, 'share') && (
+              <button
+                onClick={() => setCurrentFile(file)}
+                className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+              >
+                Share
+              </button>
+            )}
+
+            {can(file, user, 'view') && (
+              <button
+                onClick={() => setVersionsFile(file)}
+                className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded"
+              >
+                Versions
+              </button>
+            )}
+
+            {can(file, user, 'share') && (
+              <button
+                onClick={() => setAnalyticsFile(file)}
+                className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded"
+              >
+                Analytics
+              </button>
+            )}
+
+            {can(file, user, 'delete') && (
+              <button
+                onClick={() => handleDelete(file.id!)}
+                className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded"
+              >
+                Delete
+              </button>
+            )}
+
+            {!isOwner && file.userId !== user?.uid && (
+              <button
+                onClick={() => handleLeave(file)}
+                className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded"
+              >
+                Leave
+              </button>
+            )}
+
+            {getPreviewKind(file) && file.scanStatus !== 'quarantined' && (
+              <button
+                onClick={() => handlePreviewFile(file)}
+                className="px-3 py-1 text-sm text-blue-600 border border-blue-200 hover:bg-blue-50 rounded"
+              >
+                Preview
+              </button>
             )}
 
             <button
@@ -276,153 +610,52 @@ export default function FileList({ files, onFilesChange, isOwner }: FileListProp
         </div>
       ))}
 
-      {/* Share Modal */}
-      {shareModalOpen && currentFile && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
-            <h3 className="text-lg font-semibold mb-4">Share File</h3>
-            <p className="text-sm text-gray-600 mb-4">
-              You are about to share: <span className="font-medium">{currentFile.name}</span>
-            </p>
-            
-            <div className="space-y-4 mb-6">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Expiration
-                </label>
-                <div className="flex items-center space-x-2">
-                  <input
-                    type="number"
-                    min="1"
-                    value={expirationHours}
-                    onChange={(e) => setExpirationHours(e.target.value === '' ? '' : Number(e.target.value))}
-                    placeholder="Enter hours"
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  />
-                  <span className="text-sm text-gray-500">hours</span>
-                </div>
-                <p className="text-xs text-gray-500 mt-1">
-                  {currentFile.expiresAt ? (
-                    <>
-                      Current expiration: {new Date(currentFile.expiresAt).toLocaleString()}
-                      <br />
-                      Enter a new value to update or leave empty to remove expiration
-                    </>
-                  ) : (
-                    'Leave empty for no expiration'
-                  )}
-                </p>
-              </div>
-              
-              <div>
-                <div className="flex items-center">
-                  <input
-                    id="passwordProtect"
-                    type="checkbox"
-                    checked={passwordProtect}
-                    onChange={(e) => setPasswordProtect(e.target.checked)}
-                    disabled={currentFile.isPasswordProtected}
-                    className={`h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 ${currentFile.isPasswordProtected ? 'opacity-60 cursor-not-allowed' : ''}`}
-                  />
-                  <label htmlFor="passwordProtect" className="ml-2 block text-sm font-medium text-gray-700">
-                    Password protect this file
-                    {currentFile.isPasswordProtected && (
-                      <span className="ml-2 text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
-                        Already protected
-                      </span>
-                    )}
-                  </label>
-                </div>
-                
-                {passwordProtect && !currentFile.isPasswordProtected && (
-                  <div className="mt-2">
-                    <input
-                      type="password"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      placeholder="Enter password"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    />
-                  </div>
-                )}
-                
-                {currentFile.isPasswordProtected && (
-                  <p className="text-xs text-gray-500 mt-1">
-                    This file is already password protected. You cannot change the password.
-                  </p>
-                )}
-              </div>
-            </div>
-            
-            <div className="flex justify-end space-x-3">
-              <button
-                onClick={closeShareModal}
-                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
-              >
-                Cancel
-              </button>
-              <button
-                onClick={handleShareFile}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
-              >
-                Generate & Copy Link
-              </button>
-            </div>
-          </div>
+      {isOwner && hasMore && (
+        <div ref={sentinelRef} className="flex justify-center py-4">
+          {loadingMore ? (
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+          ) : (
+            <button
+              onClick={loadMore}
+              className="px-3 py-1 text-sm text-blue-600 border border-blue-200 hover:bg-blue-50 rounded"
+            >
+              Load more
+            </button>
+          )}
         </div>
       )}
 
-      {/* Password Modal for Downloads */}
-      {passwordModalOpen && fileToDownload && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-lg p-6 w-full max-w-md">
-            <h3 className="text-lg font-semibold mb-4">Password Required</h3>
-            <p className="text-sm text-gray-600 mb-4">
-              This file is password protected. Please enter the password to download:
-              <span className="block font-medium mt-1">{fileToDownload.name}</span>
-            </p>
-            
-            {passwordError && (
-              <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
-                {passwordError}
-              </div>
-            )}
-            
-            <form onSubmit={handleVerifyDownloadPassword} className="space-y-4">
-              <div>
-                <label htmlFor="download-password" className="block text-sm font-medium text-gray-700 mb-1">
-                  Password
-                </label>
-                <input
-                  id="download-password"
-                  type="password"
-                  value={downloadPassword}
-                  onChange={(e) => setDownloadPassword(e.target.value)}
-                  placeholder="Enter password"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                  required
-                />
-              </div>
-              
-              <div className="flex justify-end space-x-3">
-                <button
-                  type="button"
-                  onClick={() => setPasswordModalOpen(false)}
-                  className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className={`px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 ${verifying ? 'opacity-50 cursor-not-allowed' : ''}`}
-                  disabled={verifying}
-                >
-                  {verifying ? 'Verifying...' : 'Download'}
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
+      {/* Share Modal */}
+      {currentFile && (
+        <ShareModal
+          file={currentFile}
+          onClose={() => setCurrentFile(null)}
+          onFileChange={(updated) => onFilesChange(files.map(f => (f.id === updated.id ? updated : f)))}
+        />
+      )}
+
+      {analyticsFile && (
+        <FileAnalyticsPanel file={analyticsFile} onClose={() => setAnalyticsFile(null)} />
+      )}
+
+      {versionsFile && (
+        <FileVersionsPanel
+          file={versionsFile}
+          onClose={() => setVersionsFile(null)}
+          onFileChange={(updated) => {
+            setVersionsFile(updated);
+            onFilesChange(files.map(f => (f.id === updated.id ? updated : f)));
+          }}
+        />
+      )}
+
+      {previewFile && (
+        <FilePreviewModal
+          file={previewFile}
+          encryptionKey={previewKey}
+          onClose={() => setPreviewFile(null)}
+          onDownload={handleDownloadFile}
+        />
       )}
     </div>
   );
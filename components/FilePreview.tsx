@@ -0,0 +1,264 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import CodeBlock from '@/components/CodeBlock';
+import MarkdownView from '@/components/MarkdownView';
+import { fetchFileContents } from '@/services/fileService';
+import { formatFileSize } from '@/utils/fileOperations';
+import {
+  csvDelimiter,
+  getCodeLanguage,
+  getPreviewKind,
+  isTextPreview,
+  MAX_BUFFERED_PREVIEW_BYTES,
+  MAX_CSV_PREVIEW_ROWS,
+  MAX_TEXT_PREVIEW_BYTES,
+  parseCsv
+} from '@/utils/preview';
+import { FileRecord } from '@/types';
+
+interface FilePreviewProps {
+  file: Pick<FileRecord, 'name' | 'type' | 'size' | 'isEncrypted'>;
+  // A fresh inline URL for the file. The server checks the password session,
+  // expiry and malware scan before handing one out, as for downloads.
+  getUrl: () => Promise<string>;
+  encryptionKey?: string | null; // Needed for encrypted files
+  expiresAt?: Date | null; // The preview is taken down at this time
+}
+
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.5, 2, 3, 4];
+
+// setTimeout fires at once for delays over about 24.8 days
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Shows a file in the page: images with zoom, PDFs a page at a time, video
+// and audio in players, code highlighted, and Markdown and CSV rendered
+export default function FilePreview({ file, getUrl, encryptionKey, expiresAt }: FilePreviewProps) {
+  const kind = getPreviewKind(file);
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [expired, setExpired] = useState(() => !!expiresAt && expiresAt.getTime() <= Date.now());
+  const [zoom, setZoom] = useState<number | null>(null); // null fits the image to the pane
+  const [naturalWidth, setNaturalWidth] = useState(0);
+  const [page, setPage] = useState(1);
+
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const remaining = expiresAt.getTime() - Date.now();
+    if (remaining <= 0) {
+      setExpired(true);
+      return;
+    }
+    if (remaining > MAX_TIMER_MS) return;
+
+    const timer = setTimeout(() => setExpired(true), remaining);
+    return () => clearTimeout(timer);
+  }, [expiresAt?.getTime()]);
+
+  useEffect(() => {
+    if (!kind || expired) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    const load = async () => {
+      try {
+        setUrl(null);
+        setText(null);
+        setError(null);
+        setProgress(0);
+
+        if (isTextPreview(kind) && file.size > MAX_TEXT_PREVIEW_BYTES) {
+          throw new Error(`Text files over ${formatFileSize(MAX_TEXT_PREVIEW_BYTES)} can't be previewed. Download it instead.`);
+        }
+        if (file.isEncrypted && file.size > MAX_BUFFERED_PREVIEW_BYTES) {
+          throw new Error(`Encrypted files over ${formatFileSize(MAX_BUFFERED_PREVIEW_BYTES)} can't be previewed. Download it instead.`);
+        }
+        if (file.isEncrypted && !encryptionKey) {
+          throw new Error('This file is encrypted. Open it with its key or a link that includes it.');
+        }
+
+        const signedUrl = await getUrl();
+
+        // Media streams straight from storage. Everything else is read into
+        // memory: text to render it, encrypted files to decrypt them, and
+        // PDFs so that turning pages doesn't fetch them again.
+        const buffered = isTextPreview(kind) || file.isEncrypted
+          || (kind === 'pdf' && file.size <= MAX_BUFFERED_PREVIEW_BYTES);
+        if (!buffered) {
+          if (!cancelled) setUrl(signedUrl);
+          return;
+        }
+
+        const contents = await fetchFileContents(file, signedUrl, file.isEncrypted ? encryptionKey : null, setProgress);
+        if (cancelled) return;
+
+        if (isTextPreview(kind)) {
+          const decoded = await contents.text();
+          if (!cancelled) setText(decoded);
+        } else {
+          objectUrl = URL.createObjectURL(contents);
+          setUrl(objectUrl);
+        }
+      } catch (error: any) {
+        console.error('Error loading preview:', error);
+        if (!cancelled) setError(error?.message || 'Failed to load preview');
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [kind, expired, file.name, file.size, encryptionKey]);
+
+  // The header, the rows shown, and one more to tell whether there are others
+  const csvRows = useMemo(
+    () => (kind === 'csv' && text !== null ? parseCsv(text, csvDelimiter(file), MAX_CSV_PREVIEW_ROWS + 2) : []),
+    [kind, text, file.name, file.type]
+  );
+
+  const stepZoom = (direction: 1 | -1) => {
+    const current = zoom ?? 1;
+    const next = direction > 0
+      ? ZOOM_STEPS.find(step => step > current)
+      : [...ZOOM_STEPS].reverse().find(step => step < current);
+    if (next) setZoom(next);
+  };
+
+  if (expired) {
+    return <p className="text-center text-gray-500 py-12">This file has expired and can no longer be previewed.</p>;
+  }
+
+  if (!kind) {
+    return <p className="text-center text-gray-500 py-12">There is no preview for this type of file. Download it instead.</p>;
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded">
+        {error}
+      </div>
+    );
+  }
+
+  if (url === null && text === null) {
+    return (
+      <div className="flex flex-col items-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        {file.isEncrypted && (
+          <p className="text-xs text-gray-500 mt-2">Downloading and decrypting... {Math.round(progress)}%</p>
+        )}
+      </div>
+    );
+  }
+
+  switch (kind) {
+    case 'image':
+      return (
+        <div>
+          <div className="flex items-center justify-center space-x-2 mb-2 text-sm">
+            <button onClick={() => stepZoom(-1)} className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50" aria-label="Zoom out">
+              −
+            </button>
+            <span className="w-12 text-center text-gray-600">{zoom === null ? 'Fit' : `${Math.round(zoom * 100)}%`}</span>
+            <button onClick={() => stepZoom(1)} className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50" aria-label="Zoom in">
+              +
+            </button>
+            <button onClick={() => setZoom(zoom === null ? 1 : null)} className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded">
+              {zoom === null ? 'Actual size' : 'Fit'}
+            </button>
+          </div>
+          <div className="max-h-[70vh] overflow-auto flex bg-gray-50 rounded">
+            <img
+              src={url!}
+              alt={file.name}
+              onLoad={(e) => setNaturalWidth(e.currentTarget.naturalWidth)}
+              onClick={() => setZoom(zoom === null ? 1 : null)}
+              className={`m-auto ${zoom === null ? 'max-w-full max-h-[70vh] object-contain cursor-zoom-in' : 'max-w-none cursor-zoom-out'}`}
+              style={zoom === null || !naturalWidth ? undefined : { width: naturalWidth * zoom }}
+            />
+          </div>
+        </div>
+      );
+
+    case 'pdf':
+      return (
+        <div>
+          <div className="flex items-center justify-center space-x-2 mb-2 text-sm">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <label className="flex items-center space-x-1 text-gray-600">
+              <span>Page</span>
+              <input
+                type="number"
+                min={1}
+                value={page}
+                onChange={(e) => setPage(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+            <button onClick={() => setPage(page + 1)} className="px-3 py-1 border border-gray-300 rounded hover:bg-gray-50">
+              Next
+            </button>
+          </div>
+          {/* The browser's own viewer opens at the page in the fragment */}
+          <iframe key={page} src={`${url}#page=${page}`} title={file.name} className="w-full h-[70vh] border border-gray-200 rounded" />
+        </div>
+      );
+
+    case 'video':
+      return <video src={url!} controls className="w-full max-h-[70vh] bg-black rounded" />;
+
+    case 'audio':
+      return <audio src={url!} controls className="w-full" />;
+
+    case 'markdown':
+      return <MarkdownView source={text!} />;
+
+    case 'csv':
+      return (
+        <div className="overflow-auto max-h-[70vh]">
+          <table className="min-w-full text-sm border border-gray-200">
+            {csvRows.length > 0 && (
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  {csvRows[0].map((cell, index) => (
+                    <th key={index} className="px-3 py-2 border border-gray-200 text-left font-semibold">{cell}</th>
+                  ))}
+                </tr>
+              </thead>
+            )}
+            <tbody>
+              {csvRows.slice(1, MAX_CSV_PREVIEW_ROWS + 1).map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, index) => (
+                    <td key={index} className="px-3 py-2 border border-gray-200 whitespace-pre-wrap">{cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {csvRows.length > MAX_CSV_PREVIEW_ROWS + 1 && (
+            <p className="text-xs text-gray-500 mt-2">Showing the first {MAX_CSV_PREVIEW_ROWS} rows. Download the file to see the rest.</p>
+          )}
+        </div>
+      );
+
+    case 'text':
+      return (
+        <div className="max-h-[70vh] overflow-auto">
+          <CodeBlock code={text!} language={getCodeLanguage(file)} />
+        </div>
+      );
+  }
+}
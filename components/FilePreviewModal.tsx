@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect } from 'react';
+import FilePreview from '@/components/FilePreview';
+import { getDownloadUrl } from '@/services/fileService';
+import { FileRecord } from '@/types';
+
+interface FilePreviewModalProps {
+  file: FileRecord;
+  encryptionKey?: string | null; // Needed for encrypted files
+  onClose: () => void;
+  onDownload: (file: FileRecord) => void;
+}
+
+// A file previewed over the file list. Escape closes it.
+export default function FilePreviewModal({ file, encryptionKey = null, onClose, onDownload }: FilePreviewModalProps) {
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[95vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold truncate mr-4">{file.name}</h3>
+          <div className="flex items-center space-x-2 flex-shrink-0">
+            <button
+              onClick={() => onDownload(file)}
+              className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 text-sm"
+            >
+              Download
+            </button>
+            <button
+              onClick={onClose}
+              className="px-3 py-1 border border-gray-300 rounded text-sm text-gray-700 hover:bg-gray-50"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+
+        <FilePreview
+          file={file}
+          getUrl={() => getDownloadUrl(file.id!, 'inline')}
+          encryptionKey={encryptionKey}
+          expiresAt={file.expiresAt}
+        />
+      </div>
+    </div>
+  );
+}
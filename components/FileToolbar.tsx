@@ -0,0 +1,147 @@
+'use client';
+
+import { SortOption } from '@/types';
+import {
+  DEFAULT_FILE_FILTERS,
+  FILE_STATUS_LABELS,
+  FILE_TYPE_LABELS,
+  FileFilters,
+  FileStatusFilter,
+  FileTypeFilter,
+  hasActiveFilters,
+  SORT_LABELS
+} from '@/utils/fileFilters';
+
+interface FileToolbarProps {
+  filters: FileFilters;
+  onChange: (filters: FileFilters) => void;
+  shown: number;
+  total: number;
+  partial?: boolean; // Only some of the files are loaded, so filters only see those
+}
+
+const MB = 1024 * 1024;
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const toSizeInput = (bytes?: number) => (bytes === undefined ? '' : String(bytes / MB));
+const fromSizeInput = (value: string) => (value === '' ? undefined : Math.max(0, Number(value)) * MB);
+const toDateInput = (date?: Date) => (date ? date.toISOString().slice(0, 10) : '');
+const fromDateInput = (value: string) => (value ? new Date(`${value}T00:00:00Z`) : undefined);
+
+// Search, filters and sort order for the file list
+export default function FileToolbar({ filters, onChange, shown, total, partial }: FileToolbarProps) {
+  const update = (changes: Partial<FileFilters>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow border border-gray-200 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search by name"
+          className={`${inputClass} flex-1 min-w-[12rem]`}
+        />
+
+        <select
+          value={filters.sort}
+          onChange={(e) => update({ sort: e.target.value as SortOption })}
+          className={inputClass}
+          aria-label="Sort by"
+        >
+          {(Object.keys(SORT_LABELS) as SortOption[]).map(sort => (
+            <option key={sort} value={sort}>Sort by {SORT_LABELS[sort].toLowerCase()}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => update({ direction: filters.direction === 'asc' ? 'desc' : 'asc' })}
+          className="px-3 py-1 text-sm text-gray-600 border border-gray-300 hover:bg-gray-50 rounded"
+          title={filters.direction === 'asc' ? 'Ascending' : 'Descending'}
+        >
+          {filters.direction === 'asc' ? '↑ Ascending' : '↓ Descending'}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-700">
+        <select
+          value={filters.type}
+          onChange={(e) => update({ type: e.target.value as FileTypeFilter })}
+          className={inputClass}
+          aria-label="File type"
+        >
+          {(Object.keys(FILE_TYPE_LABELS) as FileTypeFilter[]).map(type => (
+            <option key={type} value={type}>{FILE_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+
+        <select
+          value={filters.status}
+          onChange={(e) => update({ status: e.target.value as FileStatusFilter })}
+          className={inputClass}
+          aria-label="Status"
+        >
+          {(Object.keys(FILE_STATUS_LABELS) as FileStatusFilter[]).map(status => (
+            <option key={status} value={status}>{FILE_STATUS_LABELS[status]}</option>
+          ))}
+        </select>
+
+        <label className="flex items-center gap-1">
+          Size
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={toSizeInput(filters.minSize)}
+            onChange={(e) => update({ minSize: fromSizeInput(e.target.value) })}
+            placeholder="min"
+            className={`${inputClass} w-20`}
+          />
+          –
+          <input
+            type="number"
+            min={0}
+            step="any"
+            value={toSizeInput(filters.maxSize)}
+            onChange={(e) => update({ maxSize: fromSizeInput(e.target.value) })}
+            placeholder="max"
+            className={`${inputClass} w-20`}
+          />
+          MB
+        </label>
+
+        <label className="flex items-center gap-1">
+          Uploaded
+          <input
+            type="date"
+            value={toDateInput(filters.from)}
+            onChange={(e) => update({ from: fromDateInput(e.target.value) })}
+            className={inputClass}
+          />
+          –
+          <input
+            type="date"
+            value={toDateInput(filters.to)}
+            onChange={(e) => update({ to: fromDateInput(e.target.value) })}
+            className={inputClass}
+          />
+        </label>
+
+        {hasActiveFilters(filters) && (
+          <>
+            <span className="text-gray-500">
+              {partial ? `${shown} of the first ${total} files (scroll to load more)` : `${shown} of ${total} files`}
+            </span>
+            <button
+              onClick={() => onChange({ ...DEFAULT_FILE_FILTERS, sort: filters.sort, direction: filters.direction })}
+              className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded"
+            >
+              Clear filters
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
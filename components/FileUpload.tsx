@@ -1,144 +1,86 @@
 'use client';
 
-import { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { uploadFile } from '@/services/fileService';
+import { useCallback, useEffect, useState } from 'react';
+import { FileRejection, useDropzone } from 'react-dropzone';
 import { useAuth } from '@/contexts/AuthContext';
+import { useUploadQueue, UploadOptions } from '@/contexts/UploadQueueContext';
 import toast from 'react-hot-toast';
+import {
+  checkUpload,
+  describeUploadPolicy,
+  readFileHead,
+  sniffFileType,
+  UPLOAD_POLICY
+} from '@/utils/uploadPolicy';
 
 interface FileUploadProps {
   onUploadComplete?: (fileData: any) => void;
+  folderId?: string | null; // Folder new uploads land in
 }
 
-export default function FileUpload({ onUploadComplete }: FileUploadProps) {
-  const [uploading, setUploading] = useState(false);
+export default function FileUpload({ onUploadComplete, folderId = null }: FileUploadProps) {
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [showOptionsModal, setShowOptionsModal] = useState(false);
   const [expirationHours, setExpirationHours] = useState<number | ''>('');
-  const [passwordProtect, setPasswordProtect] = useState(false);
-  const [password, setPassword] = useState('');
+  const [encrypt, setEncrypt] = useState(false);
   const { user } = useAuth();
+  const { enqueue, onUploaded } = useUploadQueue();
 
-  const handleFilesSelected = useCallback((files: File[]) => {
+  useEffect(() => {
+    if (!onUploadComplete) return;
+    return onUploaded((fileData) => onUploadComplete([fileData]));
+  }, [onUploaded, onUploadComplete]);
+
+  // The dropzone has already checked sizes and names; sniff the contents too
+  // so a renamed executable is turned away before the options dialog
+  const handleFilesSelected = useCallback(async (files: File[], rejections: FileRejection[]) => {
     if (!user) {
       toast.error('Please log in to upload files');
       return;
     }
 
-    setSelectedFiles(files);
+    rejections.forEach(({ file, errors }) => toast.error(checkUpload(file)?.message || `${file.name}: ${errors[0].message}`));
+
+    const accepted: File[] = [];
+    for (const file of files) {
+      const rejection = checkUpload(file, sniffFileType(await readFileHead(file)));
+      if (rejection) {
+        toast.error(rejection.message);
+      } else {
+        accepted.push(file);
+      }
+    }
+    if (accepted.length === 0) return;
+
+    setSelectedFiles(accepted);
     setShowOptionsModal(true);
   }, [user]);
 
-  const handleUpload = async () => {
+  // Hand the files to the shared upload queue, which limits concurrency and retries
+  const handleUpload = () => {
     if (!selectedFiles.length || !user) return;
 
-    try {
-      setUploading(true);
-      
-      // Prepare upload options
-      const options: {
-        expiresIn?: number;
-        password?: string;
-      } = {};
-      
-      // Add expiration if specified
-      if (expirationHours && !isNaN(Number(expirationHours))) {
-        options.expiresIn = Number(expirationHours);
-      }
-      
-      // Add password protection if enabled
-      if (passwordProtect && password.trim()) {
-        options.password = password.trim();
-      }
-
-      const uploadPromises = selectedFiles.map(file => 
-        uploadFile(file, user.uid, options)
-          .then(fileData => {
-            if (fileData && (fileData.url || fileData.secureUrl)) {
-              toast.success(`${file.name} uploaded successfully!`);
-              return fileData;
-            } else {
-              toast.error(`Failed to upload ${file.name}`);
-              console.error('Upload error: Missing URL in response');
-              return null;
-            }
-          })
-          .catch(error => {
-            // More robust check for successful uploads despite errors
-            if (error && typeof error === 'object') {
-              // Check all possible ways the response might contain URL information
-              const hasUrl = 
-                error.url || 
-                error.secure_url || 
-                error.secureUrl ||
-                (error.response && (error.response.url || error.response.secure_url)) ||
-                'public_id' in error;
-              
-              if (hasUrl) {
-                // File was actually uploaded successfully
-                toast.success(`${file.name} uploaded successfully!`);
-                
-                // Return a properly structured file data object for the UI
-                return {
-                  name: file.name,
-                  url: error.url || error.secure_url || error.secureUrl ||
-                       (error.response && (error.response.url || error.response.secure_url)) || 
-                       '',
-                  size: file.size,
-                  type: file.type,
-                  uploadedAt: new Date().toISOString(),
-                  id: error.public_id || `${Date.now()}_${file.name}`
-                };
-              }
-            }
-            
-            // Check for partial success messages
-            if (error?.message && (
-                error.message.includes('existing') || 
-                error.message.includes('success') ||
-                error.message.includes('uploaded')
-              )) {
-              toast.success(`${file.name} uploaded successfully!`);
-              return {
-                name: file.name,
-                size: file.size,
-                type: file.type,
-                uploadedAt: new Date().toISOString(),
-                id: `${Date.now()}_${file.name}`
-              };
-            }
-            
-            // Genuine failure
-            toast.error(`Failed to upload ${file.name}`);
-            console.error('Upload error:', error);
-            return null;
-          })
-      );
+    // Prepare upload options
+    const options: UploadOptions = { folderId };
+    
+    // Add expiration if specified
+    if (expirationHours && !isNaN(Number(expirationHours))) {
+      options.expiresIn = Number(expirationHours);
+    }
 
-      const results = await Promise.all(uploadPromises);
-      const successfulUploads = results.filter(result => result !== null);
-      
-      if (onUploadComplete) {
-        onUploadComplete(successfulUploads);
-      }
-      
-      // Reset form
-      resetForm();
-      
-    } catch (error) {
-      console.error('Upload error:', error);
-      toast.error('Failed to upload files');
-    } finally {
-      setUploading(false);
+    if (encrypt) {
+      options.encrypt = true;
     }
+
+    enqueue(selectedFiles, options);
+    resetForm();
   };
   
   const resetForm = () => {
     setSelectedFiles([]);
     setShowOptionsModal(false);
     setExpirationHours('');
-    setPasswordProtect(false);
-    setPassword('');
+    setEncrypt(false);
   };
   
   const cancelUpload = () => {
@@ -147,7 +89,14 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop: handleFilesSelected,
-    disabled: uploading || showOptionsModal
+    maxSize: UPLOAD_POLICY.maxFileSize,
+    // Size is left to maxSize. While dragging there are only types, no names.
+    validator: (file) => {
+      if (!(file instanceof File)) return null;
+      const rejection = checkUpload({ name: file.name, size: 0, type: file.type });
+      return rejection && { code: 'file-invalid-type', message: rejection.message };
+    },
+    disabled: showOptionsModal
   });
 
   return (
@@ -156,7 +105,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
         {...getRootProps()}
         className={`p-8 border-2 border-dashed rounded-lg text-center cursor-pointer transition-colors
           ${isDragActive ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-blue-500'}
-          ${(uploading || showOptionsModal) ? 'opacity-50 cursor-not-allowed' : ''}`}
+          ${showOptionsModal ? 'opacity-50 cursor-not-allowed' : ''}`}
       >
         <input {...getInputProps()} />
         <div className="space-y-4">
@@ -169,16 +118,10 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
                 Drag & drop files here, or click to select files
               </p>
               <p className="text-sm text-gray-500 mt-2">
-                All file types supported • Max size: 100MB per file
+                {describeUploadPolicy()}
               </p>
             </div>
           )}
-          {uploading && (
-            <div className="mt-4">
-              <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-500 mx-auto"></div>
-              <p className="text-sm text-gray-500 mt-2">Uploading...</p>
-            </div>
-          )}
         </div>
       </div>
       
@@ -227,27 +170,22 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
               <div>
                 <div className="flex items-center">
                   <input
-                    id="passwordProtect"
+                    id="encrypt"
                     type="checkbox"
-                    checked={passwordProtect}
-                    onChange={(e) => setPasswordProtect(e.target.checked)}
+                    checked={encrypt}
+                    onChange={(e) => setEncrypt(e.target.checked)}
                     className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                   />
-                  <label htmlFor="passwordProtect" className="ml-2 block text-sm font-medium text-gray-700">
-                    Password protect these files
+                  <label htmlFor="encrypt" className="ml-2 block text-sm font-medium text-gray-700">
+                    Encrypt in this browser before uploading
                   </label>
                 </div>
-                
-                {passwordProtect && (
-                  <div className="mt-2">
-                    <input
-                      type="password"
-                      value={password}
-                      onChange={(e) => setPassword(e.target.value)}
-                      placeholder="Enter password"
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                    />
-                  </div>
+                {encrypt && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    You will be shown the key once the upload finishes. It is not stored anywhere,
+                    so save it: share links carry it after the #, and without it nobody, including us,
+                    can read the file.
+                  </p>
                 )}
               </div>
             </div>
@@ -261,8 +199,7 @@ export default function FileUpload({ onUploadComplete }: FileUploadProps) {
               </button>
               <button
                 onClick={handleUpload}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-blue-300"
-                disabled={passwordProtect && !password.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700"
               >
                 Upload Files
               </button>
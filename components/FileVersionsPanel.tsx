@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  downloadEncryptedFile,
+  getDownloadUrl,
+  getFileVersions,
+  restoreFileVersion,
+  uploadNewVersion
+} from '@/services/fileService';
+import { formatFileSize } from '@/utils/fileOperations';
+import { askForFileKey } from '@/utils/encryption';
+import { can } from '@/utils/permissions';
+import { MAX_FILE_VERSIONS } from '@/utils/schema';
+import { FileRecord, FileVersion } from '@/types';
+
+interface FileVersionsPanelProps {
+  file: FileRecord;
+  onClose: () => void;
+  onFileChange: (file: FileRecord) => void;
+}
+
+// A file's version history, with uploads of new versions for editors
+export default function FileVersionsPanel({ file, onClose, onFileChange }: FileVersionsPanelProps) {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<FileVersion[] | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const canEdit = can(file, user, 'edit');
+
+  const refresh = async () => {
+    if (!user) return;
+
+    try {
+      setVersions(await getFileVersions(file.id!));
+    } catch (error: any) {
+      console.error('Error loading versions:', error);
+      toast.error(error.message || 'Failed to load versions');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [file.id, file.version]);
+
+  const uploaderLabel = (uid: string, email?: string) => {
+    if (uid === user?.uid) return 'you';
+    if (email) return email;
+    return uid === file.userId ? 'the owner' : 'a collaborator';
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected || !user) return;
+
+    // New versions are encrypted with the file's existing key
+    const encryptionKey = file.isEncrypted ? askForFileKey(file.name) : null;
+    if (file.isEncrypted && !encryptionKey) return;
+
+    try {
+      setUploadProgress(0);
+      const updated = await uploadNewVersion(file.id!, user, selected, { onProgress: setUploadProgress, encryptionKey });
+      onFileChange(updated);
+      toast.success(`Uploaded version ${updated.version}`);
+    } catch (error: any) {
+      console.error('Error uploading version:', error);
+      toast.error(error.message || 'Failed to upload new version');
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleRestore = async (version: FileVersion) => {
+    if (!user || !window.confirm(`Make version ${version.version} the current version?`)) return;
+
+    try {
+      setBusy(version.id!);
+      const updated = await restoreFileVersion(file.id!, version.id!);
+      onFileChange(updated);
+      toast.success(`Restored version ${version.version}`);
+    } catch (error: any) {
+      console.error('Error restoring version:', error);
+      toast.error(error.message || 'Failed to restore version');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDownload = async (version: FileVersion) => {
+    const key = version.isEncrypted ? askForFileKey(file.name) : null;
+    if (version.isEncrypted && !key) return;
+
+    try {
+      setBusy(version.id!);
+      const url = await getDownloadUrl(file.id!, 'attachment', version.id);
+
+      if (key) {
+        await downloadEncryptedFile(version, key, url);
+        return;
+      }
+
+      window.location.assign(url);
+    } catch (error: any) {
+      console.error('Error downloading version:', error);
+      toast.error(error.message || 'Failed to download version');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-1">
+          Versions of <span className="font-medium">{file.name}</span>
+        </h3>
+        <p className="text-sm text-gray-500 mb-4">
+          The newest {MAX_FILE_VERSIONS} versions are kept. Share links always open the current one.
+        </p>
+
+        {canEdit && (
+          <div className="mb-4">
+            <input ref={inputRef} type="file" className="hidden" onChange={handleUpload} />
+            <button
+              onClick={() => inputRef.current?.click()}
+              disabled={uploadProgress !== null}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+            >
+              {uploadProgress !== null ? `Uploading... ${Math.round(uploadProgress)}%` : 'Upload new version'}
+            </button>
+          </div>
+        )}
+
+        <ul className="divide-y divide-gray-200 mb-4">
+          <li className="py-3 flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium">
+                Version {file.version || 1} <span className="ml-1 text-green-700">• Current</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                {formatFileSize(file.size)} • {file.uploadedAt.toLocaleString()} • by{' '}
+                {uploaderLabel(file.uploadedBy || file.userId, file.uploaderEmail)}
+              </p>
+            </div>
+          </li>
+
+          {versions === null && (
+            <li className="py-6 flex justify-center">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-500"></div>
+            </li>
+          )}
+
+          {versions?.map(version => (
+            <li key={version.id} className="py-3 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium">Version {version.version}</p>
+                <p className="text-xs text-gray-500">
+                  {formatFileSize(version.size)} • {version.uploadedAt.toLocaleString()} • by{' '}
+                  {uploaderLabel(version.uploadedBy, version.uploaderEmail)}
+                  {version.scanStatus === 'quarantined' && <span className="text-red-600 font-medium"> • ⚠ Quarantined</span>}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleDownload(version)}
+                  disabled={busy !== null}
+                  className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+                >
+                  Download
+                </button>
+                {canEdit && (
+                  <button
+                    onClick={() => handleRestore(version)}
+                    disabled={busy !== null || uploadProgress !== null}
+                    className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-50 rounded disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+
+          {versions?.length === 0 && (
+            <li className="py-3 text-sm text-gray-500">No earlier versions</li>
+          )}
+        </ul>
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
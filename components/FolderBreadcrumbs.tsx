@@ -0,0 +1,51 @@
+'use client';
+
+import { useState } from 'react';
+import { FolderMetadata } from '@/types';
+
+interface FolderBreadcrumbsProps {
+  path: FolderMetadata[];
+  onNavigate: (folderId: string | null) => void;
+  onDropItem: (event: React.DragEvent, folderId: string | null) => void;
+}
+
+export default function FolderBreadcrumbs({ path, onNavigate, onDropItem }: FolderBreadcrumbsProps) {
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const crumbs: { id: string | null; name: string }[] = [
+    { id: null, name: 'My Files' },
+    ...path.map(folder => ({ id: folder.id!, name: folder.name }))
+  ];
+
+  return (
+    <nav className="flex items-center flex-wrap text-sm text-gray-600">
+      {crumbs.map((crumb, index) => {
+        const key = crumb.id ?? 'root';
+        const isLast = index === crumbs.length - 1;
+
+        return (
+          <span key={key} className="flex items-center">
+            {index > 0 && <span className="mx-2 text-gray-400">/</span>}
+            <button
+              onClick={() => onNavigate(crumb.id)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(key);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => {
+                setDropTarget(null);
+                onDropItem(e, crumb.id);
+              }}
+              disabled={isLast}
+              className={`px-2 py-1 rounded ${isLast ? 'font-medium text-gray-900' : 'hover:bg-gray-100 text-blue-600'}
+                ${dropTarget === key ? 'bg-blue-100' : ''}`}
+            >
+              {crumb.name}
+            </button>
+          </span>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { useMemo } from 'react';
+import CodeBlock from '@/components/CodeBlock';
+import { MarkdownBlock, MarkdownInline, parseMarkdown } from '@/utils/markdown';
+
+interface MarkdownViewProps {
+  source: string;
+}
+
+const HEADING_CLASSES = [
+  'text-2xl font-bold',
+  'text-xl font-bold',
+  'text-lg font-semibold',
+  'text-base font-semibold',
+  'text-sm font-semibold',
+  'text-sm font-semibold text-gray-600'
+];
+
+const renderInline = (nodes: MarkdownInline[]) => nodes.map((node, index) => {
+  switch (node.type) {
+    case 'text':
+      return node.text;
+    case 'code':
+      return <code key={index} className="px-1 bg-gray-100 rounded text-sm">{node.text}</code>;
+    case 'strong':
+      return <strong key={index}>{renderInline(node.children)}</strong>;
+    case 'em':
+      return <em key={index}>{renderInline(node.children)}</em>;
+    case 'link':
+      // Links leave the preview, and never tell the other site where from
+      return (
+        <a key={index} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+          {renderInline(node.children)}
+        </a>
+      );
+  }
+});
+
+const renderBlocks = (blocks: MarkdownBlock[]) => blocks.map((block, index) => {
+  switch (block.type) {
+    case 'heading': {
+      const Heading = `h${block.level}` as keyof JSX.IntrinsicElements;
+      return <Heading key={index} className={HEADING_CLASSES[block.level - 1]}>{renderInline(block.content)}</Heading>;
+    }
+    case 'paragraph':
+      return <p key={index}>{renderInline(block.content)}</p>;
+    case 'code':
+      return <CodeBlock key={index} code={block.text} language={block.language || 'plain'} />;
+    case 'quote':
+      return (
+        <blockquote key={index} className="border-l-4 border-gray-300 pl-4 text-gray-600 space-y-3">
+          {renderBlocks(block.blocks)}
+        </blockquote>
+      );
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul';
+      return (
+        <List key={index} className={`pl-6 space-y-1 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+          {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+        </List>
+      );
+    }
+    case 'table':
+      return (
+        <div key={index} className="overflow-auto">
+          <table className="min-w-full text-sm border border-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                {block.header.map((cell, cellIndex) => (
+                  <th key={cellIndex} className="px-3 py-2 border border-gray-200 text-left font-semibold">{renderInline(cell)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, rowIndex) => (
+                <tr key={rowIndex}>
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-3 py-2 border border-gray-200">{renderInline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={index} className="border-gray-200" />;
+  }
+});
+
+// Rendered Markdown. Raw HTML in the source shows as text.
+export default function MarkdownView({ source }: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return <div className="space-y-3 text-gray-800 break-words">{renderBlocks(blocks)}</div>;
+}
@@ -12,6 +12,7 @@ const Navbar = () => {
   const pathname = usePathname();
   const router = useRouter();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isAdmin, setIsAdmin] = useState(false);
 
   const handleLogout = async () => {
     try {
@@ -22,6 +23,15 @@ const Navbar = () => {
     }
   };
 
+  // Only decides whether to show the link; the admin routes check the claim
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+    user.getIdTokenResult().then(result => setIsAdmin(result.claims.admin === true));
+  }, [user]);
+
   // Close menu when pathname changes
   useEffect(() => {
     setIsMenuOpen(false);
@@ -46,6 +56,26 @@ const Navbar = () => {
                   >
                     Dashboard
                   </Link>
+                  <Link 
+                    href="/audit" 
+                    className={`${pathname === '/audit' ? 'border-blue-500 text-gray-900' : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                  >
+                    Activity
+                  </Link>
+                  <Link 
+                    href="/trash" 
+                    className={`${pathname === '/trash' ? 'border-blue-500 text-gray-900' : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                  >
+                    Trash
+                  </Link>
+                  {isAdmin && (
+                    <Link 
+                      href="/admin" 
+                      className={`${pathname === '/admin' ? 'border-blue-500 text-gray-900' : 'border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700'} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+                    >
+                      Admin
+                    </Link>
+                  )}
                 </>
               ) : (
                 <>
@@ -147,6 +177,26 @@ const Navbar = () => {
               >
                 Dashboard
               </Link>
+              <Link
+                href="/audit"
+                className={`${pathname === '/audit' ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'} block pl-3 pr-4 py-2 border-l-4 text-base font-medium`}
+              >
+                Activity
+              </Link>
+              <Link
+                href="/trash"
+                className={`${pathname === '/trash' ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'} block pl-3 pr-4 py-2 border-l-4 text-base font-medium`}
+              >
+                Trash
+              </Link>
+              {isAdmin && (
+                <Link
+                  href="/admin"
+                  className={`${pathname === '/admin' ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-transparent text-gray-500 hover:bg-gray-50 hover:border-gray-300 hover:text-gray-700'} block pl-3 pr-4 py-2 border-l-4 text-base font-medium`}
+                >
+                  Admin
+                </Link>
+              )}
             </>
           ) : (
             <Link
@@ -1,15 +1,19 @@
 'use client';
 
 import { useState } from 'react';
-import { verifyFilePassword } from '@/services/fileService';
 import Link from 'next/link';
 
 interface PasswordProtectedFileProps {
-  fileId: string;
+  isEncrypted?: boolean;
   onAuthenticated: () => void;
+  verifyPassword: (password: string) => Promise<boolean>;
 }
 
-export default function PasswordProtectedFile({ fileId, onAuthenticated }: PasswordProtectedFileProps) {
+export default function PasswordProtectedFile({
+  isEncrypted,
+  onAuthenticated,
+  verifyPassword
+}: PasswordProtectedFileProps) {
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [verifying, setVerifying] = useState(false);
@@ -26,16 +30,17 @@ export default function PasswordProtectedFile({ fileId, onAuthenticated }: Passw
       setVerifying(true);
       setError(null);
       
-      const isValid = await verifyFilePassword(fileId, password);
+      const isValid = await verifyPassword(password);
       
       if (isValid) {
         onAuthenticated();
       } else {
         setError('Invalid password. Please try again.');
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error verifying password:', error);
-      setError('An error occurred while verifying the password');
+      // Lockout and server errors carry a message worth showing
+      setError(error?.message || 'An error occurred while verifying the password');
     } finally {
       setVerifying(false);
     }
@@ -49,6 +54,12 @@ export default function PasswordProtectedFile({ fileId, onAuthenticated }: Passw
         <p className="text-gray-600 mb-6 text-center">
           This file is password protected. Please enter the password to access it.
         </p>
+
+        {isEncrypted && (
+          <p className="text-sm text-gray-500 mb-6 text-center">
+            🔐 It is also encrypted and will be decrypted in your browser using the key from your link.
+          </p>
+        )}
         
         {error && (
           <div className="bg-red-50 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
@@ -0,0 +1,390 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  createShareLink,
+  getShareLinks,
+  getShareUrl,
+  revokeShareLink,
+  updateShareLink
+} from '@/services/shareService';
+import { shareFile, unshareFile } from '@/services/fileService';
+import { FILE_ROLES, ROLE_LABELS } from '@/utils/permissions';
+import { askForFileKey } from '@/utils/encryption';
+import { FileRecord, FileRole, ShareLinkOptions, ShareSettings } from '@/types';
+
+interface ShareModalProps {
+  file: FileRecord;
+  onClose: () => void;
+  onFileChange?: (file: FileRecord) => void;
+}
+
+// Manages who a file is shared with (named people with roles) and its
+// share links. Open only for owners and co-owners.
+export default function ShareModal({ file: initialFile, onClose, onFileChange }: ShareModalProps) {
+  const { user } = useAuth();
+  const [file, setFile] = useState(initialFile);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<FileRole>('viewer');
+  const [links, setLinks] = useState<ShareSettings[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // null: no form open; 'new': creating; otherwise the id of the link being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [label, setLabel] = useState('');
+  const [expirationHours, setExpirationHours] = useState<number | ''>('');
+  const [allowView, setAllowView] = useState(true);
+  const [allowDownload, setAllowDownload] = useState(true);
+  const [passwordProtect, setPasswordProtect] = useState(false);
+  const [password, setPassword] = useState('');
+
+  const editingLink = links.find(link => link.id === editing);
+
+  useEffect(() => {
+    if (!user) return;
+
+    getShareLinks(file)
+      .then(setLinks)
+      .catch((error) => {
+        console.error('Error loading share links:', error);
+        toast.error('Failed to load share links');
+      })
+      .finally(() => setLoading(false));
+  }, [file.id, user]);
+
+  const applyFileChange = (updated: FileRecord) => {
+    setFile(updated);
+    onFileChange?.(updated);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !inviteEmail.trim()) return;
+
+    try {
+      applyFileChange(await shareFile(file.id!, inviteEmail, inviteRole));
+      setInviteEmail('');
+      toast.success('File shared successfully');
+    } catch (error: any) {
+      console.error('Share error:', error);
+      toast.error(error?.message || 'Failed to share file');
+    }
+  };
+
+  const handleRoleChange = async (email: string, role: FileRole) => {
+    if (!user) return;
+
+    try {
+      applyFileChange(await shareFile(file.id!, email, role));
+      toast.success('Role updated');
+    } catch (error: any) {
+      console.error('Change role error:', error);
+      toast.error(error?.message || 'Failed to change role');
+    }
+  };
+
+  const handleUnshare = async (email: string) => {
+    if (!user) return;
+
+    try {
+      applyFileChange(await unshareFile(file.id!, email));
+      toast.success(`Stopped sharing with ${email}`);
+    } catch (error: any) {
+      console.error('Unshare error:', error);
+      toast.error(error?.message || 'Failed to stop sharing');
+    }
+  };
+
+  const copyLink = async (link: ShareSettings) => {
+    const key = file.isEncrypted ? askForFileKey(file.name) : null;
+    if (file.isEncrypted && !key) return;
+
+    try {
+      await navigator.clipboard.writeText(getShareUrl(link, file, key));
+      toast.success('Link copied to clipboard!');
+    } catch (error: any) {
+      console.error('Failed to copy link:', error);
+      toast.error(error?.message || 'Failed to copy link');
+    }
+  };
+
+  const openForm = (link?: ShareSettings) => {
+    setEditing(link ? link.id! : 'new');
+    setLabel(link?.label || '');
+    setAllowView(link ? link.allowView : true);
+    setAllowDownload(link ? link.allowDownload : true);
+    setPasswordProtect(!!link?.isPasswordProtected);
+    setPassword('');
+
+    // Show how many hours are left on an existing expiry
+    if (link?.expiresAt) {
+      const hoursLeft = Math.ceil((link.expiresAt.getTime() - Date.now()) / (1000 * 60 * 60));
+      setExpirationHours(Math.max(0, hoursLeft));
+    } else {
+      setExpirationHours('');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user || !editing) return;
+
+    const options: ShareLinkOptions = { label, allowView, allowDownload };
+
+    if (expirationHours && !isNaN(Number(expirationHours))) {
+      options.expiresIn = Number(expirationHours);
+    } else if (editingLink?.expiresAt) {
+      // Clearing the field removes the expiry
+      options.expiresIn = null;
+    }
+
+    if (passwordProtect && password.trim()) {
+      options.password = password.trim();
+    } else if (!passwordProtect && editingLink?.isPasswordProtected) {
+      options.password = null;
+    }
+
+    try {
+      setSaving(true);
+
+      if (editing === 'new') {
+        const link = await createShareLink(file, options);
+        setLinks(prev => [link, ...prev]);
+        await copyLink(link);
+      } else {
+        const link = await updateShareLink(editing, options);
+        setLinks(prev => prev.map(current => (current.id === link.id ? link : current)));
+        toast.success('Share link updated');
+      }
+
+      setEditing(null);
+    } catch (error) {
+      console.error('Error saving share link:', error);
+      toast.error('Failed to save share link');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async (link: ShareSettings) => {
+    if (!user) return;
+    if (!window.confirm('Revoke this link? Anyone using it will lose access immediately.')) return;
+
+    try {
+      await revokeShareLink(link.id!);
+      setLinks(prev => prev.filter(current => current.id !== link.id));
+      toast.success('Share link revoked');
+    } catch (error) {
+      console.error('Error revoking share link:', error);
+      toast.error('Failed to revoke share link');
+    }
+  };
+
+  // A new link or a newly protected one needs a password typed in
+  const passwordMissing = passwordProtect && !password.trim() && !editingLink?.isPasswordProtected;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">
+          Share <span className="font-medium">{file.name}</span>
+        </h3>
+
+        <h4 className="text-sm font-semibold mb-2">People</h4>
+        <form onSubmit={handleInvite} className="flex space-x-2 mb-3">
+          <input
+            type="email"
+            value={inviteEmail}
+            onChange={(e) => setInviteEmail(e.target.value)}
+            placeholder="Email address"
+            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+          <select
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as FileRole)}
+            className="px-2 py-2 border border-gray-300 rounded-md text-sm"
+          >
+            {FILE_ROLES.map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            disabled={!inviteEmail.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-blue-300"
+          >
+            Share
+          </button>
+        </form>
+
+        {file.collaborators.length > 0 && (
+          <ul className="divide-y divide-gray-100 border rounded-md mb-6">
+            {file.collaborators.map((collaborator) => (
+              <li key={collaborator.email} className="p-3 flex items-center justify-between">
+                <span className="text-sm truncate mr-2">{collaborator.email}</span>
+                <span className="flex items-center space-x-2 whitespace-nowrap">
+                  <select
+                    value={collaborator.role}
+                    onChange={(e) => handleRoleChange(collaborator.email, e.target.value as FileRole)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {FILE_ROLES.map(role => (
+                      <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleUnshare(collaborator.email)}
+                    className="text-sm text-red-600 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <h4 className="text-sm font-semibold mb-1">Links</h4>
+        <p className="text-xs text-gray-500 mb-3">
+          Each link has its own password, expiry and permissions.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-sm text-gray-500 mb-4">No active links yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border rounded-md mb-4">
+            {links.map((link) => (
+              <li key={link.id} className="p-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm truncate mr-2">{link.label || 'Untitled link'}</span>
+                  <span className="space-x-2 text-sm whitespace-nowrap">
+                    <button onClick={() => copyLink(link)} className="text-blue-600 hover:underline">Copy</button>
+                    <button onClick={() => openForm(link)} className="text-blue-600 hover:underline">Edit</button>
+                    <button onClick={() => handleRevoke(link)} className="text-red-600 hover:underline">Revoke</button>
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {[link.allowView && 'View', link.allowDownload && 'Download'].filter(Boolean).join(' & ') || 'No access'}
+                  {link.isPasswordProtected && <span className="ml-2 text-blue-600">• 🔒 Password</span>}
+                  <span className="ml-2">
+                    • {link.expiresAt ? `Expires ${link.expiresAt.toLocaleString()}` : 'No expiry'}
+                  </span>
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {editing ? (
+          <div className="space-y-4 border-t pt-4 mb-4">
+            <h4 className="text-sm font-semibold">{editing === 'new' ? 'New link' : 'Edit link'}</h4>
+
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Label, e.g. who this link is for"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Expiration</label>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="number"
+                  min="1"
+                  value={expirationHours}
+                  onChange={(e) => setExpirationHours(e.target.value === '' ? '' : Number(e.target.value))}
+                  placeholder="Enter hours"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+                <span className="text-sm text-gray-500">hours</span>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">Leave empty for no expiration</p>
+            </div>
+
+            <div className="flex items-center space-x-6">
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allowView}
+                  onChange={(e) => setAllowView(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Allow viewing
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allowDownload}
+                  onChange={(e) => setAllowDownload(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Allow downloading
+              </label>
+            </div>
+
+            <div>
+              <label className="flex items-center text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={passwordProtect}
+                  onChange={(e) => setPasswordProtect(e.target.checked)}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Require a password
+              </label>
+              {passwordProtect && (
+                <input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={editingLink?.isPasswordProtected ? 'Leave empty to keep the current password' : 'Enter password'}
+                  className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={() => setEditing(null)}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || passwordMissing}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:bg-blue-300"
+              >
+                {editing === 'new' ? 'Create & Copy Link' : 'Save'}
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => openForm()}
+            className="w-full mb-4 px-4 py-2 border border-dashed border-blue-400 text-blue-600 rounded-md text-sm font-medium hover:bg-blue-50"
+          >
+            + New link
+          </button>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+'use client';
+
+import { useState } from 'react';
+import FileList from '@/components/FileList';
+import { FileRecord } from '@/types';
+
+// Files other people have shared with the signed-in user, with their role on each
+export default function SharedWithMe() {
+  const [files, setFiles] = useState<FileRecord[]>([]);
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xl font-semibold text-gray-900">Shared with me</h2>
+      <FileList files={files} onFilesChange={setFiles} isOwner={false} />
+    </section>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  getTrashedFiles,
+  getUserStorageInfo,
+  permanentlyDeleteFile,
+  restoreFile
+} from '@/services/fileService';
+import { getTrashedFolders, permanentlyDeleteFolder, restoreFolder } from '@/services/folderService';
+import { updateUserProfile } from '@/services/userService';
+import { formatFileSize } from '@/utils/fileOperations';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '@/utils/schema';
+import { FileRecord, FolderMetadata } from '@/types';
+
+const RETENTION_CHOICES = [7, 30, 90, 365];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Deleted files and folders, which can be restored or deleted for good until
+// the retention period purges them
+export default function Trash() {
+  const { user, userProfile } = useAuth();
+  const [files, setFiles] = useState<FileRecord[]>([]);
+  const [folders, setFolders] = useState<FolderMetadata[]>([]);
+  const [trashSize, setTrashSize] = useState<string | null>(null);
+  const [retentionDays, setRetentionDays] = useState(userProfile?.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const refresh = async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const [trashedFiles, trashedFolders, storage] = await Promise.all([
+        getTrashedFiles(user.uid),
+        getTrashedFolders(user.uid),
+        getUserStorageInfo(user.uid)
+      ]);
+      setFiles(trashedFiles);
+      setFolders(trashedFolders);
+      setTrashSize(storage.inTrash);
+    } catch (error) {
+      console.error('Error loading trash:', error);
+      toast.error('Failed to load trash');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [user]);
+
+  const run = async (id: string, action: () => Promise<unknown>, success: string) => {
+    try {
+      setBusy(id);
+      await action();
+      toast.success(success);
+      await refresh();
+    } catch (error: any) {
+      console.error('Trash action error:', error);
+      toast.error(error.message || 'Something went wrong');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!user || !window.confirm('Permanently delete everything in the trash? This cannot be undone.')) return;
+
+    await run('all', async () => {
+      for (const folder of folders) {
+        await permanentlyDeleteFolder(folder.id!);
+      }
+      for (const file of files) {
+        await permanentlyDeleteFile(file.id!);
+      }
+    }, 'Trash emptied');
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    if (!user) return;
+
+    try {
+      await updateUserProfile(user.uid, { trashRetentionDays: days });
+      setRetentionDays(days);
+      toast.success(`Trash will be kept for ${days} days`);
+    } catch (error) {
+      console.error('Error saving trash retention:', error);
+      toast.error('Failed to save setting');
+    }
+  };
+
+  const purgeDate = (deletedAt: Date) => new Date(deletedAt.getTime() + retentionDays * DAY_MS).toLocaleDateString();
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded text-sm">
+        Files in the trash still count toward your storage quota
+        {trashSize && <> (currently {trashSize})</>} until they are permanently deleted.
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label className="text-sm text-gray-700">
+          Delete items in the trash after{' '}
+          <select
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="ml-1 px-2 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            {Array.from(new Set([...RETENTION_CHOICES, retentionDays])).sort((a, b) => a - b).map(days => (
+              <option key={days} value={days}>{days} days</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={handleEmptyTrash}
+          disabled={busy !== null || (files.length === 0 && folders.length === 0)}
+          className="px-3 py-1 text-sm text-red-600 border border-red-200 hover:bg-red-50 rounded disabled:opacity-50"
+        >
+          Empty trash
+        </button>
+      </div>
+
+      {loading && (
+        <div className="flex justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+        </div>
+      )}
+
+      {!loading && files.length === 0 && folders.length === 0 && (
+        <p className="text-center text-gray-500 py-12">The trash is empty</p>
+      )}
+
+      {folders.map(folder => (
+        <div key={folder.id} className="bg-white p-4 rounded-lg shadow border border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="text-2xl">📁</div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{folder.name}</h3>
+              <p className="text-sm text-gray-500">
+                {folder.path} • Deleted {folder.deletedAt!.toLocaleDateString()} • Purged {purgeDate(folder.deletedAt!)}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => run(folder.id!, () => restoreFolder(folder.id!), 'Folder restored')}
+              disabled={busy !== null}
+              className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => window.confirm(`Permanently delete "${folder.name}" and everything in it?`)
+                && run(folder.id!, () => permanentlyDeleteFolder(folder.id!), 'Folder permanently deleted')}
+              disabled={busy !== null}
+              className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+            >
+              Delete forever
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {files.map(file => (
+        <div key={file.id} className="bg-white p-4 rounded-lg shadow border border-gray-200 flex items-center justify-between">
+          <div className="flex items-center space-x-4">
+            <div className="text-2xl">{file.type.startsWith('image/') ? '🖼️' : '📄'}</div>
+            <div>
+              <h3 className="text-lg font-medium text-gray-900">{file.name}</h3>
+              <p className="text-sm text-gray-500">
+                {formatFileSize(file.size)} • Deleted {file.deletedAt!.toLocaleDateString()} • Purged {purgeDate(file.deletedAt!)}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => run(file.id!, () => restoreFile(file.id!), 'File restored')}
+              disabled={busy !== null}
+              className="px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded disabled:opacity-50"
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => window.confirm(`Permanently delete "${file.name}"?`)
+                && run(file.id!, () => permanentlyDeleteFile(file.id!), 'File permanently deleted')}
+              disabled={busy !== null}
+              className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 rounded disabled:opacity-50"
+            >
+              Delete forever
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import toast from 'react-hot-toast';
+import { useUploadQueue, UploadStatus } from '@/contexts/UploadQueueContext';
+import { formatFileSize, getFileTypeIcon } from '@/utils/fileOperations';
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  uploading: 'Uploading',
+  retrying: 'Retrying',
+  paused: 'Paused',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+const STATUS_COLORS: Record<UploadStatus, string> = {
+  queued: 'text-gray-500',
+  uploading: 'text-blue-600',
+  retrying: 'text-yellow-600',
+  paused: 'text-gray-600',
+  done: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-400'
+};
+
+export default function UploadQueuePanel() {
+  const { items, pause, resume, cancel, retry, clearFinished } = useUploadQueue();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (items.length === 0) return null;
+
+  // Encrypted uploads' keys live only in this list until it is cleared
+  const copyKey = async (key: string) => {
+    try {
+      await navigator.clipboard.writeText(key);
+      toast.success('Key copied. Keep it somewhere safe.');
+    } catch (error) {
+      console.error('Failed to copy key:', error);
+      toast.error('Failed to copy key');
+    }
+  };
+
+  const remaining = items.filter(item => !['done', 'failed', 'cancelled'].includes(item.status)).length;
+
+  return (
+    <div className="fixed bottom-4 right-4 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-40">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+        <h3 className="text-sm font-semibold">
+          {remaining > 0 ? `Uploading ${remaining} file${remaining !== 1 ? 's' : ''}` : 'Uploads complete'}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <button onClick={clearFinished} className="text-xs text-gray-500 hover:text-gray-700">
+            Clear finished
+          </button>
+          <button onClick={() => setCollapsed(!collapsed)} className="text-xs text-gray-500 hover:text-gray-700">
+            {collapsed ? 'Show' : 'Hide'}
+          </button>
+        </div>
+      </div>
+
+      {!collapsed && (
+        <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100">
+          {items.map((item) => (
+            <li key={item.id} className="px-4 py-3">
+              <div className="flex items-center space-x-3">
+                <div className="text-xl">{getFileTypeIcon(item.file.type)}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium truncate mr-2">{item.file.name}</span>
+                    <span className={`whitespace-nowrap ${STATUS_COLORS[item.status]}`}>
+                      {STATUS_LABELS[item.status]}
+                    </span>
+                  </div>
+                  <div className="mt-1 h-1.5 bg-gray-200 rounded-full">
+                    <div
+                      className={`h-1.5 rounded-full transition-all duration-300 ${item.status === 'failed' ? 'bg-red-500' : 'bg-blue-500'}`}
+                      style={{ width: `${item.progress}%` }}
+                    />
+                  </div>
+                  <div className="flex justify-between mt-1 text-xs text-gray-500">
+                    <span>
+                      {formatFileSize(Math.round((item.file.size * item.progress) / 100))} / {formatFileSize(item.file.size)}
+                    </span>
+                    <span className="space-x-2">
+                      {(item.status === 'uploading' || item.status === 'queued') && (
+                        <button onClick={() => pause(item.id)} className="text-blue-600 hover:underline">Pause</button>
+                      )}
+                      {item.status === 'paused' && (
+                        <button onClick={() => resume(item.id)} className="text-blue-600 hover:underline">Resume</button>
+                      )}
+                      {item.status === 'done' && item.encryptionKey && (
+                        <button onClick={() => copyKey(item.encryptionKey!)} className="text-blue-600 hover:underline">Copy key</button>
+                      )}
+                      {item.status === 'failed' && (
+                        <button onClick={() => retry(item.id)} className="text-blue-600 hover:underline">Retry</button>
+                      )}
+                      {!['done', 'cancelled'].includes(item.status) && (
+                        <button onClick={() => cancel(item.id)} className="text-red-600 hover:underline">Cancel</button>
+                      )}
+                    </span>
+                  </div>
+                  {item.error && item.status !== 'done' && (
+                    <p className="mt-1 text-xs text-red-600 truncate">{item.error}</p>
+                  )}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
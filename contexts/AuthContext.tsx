@@ -13,7 +13,8 @@ import {
   updatePassword,
 } from 'firebase/auth';
 import { auth } from '@/config/firebase';
-import { createUserProfile, getUserProfile, updateUserProfile, UserProfile } from '@/services/userService';
+import { createUserProfile, getUserProfile, recordPasswordChange, syncProfileEmail, updateUserProfile } from '@/services/userService';
+import { UserProfile } from '@/types';
 
 interface AuthContextType {
   user: User | null;
@@ -71,7 +72,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       const user = userCredential.user;
       
       // Create user profile in Firestore
-      const profile = await createUserProfile(user.uid, email);
+      const profile = await createUserProfile(user.uid);
       setUserProfile(profile);
       setUser(user);
     } catch (error) {
@@ -113,12 +114,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const updateUserEmail = async (email: string) => {
     if (!user) throw new Error('No user logged in');
     await updateEmail(user, email);
-    await updateUserProfile(user.uid, { email });
+    await user.getIdToken(true);
+    await syncProfileEmail();
   };
 
   const updateUserPassword = async (password: string) => {
     if (!user) throw new Error('No user logged in');
     await updatePassword(user, password);
+    // Only the fact of the change is recorded, never the password
+    try {
+      await recordPasswordChange();
+    } catch (error) {
+      console.error('Error recording password change:', error);
+    }
   };
 
   const updateUserDisplayName = async (displayName: string) => {
@@ -0,0 +1,198 @@
+'use client';
+
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import toast from 'react-hot-toast';
+import { uploadFile } from '@/services/fileService';
+import { discardUploadSession } from '@/services/storage/chunkedUpload';
+import { useAuth } from '@/contexts/AuthContext';
+import { FileRecord } from '@/types';
+import UploadQueuePanel from '@/components/UploadQueuePanel';
+
+export type UploadStatus =
+  | 'queued'
+  | 'uploading'
+  | 'retrying'
+  | 'paused'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export interface UploadOptions {
+  expiresIn?: number;
+  folderId?: string | null;
+  encrypt?: boolean;
+}
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  options: UploadOptions;
+  status: UploadStatus;
+  progress: number;
+  attempts: number;
+  error?: string;
+  encryptionKey?: string; // Shown once for encrypted uploads, never stored
+}
+
+type UploadListener = (fileData: FileRecord) => void;
+
+interface UploadQueueContextType {
+  items: UploadItem[];
+  enqueue: (files: File[], options?: UploadOptions) => void;
+  pause: (id: string) => void;
+  resume: (id: string) => void;
+  cancel: (id: string) => void;
+  retry: (id: string) => void;
+  clearFinished: () => void;
+  onUploaded: (listener: UploadListener) => () => void;
+}
+
+const CONCURRENCY = Number(process.env.NEXT_PUBLIC_UPLOAD_CONCURRENCY) || 3;
+const MAX_ATTEMPTS = 3;
+
+const UploadQueueContext = createContext<UploadQueueContextType>({
+  items: [],
+  enqueue: () => {},
+  pause: () => {},
+  resume: () => {},
+  cancel: () => {},
+  retry: () => {},
+  clearFinished: () => {},
+  onUploaded: () => () => {}
+});
+
+export function useUploadQueue() {
+  return useContext(UploadQueueContext);
+}
+
+// Mount once inside AuthProvider in the root layout so uploads keep running
+// while the user moves between pages.
+export function UploadQueueProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const listeners = useRef(new Set<UploadListener>());
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const runItem = useCallback(async (item: UploadItem) => {
+    if (!user) return;
+
+    const controller = new AbortController();
+    controllers.current.set(item.id, controller);
+
+    try {
+      const { file: fileData, encryptionKey } = await uploadFile(item.file, user.uid, {
+        ...item.options,
+        signal: controller.signal,
+        onProgress: (progress) => updateItem(item.id, { progress })
+      });
+
+      updateItem(item.id, { status: 'done', progress: 100, error: undefined, encryptionKey });
+      toast.success(`${item.file.name} uploaded successfully!`);
+      listeners.current.forEach(listener => listener(fileData));
+    } catch (error: any) {
+      // Pause and cancel set the status themselves before aborting
+      if (error?.name === 'AbortError') return;
+
+      // Retrying can't make a file the policy refuses acceptable
+      const attempts = item.attempts + 1;
+      if (attempts < MAX_ATTEMPTS && error?.name !== 'UploadPolicyError') {
+        updateItem(item.id, { status: 'retrying', attempts, error: error?.message });
+        setTimeout(() => {
+          setItems(prev => prev.map(current =>
+            current.id === item.id && current.status === 'retrying'
+              ? { ...current, status: 'queued' }
+              : current
+          ));
+        }, 2000 * 2 ** (attempts - 1));
+      } else {
+        updateItem(item.id, { status: 'failed', attempts, error: error?.message || 'Upload failed' });
+        toast.error(error?.name === 'UploadPolicyError' ? error.message : `Failed to upload ${item.file.name}`);
+      }
+    } finally {
+      controllers.current.delete(item.id);
+    }
+  }, [user, updateItem]);
+
+  // Start queued items whenever a slot frees up
+  useEffect(() => {
+    const active = items.filter(item => item.status === 'uploading').length;
+    const next = items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, CONCURRENCY - active));
+
+    next.forEach(item => {
+      updateItem(item.id, { status: 'uploading' });
+      runItem(item);
+    });
+  }, [items, runItem, updateItem]);
+
+  const enqueue = useCallback((files: File[], options: UploadOptions = {}) => {
+    setItems(prev => [
+      ...prev,
+      ...files.map(file => ({
+        id: uuidv4(),
+        file,
+        options,
+        status: 'queued' as UploadStatus,
+        progress: 0,
+        attempts: 0
+      }))
+    ]);
+  }, []);
+
+  const pause = useCallback((id: string) => {
+    updateItem(id, { status: 'paused' });
+    controllers.current.get(id)?.abort();
+  }, [updateItem]);
+
+  const resume = useCallback((id: string) => {
+    updateItem(id, { status: 'queued' });
+  }, [updateItem]);
+
+  const cancel = useCallback((id: string) => {
+    const item = items.find(current => current.id === id);
+    updateItem(id, { status: 'cancelled' });
+    controllers.current.get(id)?.abort();
+    if (item && user) {
+      discardUploadSession(user.uid, item.file);
+    }
+  }, [items, user, updateItem]);
+
+  const retry = useCallback((id: string) => {
+    updateItem(id, { status: 'queued', attempts: 0, error: undefined });
+  }, [updateItem]);
+
+  const clearFinished = useCallback(() => {
+    setItems(prev => prev.filter(item => !['done', 'failed', 'cancelled'].includes(item.status)));
+  }, []);
+
+  const onUploaded = useCallback((listener: UploadListener) => {
+    listeners.current.add(listener);
+    return () => {
+      listeners.current.delete(listener);
+    };
+  }, []);
+
+  const value = {
+    items,
+    enqueue,
+    pause,
+    resume,
+    cancel,
+    retry,
+    clearFinished,
+    onUploaded
+  };
+
+  return (
+    <UploadQueueContext.Provider value={value}>
+      {children}
+      <UploadQueuePanel />
+    </UploadQueueContext.Provider>
+  );
+}
@@ -0,0 +1,136 @@
+import { FieldValue, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { getClientIp, hashIp } from '@/lib/attemptLimiter';
+import { AccessEvent, AccessKind, FileAnalytics, FileRecord } from '@/types';
+
+// Records views and downloads in the server-only `accessEvents` collection
+// and keeps the file's downloadCount in step.
+const ANALYTICS_DAYS = 30;
+
+const BROWSERS: [RegExp, string][] = [
+  [/edg\//i, 'Edge'],
+  [/opr\/|opera/i, 'Opera'],
+  [/firefox|fxios/i, 'Firefox'],
+  [/chrome|crios/i, 'Chrome'],
+  [/safari/i, 'Safari']
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/windows/i, 'Windows'],
+  [/iphone|ipad|ipod/i, 'iOS'],
+  [/android/i, 'Android'],
+  [/mac os x/i, 'macOS'],
+  [/cros/i, 'ChromeOS'],
+  [/linux/i, 'Linux']
+];
+
+// Reduce a user agent to browser and OS family so visitors can't be fingerprinted from it
+export const coarseUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown';
+  if (/bot|crawler|spider|preview|curl|wget/i.test(userAgent)) return 'Bot or script';
+
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'Other browser';
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1] || 'other OS';
+  return `${browser} on ${system}`;
+};
+
+// Logging must never stop the file from being served, so failures are only reported
+export const recordAccess = async (
+  request: Request,
+  record: FileRecord,
+  kind: AccessKind,
+  { shareId = null, userId = null }: { shareId?: string | null; userId?: string | null } = {}
+) => {
+  try {
+    const event: Omit<AccessEvent, 'id'> = {
+      fileId: record.id!,
+      kind,
+      shareId,
+      userId,
+      userAgent: coarseUserAgent(request.headers.get('user-agent')),
+      ipHash: hashIp(getClientIp(request)),
+      createdAt: new Date()
+    };
+
+    const batch = adminDb.batch();
+    batch.set(adminDb.collection('accessEvents').doc(), event);
+    if (kind === 'download') {
+      batch.update(adminDb.collection('files').doc(record.id!), { downloadCount: FieldValue.increment(1) });
+    }
+    await batch.commit();
+  } catch (error) {
+    console.error('Error recording file access:', error);
+  }
+};
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const countBy = <T>(items: T[], key: (item: T) => string) => {
+  const counts = new Map<string, number>();
+  items.forEach(item => counts.set(key(item), (counts.get(key(item)) || 0) + 1));
+  return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count);
+};
+
+// The most recent events read for the daily series and breakdowns. Busy
+// files can have more in 30 days; older ones among those are left out.
+const MAX_RECENT_EVENTS = 5000;
+
+const countEvents = async (fileId: string, kind: AccessKind) =>
+  (await adminDb.collection('accessEvents')
+    .where('fileId', '==', fileId)
+    .where('kind', '==', kind)
+    .count()
+    .get()).data().count;
+
+const toAccessEvent = (eventDoc: QueryDocumentSnapshot) => {
+  const data = eventDoc.data();
+  return { ...data, createdAt: data.createdAt.toDate() } as AccessEvent;
+};
+
+// Totals are counted across all recorded events without reading them. The
+// daily series, unique visitors and breakdowns come from the last 30 days.
+export const getFileAnalytics = async (fileId: string): Promise<FileAnalytics> => {
+  const since = new Date(Date.now() - ANALYTICS_DAYS * 24 * 60 * 60 * 1000);
+  const recentEvents = adminDb.collection('accessEvents')
+    .where('fileId', '==', fileId)
+    .orderBy('createdAt', 'desc');
+
+  const [views, downloads, snapshot] = await Promise.all([
+    countEvents(fileId, 'view'),
+    countEvents(fileId, 'download'),
+    recentEvents.where('createdAt', '>=', since).limit(MAX_RECENT_EVENTS).get()
+  ]);
+  const events = snapshot.docs.map(toAccessEvent);
+
+  const daily = new Map<string, { views: number; downloads: number }>();
+  for (let offset = ANALYTICS_DAYS - 1; offset >= 0; offset--) {
+    daily.set(dayKey(new Date(Date.now() - offset * 24 * 60 * 60 * 1000)), { views: 0, downloads: 0 });
+  }
+  events.forEach(event => {
+    const day = daily.get(dayKey(event.createdAt));
+    if (day) {
+      day[event.kind === 'view' ? 'views' : 'downloads']++;
+    }
+  });
+
+  const linkCounts = countBy(events.filter(event => event.shareId), event => event.shareId!);
+  const shareDocs = linkCounts.length
+    ? await adminDb.getAll(...linkCounts.map(({ value }) => adminDb.collection('shares').doc(value)))
+    : [];
+  const labels = new Map(shareDocs.map(shareDoc => [shareDoc.id, shareDoc.data()?.label as string | undefined]));
+
+  // Events come newest first; files not opened lately need one more read
+  const lastAccess = events[0]
+    || (await recentEvents.limit(1).get()).docs.map(toAccessEvent)[0];
+
+  return {
+    views,
+    downloads,
+    // Signed-in visitors count once across devices; anonymous ones by IP hash
+    uniqueVisitors: new Set(events.map(event => event.userId || event.ipHash)).size,
+    lastAccessedAt: lastAccess?.createdAt.toISOString() || null,
+    daily: Array.from(daily, ([date, counts]) => ({ date, ...counts })),
+    links: linkCounts.map(({ value, count }) => ({ shareId: value, label: labels.get(value), count })),
+    userAgents: countBy(events, event => event.userAgent).map(({ value, count }) => ({ userAgent: value, count }))
+  };
+};
@@ -0,0 +1,108 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { getAuditEntries, writeAuditEntry } from '@/lib/auditLog';
+import { UserProfile } from '@/types';
+import {
+  DEFAULT_STORAGE_LIMIT,
+  DEFAULT_TRASH_RETENTION_DAYS,
+  USER_SCHEMA_VERSION,
+  parseUserProfile,
+  validateUserProfile
+} from '@/utils/schema';
+
+// Server side of a user's own account. Quota, usage and the admin flag are
+// only ever written here and in lib/admin, so the profile is created here too.
+type Actor = Pick<DecodedIdToken, 'uid' | 'email'>;
+
+// Create the caller's profile with the default quota. Calling it again
+// returns the existing profile unchanged.
+export const createProfileAdmin = async (actor: Actor): Promise<UserProfile> => {
+  if (!actor.email) {
+    throw new HttpError(400, 'Your account has no email address');
+  }
+
+  const userRef = adminDb.collection('users').doc(actor.uid);
+  return adminDb.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (userDoc.exists) {
+      return parseUserProfile(userDoc.id, userDoc.data()!);
+    }
+
+    const profile = validateUserProfile({
+      uid: actor.uid,
+      schemaVersion: USER_SCHEMA_VERSION,
+      email: actor.email!,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      storageLimit: DEFAULT_STORAGE_LIMIT,
+      usedStorage: 0,
+      isAdmin: false,
+      trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS
+    });
+    transaction.create(userRef, profile);
+    return profile;
+  });
+};
+
+// Copy the email from the caller's ID token into their profile after they
+// change it. The token is the only source trusted for it.
+export const syncProfileEmailAdmin = async (actor: Actor) => {
+  if (!actor.email) {
+    throw new HttpError(400, 'Your account has no email address');
+  }
+
+  const userRef = adminDb.collection('users').doc(actor.uid);
+  const previous = await adminDb.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+    if (!userDoc.exists) {
+      throw new HttpError(404, 'User profile not found');
+    }
+
+    const email = userDoc.data()!.email as string;
+    if (email !== actor.email) {
+      transaction.update(userRef, { email: actor.email, updatedAt: new Date() });
+    }
+    return email;
+  });
+
+  if (previous !== actor.email) {
+    await writeAuditEntry(actor, {
+      action: 'account.email',
+      targetId: actor.uid,
+      targetName: actor.email,
+      ownerId: actor.uid,
+      before: { email: previous },
+      after: { email: actor.email }
+    });
+  }
+};
+
+// How long after a password change it may still be recorded
+const PASSWORD_CHANGE_WINDOW_MS = 10 * 60 * 1000;
+
+// Record that the caller changed their password. Firebase Auth revokes older
+// sessions when a password changes, so the account's tokensValidAfterTime
+// says when that happened; nothing is recorded without a recent change, and
+// each change is recorded once. The password itself never reaches us.
+export const recordPasswordChangeAdmin = async (actor: Actor) => {
+  const account = await adminAuth.getUser(actor.uid);
+  const changedAt = account.tokensValidAfterTime ? new Date(account.tokensValidAfterTime) : null;
+  if (!changedAt || Date.now() - changedAt.getTime() > PASSWORD_CHANGE_WINDOW_MS) {
+    throw new HttpError(409, 'No recent password change to record');
+  }
+
+  const [last] = await getAuditEntries({ userId: actor.uid, action: 'account.password', limit: 1 });
+  if (last?.after?.changedAt === changedAt.toISOString()) {
+    return;
+  }
+
+  await writeAuditEntry(actor, {
+    action: 'account.password',
+    targetId: actor.uid,
+    targetName: actor.email,
+    ownerId: actor.uid,
+    before: null,
+    after: { changedAt: changedAt.toISOString() }
+  });
+};
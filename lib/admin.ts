@@ -0,0 +1,198 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { AggregateField, Query } from 'firebase-admin/firestore';
+import { adminAuth, adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { writeAuditEntry } from '@/lib/auditLog';
+import { AdminUser, FileRecord, StorageTotals, UserProfile } from '@/types';
+import { parseFileRecord, parseUserProfile } from '@/utils/schema';
+
+// Server side of the admin console. The routes under /api/admin check the
+// admin claim before calling any of these.
+const MAX_PAGE_SIZE = 100;
+
+type Actor = Pick<DecodedIdToken, 'uid' | 'email'>;
+
+export interface AdminUserQuery {
+  search?: string; // Email prefix or exact user id
+  after?: string; // Cursor: the email of the last user already shown
+  limit?: number;
+}
+
+export interface AdminFileQuery {
+  userId?: string;
+  after?: string; // Cursor: the id of the last file already shown
+  limit?: number;
+}
+
+const pageSize = (limit?: number) => Math.min(Math.max(1, limit || 50), MAX_PAGE_SIZE);
+
+// Disabled is kept by Firebase Auth, not the profile, so read it from there
+const withAccountState = async (profiles: UserProfile[]): Promise<AdminUser[]> => {
+  if (profiles.length === 0) return [];
+
+  const result = await adminAuth.getUsers(profiles.map(profile => ({ uid: profile.uid })));
+  const disabled = new Map(result.users.map(account => [account.uid, account.disabled]));
+  return profiles.map(profile => ({ ...profile, disabled: disabled.get(profile.uid) ?? false }));
+};
+
+export const listUsersAdmin = async ({ search, after, limit }: AdminUserQuery) => {
+  const size = pageSize(limit);
+  const prefix = search?.trim().toLowerCase();
+
+  let usersQuery: Query = adminDb.collection('users').orderBy('email');
+  if (prefix) {
+    usersQuery = usersQuery.where('email', '>=', prefix).where('email', '<', `${prefix}\uf8ff`);
+  }
+  if (after) {
+    usersQuery = usersQuery.startAfter(after);
+  }
+
+  const snapshot = await usersQuery.limit(size + 1).get();
+  const profiles = snapshot.docs.slice(0, size).map(userDoc => parseUserProfile(userDoc.id, userDoc.data()));
+
+  // A search that is exactly a user id finds that user too
+  if (search && !after && !profiles.some(profile => profile.uid === search.trim())) {
+    const userDoc = await adminDb.collection('users').doc(search.trim()).get();
+    if (userDoc.exists) {
+      profiles.unshift(parseUserProfile(userDoc.id, userDoc.data()!));
+    }
+  }
+
+  return {
+    users: await withAccountState(profiles),
+    nextCursor: snapshot.docs.length > size ? profiles[profiles.length - 1].email : null
+  };
+};
+
+const getUserProfileAdmin = async (uid: string): Promise<UserProfile> => {
+  const userDoc = await adminDb.collection('users').doc(uid).get();
+  if (!userDoc.exists) {
+    throw new HttpError(404, 'User not found');
+  }
+  return parseUserProfile(userDoc.id, userDoc.data()!);
+};
+
+export const setStorageLimitAdmin = async (actor: Actor, uid: string, storageLimit: number) => {
+  if (!Number.isSafeInteger(storageLimit) || storageLimit < 0) {
+    throw new HttpError(400, 'storageLimit must be a whole number of bytes');
+  }
+
+  const profile = await getUserProfileAdmin(uid);
+  await adminDb.collection('users').doc(uid).update({ storageLimit, updatedAt: new Date() });
+
+  await writeAuditEntry(actor, {
+    action: 'account.quota',
+    targetId: uid,
+    targetName: profile.email,
+    ownerId: uid,
+    before: { storageLimit: profile.storageLimit },
+    after: { storageLimit }
+  });
+};
+
+// A disabled account can't sign in, and revoking its refresh tokens makes
+// verifyRequestUser reject the ID tokens it already holds
+export const setUserDisabledAdmin = async (actor: Actor, uid: string, disabled: boolean) => {
+  if (uid === actor.uid) {
+    throw new HttpError(400, 'You cannot disable your own account');
+  }
+
+  const profile = await getUserProfileAdmin(uid);
+  await adminAuth.updateUser(uid, { disabled });
+  if (disabled) {
+    await adminAuth.revokeRefreshTokens(uid);
+  }
+
+  await writeAuditEntry(actor, {
+    action: disabled ? 'account.disable' : 'account.enable',
+    targetId: uid,
+    targetName: profile.email,
+    ownerId: uid
+  });
+};
+
+// The `admin` claim is what the server checks; the profile's isAdmin mirrors
+// it so the console can list admins. Revoking tokens makes a removal take
+// effect before the user's current token expires.
+export const setAdminRole = async (actor: Actor, uid: string, isAdmin: boolean) => {
+  if (uid === actor.uid && !isAdmin) {
+    throw new HttpError(400, 'You cannot remove your own admin role');
+  }
+
+  const account = await adminAuth.getUser(uid);
+  const profile = await getUserProfileAdmin(uid);
+
+  await adminAuth.setCustomUserClaims(uid, { ...account.customClaims, admin: isAdmin });
+  await adminDb.collection('users').doc(uid).update({ isAdmin, updatedAt: new Date() });
+  if (!isAdmin) {
+    await adminAuth.revokeRefreshTokens(uid);
+  }
+
+  await writeAuditEntry(actor, {
+    action: 'account.role',
+    targetId: uid,
+    targetName: profile.email,
+    ownerId: uid,
+    before: { isAdmin: profile.isAdmin },
+    after: { isAdmin }
+  });
+};
+
+// Every file, trashed and expired ones included, newest first
+export const listFilesAdmin = async ({ userId, after, limit }: AdminFileQuery) => {
+  const size = pageSize(limit);
+
+  let filesQuery: Query = adminDb.collection('files');
+  if (userId) {
+    filesQuery = filesQuery.where('userId', '==', userId);
+  }
+  filesQuery = filesQuery.orderBy('uploadedAt', 'desc');
+  if (after) {
+    const cursorDoc = await adminDb.collection('files').doc(after).get();
+    if (!cursorDoc.exists) {
+      throw new HttpError(400, 'Unknown cursor');
+    }
+    filesQuery = filesQuery.startAfter(cursorDoc);
+  }
+
+  const snapshot = await filesQuery.limit(size + 1).get();
+  const files: FileRecord[] = snapshot.docs
+    .slice(0, size)
+    .map(fileDoc => parseFileRecord(fileDoc.id, fileDoc.data()));
+
+  return { files, nextCursor: snapshot.docs.length > size ? files[files.length - 1].id! : null };
+};
+
+export const getStorageTotalsAdmin = async (): Promise<StorageTotals> => {
+  const [users, files, trashed, versions] = await Promise.all([
+    adminDb.collection('users').aggregate({
+      count: AggregateField.count(),
+      used: AggregateField.sum('usedStorage'),
+      allocated: AggregateField.sum('storageLimit')
+    }).get(),
+    adminDb.collection('files').aggregate({
+      count: AggregateField.count(),
+      bytes: AggregateField.sum('size')
+    }).get(),
+    adminDb.collection('files').where('deletedAt', '!=', null).aggregate({
+      count: AggregateField.count(),
+      bytes: AggregateField.sum('size')
+    }).get(),
+    adminDb.collection('fileVersions').aggregate({
+      count: AggregateField.count(),
+      bytes: AggregateField.sum('size')
+    }).get()
+  ]);
+
+  return {
+    users: users.data().count,
+    allocatedBytes: users.data().allocated || 0,
+    usedBytes: users.data().used || 0,
+    files: files.data().count,
+    fileBytes: files.data().bytes || 0,
+    trashedFiles: trashed.data().count,
+    trashedBytes: trashed.data().bytes || 0,
+    versions: versions.data().count,
+    versionBytes: versions.data().bytes || 0
+  };
+};
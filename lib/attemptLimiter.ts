@@ -0,0 +1,87 @@
+import crypto from 'crypto';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+
+// Counts failed password attempts per file and per client IP in the
+// `passwordAttempts` collection and locks either out for a while once a
+// limit is hit inside the window.
+interface AttemptPolicy {
+  maxFailures: number;
+  windowMs: number;
+  lockoutMs: number;
+}
+
+const FILE_POLICY: AttemptPolicy = { maxFailures: 5, windowMs: 15 * 60 * 1000, lockoutMs: 15 * 60 * 1000 };
+const IP_POLICY: AttemptPolicy = { maxFailures: 20, windowMs: 60 * 60 * 1000, lockoutMs: 60 * 60 * 1000 };
+
+interface AttemptDocument {
+  failures: number;
+  windowStart: number;
+  lockedUntil: number;
+}
+
+// How many proxies we run behind that append to X-Forwarded-For
+const TRUSTED_PROXY_HOPS = Math.max(1, Number(process.env.TRUSTED_PROXY_HOPS) || 1);
+
+// Each trusted proxy appends the address it saw, so the client is that many
+// entries from the right. Anything further left came from the client itself
+// and could be anything, so it must not pick the counter it is limited by.
+export const getClientIp = (request: Request) => {
+  const forwarded = (request.headers.get('x-forwarded-for') || '')
+    .split(',')
+    .map(address => address.trim())
+    .filter(Boolean);
+
+  return forwarded[Math.max(0, forwarded.length - TRUSTED_PROXY_HOPS)]
+    || request.headers.get('x-real-ip')
+    || 'unknown';
+};
+
+// Never store raw IP addresses
+export const hashIp = (ip: string) =>
+  crypto.createHash('sha256').update(`${process.env.IP_HASH_SALT || ''}${ip}`).digest('hex');
+
+const attemptRefs = (fileId: string, ip: string) => [
+  { ref: adminDb.collection('passwordAttempts').doc(`file_${fileId}`), policy: FILE_POLICY },
+  { ref: adminDb.collection('passwordAttempts').doc(`ip_${hashIp(ip)}`), policy: IP_POLICY }
+];
+
+// Throw a 429 if either the file or the client is currently locked out
+export const assertNotLockedOut = async (fileId: string, ip: string) => {
+  const now = Date.now();
+
+  for (const { ref } of attemptRefs(fileId, ip)) {
+    const snapshot = await ref.get();
+    const lockedUntil = (snapshot.data() as AttemptDocument | undefined)?.lockedUntil || 0;
+
+    if (lockedUntil > now) {
+      const minutes = Math.ceil((lockedUntil - now) / 60000);
+      throw new HttpError(429, `Too many incorrect attempts. Try again in ${minutes} minute${minutes !== 1 ? 's' : ''}.`);
+    }
+  }
+};
+
+export const recordFailedAttempt = async (fileId: string, ip: string) => {
+  const now = Date.now();
+
+  await Promise.all(attemptRefs(fileId, ip).map(({ ref, policy }) =>
+    adminDb.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const current = snapshot.data() as AttemptDocument | undefined;
+
+      // Start a new window once the previous one has passed
+      const inWindow = current && now - current.windowStart < policy.windowMs;
+      const failures = inWindow ? current.failures + 1 : 1;
+
+      transaction.set(ref, {
+        failures: failures >= policy.maxFailures ? 0 : failures,
+        windowStart: inWindow ? current.windowStart : now,
+        lockedUntil: failures >= policy.maxFailures ? now + policy.lockoutMs : current?.lockedUntil || 0
+      });
+    })
+  ));
+};
+
+export const clearFailedAttempts = async (fileId: string) => {
+  await adminDb.collection('passwordAttempts').doc(`file_${fileId}`).delete();
+};
@@ -0,0 +1,89 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { Query } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { AuditAction, AuditEntry } from '@/types';
+import { AUDIT_ACTIONS } from '@/utils/audit';
+
+// The audit log lives in the `auditLog` collection. Only the Admin SDK writes
+// to it and nothing ever updates or deletes an entry.
+
+// The actor recorded for work done by scheduled jobs
+export const SYSTEM_ACTOR = { uid: 'system' };
+
+const MAX_VALUE_LENGTH = 10_000;
+const MAX_PAGE_SIZE = 200;
+
+export interface AuditRecord {
+  action: AuditAction;
+  targetId: string;
+  targetName?: string;
+  ownerId: string;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+export interface AuditQuery {
+  userId?: string; // Entries where this user is the actor or owner; omit for all
+  action?: AuditAction;
+  targetId?: string;
+  before?: Date; // Cursor: only entries older than this
+  limit?: number;
+}
+
+// Before/after values are small snapshots of the fields that changed
+const checkValue = (value: unknown, field: string) => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new HttpError(400, `${field} must be an object or null`);
+  }
+  if (JSON.stringify(value).length > MAX_VALUE_LENGTH) {
+    throw new HttpError(400, `${field} is too large`);
+  }
+  return value as Record<string, unknown>;
+};
+
+export const writeAuditEntry = async (actor: Pick<DecodedIdToken, 'uid' | 'email'>, record: AuditRecord) => {
+  if (!AUDIT_ACTIONS.includes(record.action)) {
+    throw new HttpError(400, 'Unknown audit action');
+  }
+
+  const entry: Omit<AuditEntry, 'id'> = {
+    action: record.action,
+    actorId: actor.uid,
+    actorEmail: actor.email || null,
+    targetType: record.action.split('.')[0] as AuditEntry['targetType'],
+    targetId: record.targetId,
+    ownerId: record.ownerId,
+    userIds: Array.from(new Set([actor.uid, record.ownerId])),
+    before: checkValue(record.before, 'before'),
+    after: checkValue(record.after, 'after'),
+    createdAt: new Date()
+  };
+  if (record.targetName) {
+    entry.targetName = record.targetName;
+  }
+
+  await adminDb.collection('auditLog').add(entry);
+};
+
+// Newest first. Each combination of filters needs its composite index in
+// firestore.indexes.json.
+export const getAuditEntries = async ({ userId, action, targetId, before, limit = 50 }: AuditQuery) => {
+  let entriesQuery: Query = adminDb.collection('auditLog');
+
+  if (userId) entriesQuery = entriesQuery.where('userIds', 'array-contains', userId);
+  if (action) entriesQuery = entriesQuery.where('action', '==', action);
+  if (targetId) entriesQuery = entriesQuery.where('targetId', '==', targetId);
+  if (before) entriesQuery = entriesQuery.where('createdAt', '<', before);
+
+  const snapshot = await entriesQuery
+    .orderBy('createdAt', 'desc')
+    .limit(Math.min(Math.max(1, limit), MAX_PAGE_SIZE))
+    .get();
+
+  return snapshot.docs.map(entryDoc => {
+    const data = entryDoc.data();
+    return { ...data, id: entryDoc.id, createdAt: data.createdAt.toDate() } as AuditEntry;
+  });
+};
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+
+// Server-only Cloudinary helpers. The API secret must never reach the browser bundle.
+export const CLOUDINARY_CLOUD_NAME = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME || '';
+export const CLOUDINARY_API_KEY = process.env.CLOUDINARY_API_KEY || '';
+const CLOUDINARY_API_SECRET = process.env.CLOUDINARY_API_SECRET || '';
+
+export const signCloudinaryParams = (params: Record<string, string | number>): string => {
+  if (!CLOUDINARY_API_SECRET) {
+    throw new Error('CLOUDINARY_API_SECRET is not configured');
+  }
+
+  // Cloudinary expects the parameters sorted alphabetically and joined as a query string
+  const stringToSign = Object.entries(params)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&') + CLOUDINARY_API_SECRET;
+
+  return crypto.createHash('sha1').update(stringToSign).digest('hex');
+};
+
+// New uploads use the `authenticated` delivery type so their URLs only work
+// when signed; older assets were uploaded as public `upload` assets.
+export const CLOUDINARY_DELIVERY_TYPE = 'authenticated';
+
+export const destroyCloudinaryAsset = async (
+  publicId: string,
+  resourceType: string = 'image',
+  deliveryType: string = 'upload'
+): Promise<{ result: string }> => {
+  const timestamp = Math.round(Date.now() / 1000);
+
+  const formData = new FormData();
+  formData.append('public_id', publicId);
+  formData.append('type', deliveryType);
+  formData.append('timestamp', timestamp.toString());
+  formData.append('api_key', CLOUDINARY_API_KEY);
+  formData.append('signature', signCloudinaryParams({ public_id: publicId, timestamp, type: deliveryType }));
+
+  const response = await fetch(
+    `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/${resourceType}/destroy`,
+    {
+      method: 'POST',
+      body: formData
+    }
+  );
+
+  const result = await response.json();
+  if (!response.ok || !result.result) {
+    throw new Error(result.error?.message || 'Failed to delete from Cloudinary');
+  }
+
+  return result;
+};
+
+// Fetch an asset's details with the Admin API. Returns null when it no longer exists.
+export const getCloudinaryResource = async (
+  publicId: string,
+  resourceType: string = 'image',
+  deliveryType: string = 'upload'
+) => {
+  const credentials = Buffer.from(`${CLOUDINARY_API_KEY}:${CLOUDINARY_API_SECRET}`).toString('base64');
+
+  const response = await fetch(
+    `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/resources/${resourceType}/${deliveryType}/${publicId}`,
+    {
+      headers: { Authorization: `Basic ${credentials}` }
+    }
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error?.message || 'Failed to fetch Cloudinary resource');
+  }
+
+  return {
+    size: data.bytes as number,
+    contentType: data.format ? `${data.resource_type}/${data.format}` : '',
+    updatedAt: data.created_at as string
+  };
+};
+
+// List the assets of one resource type whose public ids start with prefix,
+// following the Admin API's pages
+export const listCloudinaryAssets = async (
+  prefix: string,
+  resourceType: string,
+  deliveryType: string = CLOUDINARY_DELIVERY_TYPE
+) => {
+  const credentials = Buffer.from(`${CLOUDINARY_API_KEY}:${CLOUDINARY_API_SECRET}`).toString('base64');
+  const assets: { publicId: string; size: number; createdAt: Date; format?: string }[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const query = new URLSearchParams({ prefix, max_results: '500', ...(cursor ? { next_cursor: cursor } : {}) });
+    const response = await fetch(
+      `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/resources/${resourceType}/${deliveryType}?${query}`,
+      {
+        headers: { Authorization: `Basic ${credentials}` }
+      }
+    );
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to list Cloudinary resources');
+    }
+
+    for (const resource of data.resources) {
+      assets.push({
+        publicId: resource.public_id,
+        size: resource.bytes,
+        createdAt: new Date(resource.created_at),
+        format: resource.format
+      });
+    }
+    cursor = data.next_cursor;
+  } while (cursor);
+
+  return assets;
+};
+
+// Build a download URL through the Admin API that stops working at expiresAt.
+// Works for both public and authenticated assets.
+export const createCloudinaryDownloadUrl = (
+  publicId: string,
+  options: {
+    resourceType?: string;
+    deliveryType?: string;
+    format?: string;
+    expiresAt: Date;
+    attachment: boolean;
+  }
+): string => {
+  const params: Record<string, string | number> = {
+    public_id: publicId,
+    type: options.deliveryType || 'upload',
+    expires_at: Math.floor(options.expiresAt.getTime() / 1000),
+    timestamp: Math.round(Date.now() / 1000)
+  };
+  // Raw assets keep their extension in the public_id and have no format
+  if (options.format) {
+    params.format = options.format;
+  }
+  if (options.attachment) {
+    params.attachment = 'true';
+  }
+
+  const query = new URLSearchParams(
+    Object.entries({ ...params, signature: signCloudinaryParams(params), api_key: CLOUDINARY_API_KEY })
+      .map(([key, value]) => [key, value.toString()])
+  );
+
+  return `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/${options.resourceType || 'image'}/download?${query}`;
+};
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminStorage } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { createCloudinaryDownloadUrl } from '@/lib/cloudinary';
+import { FileRecord } from '@/types';
+import { can } from '@/utils/permissions';
+
+// Signed download URLs stop working after this long
+export const DOWNLOAD_URL_TTL_MS = 5 * 60 * 1000;
+
+// How long a correct password unlocks a share link for
+const ACCESS_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+const SIGNING_SECRET = process.env.DOWNLOAD_SIGNING_SECRET || '';
+
+export type Disposition = 'attachment' | 'inline';
+
+const sign = (payload: string) => {
+  if (!SIGNING_SECRET) {
+    throw new Error('DOWNLOAD_SIGNING_SECRET is not configured');
+  }
+  return crypto.createHmac('sha256', SIGNING_SECRET).update(payload).digest('base64url');
+};
+
+const signatureMatches = (payload: string, signature: string) => {
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+// Password session: proof that the caller recently entered the right
+// password for a subject, which is `share:<token>` for a share link
+export const createAccessToken = (subject: string) => {
+  const expires = Date.now() + ACCESS_TOKEN_TTL_MS;
+  return `${expires}.${sign(`access:${subject}:${expires}`)}`;
+};
+
+export const isValidAccessToken = (subject: string, token?: string | null) => {
+  const [expires, signature] = (token || '').split('.');
+  if (!expires || !signature || Number(expires) < Date.now()) {
+    return false;
+  }
+  return signatureMatches(`access:${subject}:${expires}`, signature);
+};
+
+// Throw unless the caller may download the file right now
+export const assertCanDownload = (record: FileRecord, user: DecodedIdToken) => {
+  if (record.expiresAt && record.expiresAt.getTime() < Date.now()) {
+    throw new HttpError(410, 'This file has expired');
+  }
+  if (record.deletedAt) {
+    throw new HttpError(410, 'This file has been deleted');
+  }
+
+  // Only the owner and named collaborators get files by id. Everyone else
+  // goes through a share link and its own checks.
+  if (!can(record, { uid: user.uid, email: user.email || null }, 'view')) {
+    throw new HttpError(403, 'You do not have access to this file');
+  }
+};
+
+// Throw unless the malware scan lets these contents out. Quarantined files
+// reach nobody; until its scan finishes, only the uploader gets a file back,
+// and the same goes for files the scanner gave up on. Files uploaded before
+// scanning existed have no status and are let through.
+export const assertScanAllowsDownload = (record: FileRecord, user: DecodedIdToken | null) => {
+  if (record.scanStatus === 'quarantined') {
+    throw new HttpError(403, 'This file was quarantined because malware was found in it');
+  }
+  if (record.scanStatus === 'pending' && user?.uid !== (record.uploadedBy || record.userId)) {
+    throw new HttpError(409, 'This file is still being scanned for malware. Try again in a minute.');
+  }
+  if (record.scanStatus === 'failed' && user?.uid !== (record.uploadedBy || record.userId)) {
+    throw new HttpError(409, 'This file could not be scanned for malware, so only its uploader can download it');
+  }
+};
+
+const localObjectPayload = (key: string, expires: string, disposition: string) =>
+  `local:${key}:${expires}:${disposition}`;
+
+// The local storage route only serves objects with a valid signature
+export const verifyLocalObjectSignature = (key: string, params: URLSearchParams) => {
+  const expires = params.get('expires') || '';
+  const disposition = params.get('disposition') || '';
+  const signature = params.get('signature') || '';
+
+  if (!expires || !signature || Number(expires) < Date.now()) {
+    return false;
+  }
+  return signatureMatches(localObjectPayload(key, expires, disposition), signature);
+};
+
+export const contentDisposition = (disposition: Disposition, filename: string) =>
+  `${disposition}; filename*=UTF-8''${encodeURIComponent(filename)}`;
+
+// Issue a short-lived URL for the record's bytes from whichever backend holds them
+export const createSignedDownloadUrl = async (
+  record: FileRecord,
+  disposition: Disposition
+): Promise<{ url: string; expiresAt: Date }> => {
+  const expiresAt = new Date(Date.now() + DOWNLOAD_URL_TTL_MS);
+
+  switch (record.storageProvider) {
+    case 'cloudinary':
+      return {
+        url: createCloudinaryDownloadUrl(record.storageKey, {
+          resourceType: record.resourceType,
+          deliveryType: record.deliveryType,
+          format: record.resourceType === 'raw' ? undefined : record.format,
+          expiresAt,
+          attachment: disposition === 'attachment'
+        }),
+        expiresAt
+      };
+
+    case 'firebase': {
+      const [url] = await adminStorage.bucket().file(record.storageKey).getSignedUrl({
+        version: 'v4',
+        action: 'read',
+        expires: expiresAt,
+        responseDisposition: contentDisposition(disposition, record.name)
+      });
+      return { url, expiresAt };
+    }
+
+    case 'local': {
+      const expires = expiresAt.getTime().toString();
+      const query = new URLSearchParams({
+        expires,
+        disposition,
+        signature: sign(localObjectPayload(record.storageKey, expires, disposition))
+      });
+      const path = record.storageKey.split('/').map(encodeURIComponent).join('/');
+      return { url: `/api/storage/local/${path}?${query}`, expiresAt };
+    }
+  }
+};
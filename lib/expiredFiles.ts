@@ -0,0 +1,86 @@
+import { DocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { deleteFileRecordAdmin } from '@/lib/serverFiles';
+import { SYSTEM_ACTOR, writeAuditEntry } from '@/lib/auditLog';
+import { parseFileRecord } from '@/utils/schema';
+
+// Deletes every file whose expiresAt has passed, public or private. Run it
+// from the cron route or `npm run cleanup:expired`.
+const DEFAULT_BATCH_SIZE = 100;
+
+export interface CleanupOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+  maxFiles?: number; // Stop after this many so a run fits in a request timeout
+}
+
+export interface CleanupReport {
+  dryRun: boolean;
+  scanned: number;
+  deleted: { id: string; name: string; userId: string; size: number; expiresAt: string }[];
+  failed: { id: string; error: string }[];
+  complete: boolean; // false when maxFiles stopped the run early
+}
+
+export const cleanupExpiredFiles = async ({
+  dryRun = false,
+  batchSize = DEFAULT_BATCH_SIZE,
+  maxFiles = Infinity
+}: CleanupOptions = {}): Promise<CleanupReport> => {
+  const report: CleanupReport = { dryRun, scanned: 0, deleted: [], failed: [], complete: true };
+  const now = new Date();
+  let lastDoc: DocumentSnapshot | undefined;
+
+  while (true) {
+    if (report.scanned >= maxFiles) {
+      report.complete = false;
+      break;
+    }
+
+    let batchQuery = adminDb
+      .collection('files')
+      .where('expiresAt', '<', now)
+      .orderBy('expiresAt')
+      .limit(Math.min(batchSize, maxFiles - report.scanned));
+    if (lastDoc) {
+      batchQuery = batchQuery.startAfter(lastDoc);
+    }
+
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) break;
+
+    for (const fileDoc of snapshot.docs) {
+      report.scanned++;
+
+      try {
+        const record = parseFileRecord(fileDoc.id, fileDoc.data());
+        if (!dryRun) {
+          await deleteFileRecordAdmin(record);
+          await writeAuditEntry(SYSTEM_ACTOR, {
+            action: 'file.expire',
+            targetId: record.id!,
+            targetName: record.name,
+            ownerId: record.userId,
+            before: { size: record.size, expiresAt: record.expiresAt!.toISOString() },
+            after: null
+          });
+        }
+
+        report.deleted.push({
+          id: record.id!,
+          name: record.name,
+          userId: record.userId,
+          size: record.size,
+          expiresAt: record.expiresAt!.toISOString()
+        });
+      } catch (error) {
+        console.error(`Could not delete expired file ${fileDoc.id}:`, error);
+        report.failed.push({ id: fileDoc.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return report;
+};
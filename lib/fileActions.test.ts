@@ -0,0 +1,119 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/firebaseAdmin', async () => ({
+  adminDb: (await import('@/test/fakeFirestore')).createFakeFirestore()
+}));
+
+import { adminDb } from '@/lib/firebaseAdmin';
+import { renameFileAdmin, shareFileAdmin, trashFileAdmin, unshareFileAdmin } from '@/lib/fileActions';
+import { FakeFirestore } from '@/test/fakeFirestore';
+import { FileRole } from '@/types';
+import { FILE_SCHEMA_VERSION, toFileDocument } from '@/utils/schema';
+
+const db = adminDb as unknown as FakeFirestore;
+
+const owner = { uid: 'owner', email: 'owner@example.com' };
+const as = (role: FileRole) => ({ uid: `${role}-uid`, email: `${role}@example.com` });
+const stranger = { uid: 'stranger', email: 'stranger@example.com' };
+
+const seedFile = () => {
+  const collaborators = (['viewer', 'commenter', 'editor', 'co-owner'] as FileRole[])
+    .map(role => ({ email: `${role}@example.com`, role, addedAt: new Date() }));
+
+  db.seed('files', 'file-1', toFileDocument({
+    schemaVersion: FILE_SCHEMA_VERSION,
+    userId: owner.uid,
+    name: 'report.pdf',
+    size: 1024,
+    type: 'application/pdf',
+    storageProvider: 'local',
+    storageKey: 'owner/report.pdf',
+    downloadCount: 0,
+    parentFolderId: null,
+    collaborators,
+    sharedWith: collaborators.map(collaborator => collaborator.email),
+    uploadedAt: new Date(),
+    updatedAt: new Date()
+  }));
+  db.seed('users', owner.uid, { email: owner.email });
+};
+
+const storedFile = () => db.read('files', 'file-1')!;
+
+afterEach(() => db.reset());
+
+describe('file actions', () => {
+  it('lets editors and up rename, and nobody else', async () => {
+    seedFile();
+
+    for (const actor of [as('viewer'), as('commenter'), stranger]) {
+      await expect(renameFileAdmin(actor, 'file-1', 'other.pdf')).rejects.toMatchObject({ status: 403 });
+    }
+    expect(storedFile().name).toBe('report.pdf');
+
+    await renameFileAdmin(as('editor'), 'file-1', 'renamed.pdf');
+    expect(storedFile().name).toBe('renamed.pdf');
+  });
+
+  it('records who made each change in the audit log', async () => {
+    seedFile();
+    await renameFileAdmin(as('editor'), 'file-1', 'renamed.pdf');
+
+    expect(db.list('auditLog')).toEqual([expect.objectContaining({
+      action: 'file.rename',
+      actorId: 'editor-uid',
+      ownerId: owner.uid,
+      before: { name: 'report.pdf' },
+      after: { name: 'renamed.pdf' }
+    })]);
+  });
+
+  it('lets only owners and co-owners share, in any role', async () => {
+    seedFile();
+
+    await expect(shareFileAdmin(as('editor'), 'file-1', 'friend@example.com', 'viewer'))
+      .rejects.toMatchObject({ status: 403 });
+
+    await shareFileAdmin(as('co-owner'), 'file-1', 'Friend@Example.com', 'commenter');
+    expect(storedFile().collaborators).toContainEqual(expect.objectContaining({ email: 'friend@example.com', role: 'commenter' }));
+    expect(storedFile().sharedWith).toContain('friend@example.com');
+
+    await shareFileAdmin(owner, 'file-1', 'friend@example.com', 'editor');
+    expect(storedFile().collaborators.filter((c: any) => c.email === 'friend@example.com'))
+      .toEqual([expect.objectContaining({ role: 'editor' })]);
+  });
+
+  it('refuses unknown roles and sharing with the owner', async () => {
+    seedFile();
+
+    await expect(shareFileAdmin(owner, 'file-1', 'friend@example.com', 'admin')).rejects.toMatchObject({ status: 400 });
+    await expect(shareFileAdmin(owner, 'file-1', owner.email, 'viewer')).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('lets collaborators leave but not remove others', async () => {
+    seedFile();
+
+    await expect(unshareFileAdmin(as('viewer'), 'file-1', 'editor@example.com')).rejects.toMatchObject({ status: 403 });
+
+    await unshareFileAdmin(as('viewer'), 'file-1', 'viewer@example.com');
+    expect(storedFile().sharedWith).not.toContain('viewer@example.com');
+
+    await unshareFileAdmin(as('co-owner'), 'file-1', 'editor@example.com');
+    expect(storedFile().sharedWith).toEqual(['commenter@example.com', 'co-owner@example.com']);
+  });
+
+  it('lets only owners and co-owners move a file to the trash', async () => {
+    seedFile();
+
+    await expect(trashFileAdmin(as('editor'), 'file-1')).rejects.toMatchObject({ status: 403 });
+    expect(storedFile().deletedAt).toBeUndefined();
+
+    await trashFileAdmin(as('co-owner'), 'file-1');
+    expect(storedFile().deletedBy).toBe('co-owner-uid');
+    await expect(renameFileAdmin(owner, 'file-1', 'other.pdf')).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('answers 404 for files that do not exist', async () => {
+    await expect(renameFileAdmin(owner, 'missing', 'other.pdf')).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,465 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { DocumentSnapshot, FieldValue, Transaction } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { writeAuditEntry } from '@/lib/auditLog';
+import { deleteFileRecordAdmin, pruneFileVersionsAdmin } from '@/lib/serverFiles';
+import { releaseStoredFileAdmin } from '@/lib/serverStorage';
+import { acceptUpload, UploadReference } from '@/lib/uploads';
+import { scanScheduleFields } from '@/lib/malwareScan';
+import { AuditAction, Collaborator, FileRecord, FileRole, FileVersion } from '@/types';
+import { can, FILE_ROLES, FileAction, normalizeEmail, permissionDeniedMessage } from '@/utils/permissions';
+import {
+  availableUntil,
+  FILE_SCHEMA_VERSION,
+  MAX_FILE_VERSIONS,
+  parseFileRecord,
+  parseFileVersion,
+  parseUserProfile,
+  storedFileFields,
+  toFileDocument,
+  toFileVersion,
+  toVersionDocument,
+  validateFileRecord,
+  withoutUndefined
+} from '@/utils/schema';
+
+// Server side of the changes people make to their files. Each one checks the
+// caller's role, writes in a transaction and records itself in the audit log.
+type Actor = Pick<DecodedIdToken, 'uid' | 'email'>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface NewFileInput extends UploadReference {
+  name: string;
+  type: string;
+  parentFolderId?: string | null;
+  expiresIn?: number | null; // Hours from now
+}
+
+export interface NewVersionInput extends UploadReference {
+  name: string; // Of the uploaded file, for the audit log; the file keeps its own
+  type: string;
+}
+
+// Load a file the actor's role lets them act on. Trashed files can only be
+// restored or deleted for good.
+const checkFileAccess = (fileDoc: DocumentSnapshot, actor: Actor, action: FileAction): FileRecord => {
+  if (!fileDoc.exists) {
+    throw new HttpError(404, 'File not found');
+  }
+
+  const record = parseFileRecord(fileDoc.id, fileDoc.data()!);
+  if (!can(record, { uid: actor.uid, email: actor.email || null }, action)) {
+    throw new HttpError(403, permissionDeniedMessage(action));
+  }
+  if (record.deletedAt && action !== 'delete') {
+    throw new HttpError(409, 'This file is in the trash. Restore it first.');
+  }
+  return record;
+};
+
+// The merged record and just the fields to write for it, so an update
+// can't undo anything else written to the file in the meantime (scan
+// results, password flags). Fields changed to undefined are removed.
+const fileUpdate = (record: FileRecord, changes: Partial<FileRecord>) => {
+  const updated = validateFileRecord(withoutUndefined({ ...record, ...changes, updatedAt: new Date() }));
+  const fields: Record<string, any> = { updatedAt: updated.updatedAt, availableUntil: availableUntil(updated) };
+
+  for (const field of Object.keys(changes) as (keyof FileRecord)[]) {
+    fields[field] = updated[field] === undefined ? FieldValue.delete() : updated[field];
+  }
+  return { updated, fields };
+};
+
+const assertOwnFolder = async (folderId: string, uid: string) => {
+  const folderDoc = await adminDb.collection('folders').doc(folderId).get();
+  if (!folderDoc.exists || folderDoc.data()!.userId !== uid || folderDoc.data()!.deletedAt) {
+    throw new HttpError(404, 'Folder not found');
+  }
+};
+
+const expiryFrom = (expiresIn: unknown) => {
+  if (expiresIn === undefined || expiresIn === null) return undefined;
+  if (typeof expiresIn !== 'number' || !(expiresIn > 0)) {
+    throw new HttpError(400, 'expiresIn must be a positive number of hours');
+  }
+  return new Date(Date.now() + expiresIn * HOUR_MS);
+};
+
+// Record an upload as a new file in the caller's storage. The policy check,
+// the quota charge and the record all happen here, so a browser can't skip
+// any of them. Uploads that don't fit are deleted.
+export const createFileAdmin = async (actor: Actor, input: NewFileInput): Promise<FileRecord> => {
+  const parentFolderId = input.parentFolderId || null;
+  if (parentFolderId) {
+    await assertOwnFolder(parentFolderId, actor.uid);
+  }
+  const expiresAt = expiryFrom(input.expiresIn);
+
+  const { stored, size, isEncrypted } = await acceptUpload(actor.uid, input, input);
+  const fileRef = adminDb.collection('files').doc();
+  const userRef = adminDb.collection('users').doc(actor.uid);
+  const now = new Date();
+
+  const record: FileRecord = {
+    ...stored,
+    id: fileRef.id,
+    schemaVersion: FILE_SCHEMA_VERSION,
+    userId: actor.uid,
+    name: input.name.trim(),
+    size,
+    type: input.type,
+    scanStatus: 'pending',
+    ...scanScheduleFields('pending'),
+    downloadCount: 0,
+    parentFolderId,
+    isEncrypted,
+    collaborators: [],
+    sharedWith: [],
+    version: 1,
+    uploadedAt: now,
+    updatedAt: now,
+    expiresAt
+  };
+
+  try {
+    // Quota is charged per record, so users pay for the logical size of
+    // their files regardless of deduplication
+    await adminDb.runTransaction(async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      if (!userDoc.exists) {
+        throw new HttpError(404, 'User profile not found');
+      }
+
+      const profile = parseUserProfile(actor.uid, userDoc.data()!);
+      if (profile.usedStorage + size > profile.storageLimit) {
+        throw new HttpError(403, 'Storage quota exceeded');
+      }
+
+      transaction.create(fileRef, toFileDocument(record));
+      transaction.update(userRef, { usedStorage: profile.usedStorage + size, updatedAt: now });
+    });
+  } catch (error) {
+    await releaseStoredFileAdmin(stored);
+    throw error;
+  }
+
+  await writeAuditEntry(actor, {
+    action: 'file.upload',
+    targetId: fileRef.id,
+    targetName: record.name,
+    ownerId: actor.uid,
+    after: {
+      size,
+      parentFolderId,
+      isEncrypted,
+      expiresAt: expiresAt?.toISOString() || null
+    }
+  });
+  return record;
+};
+
+// Replace a file's contents with an upload. The file keeps its id, name and
+// share links, and the old contents become an earlier version. Editors and
+// up may do this; the owner's quota pays for every version kept.
+export const addFileVersionAdmin = async (actor: Actor, fileId: string, input: NewVersionInput): Promise<FileRecord> => {
+  const fileRef = adminDb.collection('files').doc(fileId);
+  const current = checkFileAccess(await fileRef.get(), actor, 'edit');
+
+  // The bytes belong in the owner's directory, whoever uploaded them
+  const { stored, size, isEncrypted } = await acceptUpload(current.userId, input, input);
+  let before: FileRecord;
+  let after: FileRecord;
+
+  try {
+    // Encrypted files keep their key, so links that carry it still work
+    if (isEncrypted !== !!current.isEncrypted) {
+      throw new HttpError(400, current.isEncrypted
+        ? 'This file is encrypted, so new versions must be encrypted with its key'
+        : 'This file is not encrypted, so new versions can\'t be either');
+    }
+
+    ({ before, after } = await adminDb.runTransaction(async (transaction) => {
+      const record = checkFileAccess(await transaction.get(fileRef), actor, 'edit');
+      const userRef = adminDb.collection('users').doc(record.userId);
+      const userDoc = await transaction.get(userRef);
+      if (!userDoc.exists) {
+        throw new HttpError(404, 'User profile not found');
+      }
+
+      const owner = parseUserProfile(record.userId, userDoc.data()!);
+      if (owner.usedStorage + size > owner.storageLimit) {
+        throw new HttpError(403, 'Storage quota exceeded');
+      }
+
+      const { updated, fields } = fileUpdate(record, {
+        ...storedFileFields({ ...stored, scanStatus: 'pending' }),
+        ...scanScheduleFields('pending'),
+        size,
+        type: input.type,
+        version: (record.version || 1) + 1,
+        uploadedBy: actor.uid,
+        uploaderEmail: actor.email || undefined,
+        uploadedAt: new Date()
+      });
+      transaction.create(adminDb.collection('fileVersions').doc(), toVersionDocument(toFileVersion(record)));
+      transaction.update(fileRef, fields);
+      transaction.update(userRef, { usedStorage: owner.usedStorage + size, updatedAt: new Date() });
+      return { before: record, after: updated };
+    }));
+  } catch (error) {
+    await releaseStoredFileAdmin(stored);
+    throw error;
+  }
+
+  await writeAuditEntry(actor, {
+    action: 'file.version',
+    targetId: fileId,
+    targetName: after.name,
+    ownerId: after.userId,
+    before: { version: before.version || 1, size: before.size },
+    after: { version: after.version, size: after.size, uploadedName: input.name }
+  });
+
+  // The new version is saved either way, so a failure here is only logged
+  try {
+    await pruneFileVersionsAdmin(after, MAX_FILE_VERSIONS - 1);
+  } catch (error) {
+    console.error('Error pruning file versions:', error);
+  }
+  return after;
+};
+
+// Change a file in a transaction once the actor's role allows it. `change`
+// returns the fields to update, or null when there is nothing to do.
+const updateFileAdmin = (
+  actor: Actor,
+  fileId: string,
+  action: FileAction,
+  change: (record: FileRecord, transaction: Transaction) => Promise<Partial<FileRecord> | null> | Partial<FileRecord> | null
+) => {
+  const fileRef = adminDb.collection('files').doc(fileId);
+
+  return adminDb.runTransaction(async (transaction) => {
+    const record = checkFileAccess(await transaction.get(fileRef), actor, action);
+    const changes = await change(record, transaction);
+    if (!changes) {
+      return { before: record, after: record, changed: false };
+    }
+
+    const { updated, fields } = fileUpdate(record, changes);
+    transaction.update(fileRef, fields);
+    return { before: record, after: updated, changed: true };
+  });
+};
+
+const auditFile = (
+  actor: Actor,
+  action: AuditAction,
+  record: FileRecord,
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+) => writeAuditEntry(actor, { action, targetId: record.id!, targetName: record.name, ownerId: record.userId, before, after });
+
+// Editors and up may rename a file
+export const renameFileAdmin = async (actor: Actor, fileId: string, name: unknown): Promise<FileRecord> => {
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new HttpError(400, 'name is required');
+  }
+
+  const { before, after } = await updateFileAdmin(actor, fileId, 'edit', () => ({ name: name.trim() }));
+  await auditFile(actor, 'file.rename', after, { name: before.name }, { name: after.name });
+  return after;
+};
+
+// Move a file into another of its owner's folders, or the root for null.
+// Editors and up may do this.
+export const moveFileAdmin = async (actor: Actor, fileId: string, folderId: unknown): Promise<FileRecord> => {
+  if (folderId !== null && (typeof folderId !== 'string' || !folderId)) {
+    throw new HttpError(400, 'parentFolderId must be a folder id or null');
+  }
+
+  const { before, after } = await updateFileAdmin(actor, fileId, 'edit', async (record, transaction) => {
+    if (folderId) {
+      const folderDoc = await transaction.get(adminDb.collection('folders').doc(folderId));
+      if (!folderDoc.exists || folderDoc.data()!.userId !== record.userId || folderDoc.data()!.deletedAt) {
+        throw new HttpError(404, 'Folder not found');
+      }
+    }
+    return { parentFolderId: folderId };
+  });
+  await auditFile(actor, 'file.move', after, { parentFolderId: before.parentFolderId }, { parentFolderId: after.parentFolderId });
+  return after;
+};
+
+// Set when a file expires, in hours from now, or null to keep it
+// indefinitely. Expiry deletes the file, so it needs delete permission.
+export const setFileExpiryAdmin = async (actor: Actor, fileId: string, expiresIn: unknown): Promise<FileRecord> => {
+  const expiresAt = expiryFrom(expiresIn);
+
+  const { before, after } = await updateFileAdmin(actor, fileId, 'delete', () => ({ expiresAt }));
+  await auditFile(
+    actor,
+    'file.expiry',
+    after,
+    { expiresAt: before.expiresAt?.toISOString() || null },
+    { expiresAt: after.expiresAt?.toISOString() || null }
+  );
+  return after;
+};
+
+// Move a file to its owner's trash. Owners and co-owners may do this. The
+// bytes keep counting toward the owner's quota until the file is purged.
+export const trashFileAdmin = async (actor: Actor, fileId: string): Promise<FileRecord> => {
+  const { before, after, changed } = await updateFileAdmin(actor, fileId, 'delete', (record) =>
+    record.deletedAt ? null : { deletedAt: new Date(), deletedBy: actor.uid }
+  );
+  if (changed) {
+    await auditFile(actor, 'file.delete', after, { parentFolderId: before.parentFolderId }, { deletedAt: after.deletedAt!.toISOString() });
+  }
+  return after;
+};
+
+// Take a file out of the trash. If its folder is gone or still in the
+// trash, it comes back in the root.
+export const restoreFileAdmin = async (actor: Actor, fileId: string): Promise<FileRecord> => {
+  const { before, after, changed } = await updateFileAdmin(actor, fileId, 'delete', async (record, transaction) => {
+    if (!record.deletedAt) return null;
+
+    let parentFolderId = record.parentFolderId;
+    if (parentFolderId) {
+      const folderDoc = await transaction.get(adminDb.collection('folders').doc(parentFolderId));
+      if (!folderDoc.exists || folderDoc.data()!.deletedAt) {
+        parentFolderId = null;
+      }
+    }
+    return { parentFolderId, deletedAt: undefined, deletedBy: undefined, trashedWithFolderId: undefined };
+  });
+  if (changed) {
+    await auditFile(actor, 'file.restore', after, { deletedAt: before.deletedAt!.toISOString() }, { parentFolderId: after.parentFolderId });
+  }
+  return after;
+};
+
+// Delete a file for good: the bytes of every version, its record, and its
+// share of the owner's quota
+export const purgeFileAdmin = async (actor: Actor, fileId: string) => {
+  const record = checkFileAccess(await adminDb.collection('files').doc(fileId).get(), actor, 'delete');
+
+  await deleteFileRecordAdmin(record);
+  await auditFile(actor, 'file.purge', record, { size: record.size, deletedAt: record.deletedAt?.toISOString() || null }, null);
+};
+
+// Share a file with someone by email, or change the role of someone it is
+// already shared with. Owners and co-owners may do this.
+export const shareFileAdmin = async (actor: Actor, fileId: string, email: unknown, role: unknown): Promise<FileRecord> => {
+  if (typeof email !== 'string' || !email.includes('@')) {
+    throw new HttpError(400, 'A valid email is required');
+  }
+  if (!FILE_ROLES.includes(role as FileRole)) {
+    throw new HttpError(400, 'Unknown role');
+  }
+  const recipient = normalizeEmail(email);
+
+  let existing: Collaborator | undefined;
+  const { after } = await updateFileAdmin(actor, fileId, 'share', async (record, transaction) => {
+    const ownerDoc = await transaction.get(adminDb.collection('users').doc(record.userId));
+    if (ownerDoc.exists && normalizeEmail(ownerDoc.data()!.email || '') === recipient) {
+      throw new HttpError(400, 'The owner already has full access to this file');
+    }
+
+    existing = record.collaborators.find(collaborator => collaborator.email === recipient);
+    const collaborators = existing
+      ? record.collaborators.map(collaborator =>
+          collaborator.email === recipient ? { ...collaborator, role: role as FileRole } : collaborator
+        )
+      : [...record.collaborators, { email: recipient, role: role as FileRole, addedAt: new Date() }];
+    return { collaborators, sharedWith: collaborators.map(collaborator => collaborator.email) };
+  });
+
+  await auditFile(
+    actor,
+    'file.share',
+    after,
+    existing ? { email: recipient, role: existing.role } : null,
+    { email: recipient, role }
+  );
+  return after;
+};
+
+// Stop sharing a file with someone. Owners and co-owners may remove anyone;
+// any collaborator may remove themselves.
+export const unshareFileAdmin = async (actor: Actor, fileId: string, email: unknown): Promise<FileRecord> => {
+  if (typeof email !== 'string' || !email) {
+    throw new HttpError(400, 'email is required');
+  }
+  const recipient = normalizeEmail(email);
+  const leaving = !!actor.email && normalizeEmail(actor.email) === recipient;
+
+  let removed: Collaborator | undefined;
+  const { after } = await updateFileAdmin(actor, fileId, leaving ? 'view' : 'share', (record) => {
+    removed = record.collaborators.find(collaborator => collaborator.email === recipient);
+    const collaborators = record.collaborators.filter(collaborator => collaborator.email !== recipient);
+    return { collaborators, sharedWith: collaborators.map(collaborator => collaborator.email) };
+  });
+
+  await auditFile(actor, 'file.unshare', after, removed ? { email: recipient, role: removed.role } : null, null);
+  return after;
+};
+
+// A file's earlier versions, newest first. Anyone who can view the file may
+// list them.
+export const listFileVersionsAdmin = async (actor: Actor, fileId: string): Promise<FileVersion[]> => {
+  checkFileAccess(await adminDb.collection('files').doc(fileId).get(), actor, 'view');
+
+  const snapshot = await adminDb.collection('fileVersions').where('fileId', '==', fileId).get();
+  return snapshot.docs
+    .map(versionDoc => parseFileVersion(versionDoc.id, versionDoc.data()))
+    .sort((a, b) => b.version - a.version);
+};
+
+// Make an earlier version current again. It becomes the newest version, and
+// what was current is kept as an earlier one, so nothing is lost and the
+// owner's storage use does not change. Editors and up may do this.
+export const restoreFileVersionAdmin = async (actor: Actor, fileId: string, versionId: string): Promise<FileRecord> => {
+  const versionRef = adminDb.collection('fileVersions').doc(versionId);
+  let restored: FileVersion | undefined;
+
+  const { before, after } = await updateFileAdmin(actor, fileId, 'edit', async (record, transaction) => {
+    const versionDoc = await transaction.get(versionRef);
+    restored = versionDoc.exists ? parseFileVersion(versionDoc.id, versionDoc.data()!) : undefined;
+    if (!restored || restored.fileId !== fileId) {
+      throw new HttpError(404, 'Version not found');
+    }
+
+    transaction.create(adminDb.collection('fileVersions').doc(), toVersionDocument(toFileVersion(record)));
+    transaction.delete(versionRef);
+    return {
+      ...storedFileFields(restored),
+      ...scanScheduleFields(restored.scanStatus),
+      size: restored.size,
+      type: restored.type,
+      version: (record.version || 1) + 1,
+      uploadedBy: actor.uid,
+      uploaderEmail: actor.email || undefined,
+      uploadedAt: new Date()
+    };
+  });
+
+  await auditFile(
+    actor,
+    'file.revert',
+    after,
+    { version: before.version || 1, size: before.size },
+    { version: after.version, size: after.size, restoredVersion: restored!.version }
+  );
+
+  // Keep the cap however many versions were on record before the restore
+  try {
+    await pruneFileVersionsAdmin(after, MAX_FILE_VERSIONS - 1);
+  } catch (error) {
+    console.error('Error pruning file versions:', error);
+  }
+  return after;
+};
@@ -0,0 +1,30 @@
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { getStorage } from 'firebase-admin/storage';
+
+// Server-only Firebase Admin SDK. Never import this from client components.
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+const storageBucket = process.env.NEXT_PUBLIC_FIREBASE_STORAGE_BUCKET;
+
+const adminApp = getApps().length === 0
+  ? initializeApp(
+      process.env.FIREBASE_CLIENT_EMAIL && process.env.FIREBASE_PRIVATE_KEY
+        ? {
+            credential: cert({
+              projectId,
+              clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+              // Private keys stored in env files usually have escaped newlines
+              privateKey: process.env.FIREBASE_PRIVATE_KEY.replace(/\\n/g, '\n'),
+            }),
+            storageBucket,
+          }
+        : { projectId, storageBucket } // Fall back to application default credentials
+    )
+  : getApps()[0];
+
+const adminAuth = getAuth(adminApp);
+const adminDb = getFirestore(adminApp);
+const adminStorage = getStorage(adminApp);
+
+export { adminApp, adminAuth, adminDb, adminStorage };
@@ -0,0 +1,196 @@
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { writeAuditEntry } from '@/lib/auditLog';
+import { deleteFileRecordAdmin } from '@/lib/serverFiles';
+import { FolderMetadata } from '@/types';
+import { availableUntil, parseFileRecord, parseFolder, toDate } from '@/utils/schema';
+
+// Server side of moving folders in and out of the trash. A folder's files
+// and subfolders go with it, so these write to many documents at once and
+// can't be left to the browser. Only a folder's owner may do any of this.
+type Actor = Pick<DecodedIdToken, 'uid' | 'email'>;
+
+const joinPath = (parentPath: string, name: string) =>
+  parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+
+const getOwnedFolder = async (folderId: string, actor: Actor): Promise<FolderMetadata> => {
+  const folderDoc = await adminDb.collection('folders').doc(folderId).get();
+  if (!folderDoc.exists) {
+    throw new HttpError(404, 'Folder not found');
+  }
+
+  const folder = parseFolder(folderDoc.id, folderDoc.data()!);
+  if (folder.userId !== actor.uid) {
+    throw new HttpError(403, 'You do not have permission to modify this folder');
+  }
+  return folder;
+};
+
+// Every folder a user owns, including trashed ones
+const getAllFolders = async (userId: string) => {
+  const snapshot = await adminDb.collection('folders').where('userId', '==', userId).get();
+  return snapshot.docs.map(folderDoc => parseFolder(folderDoc.id, folderDoc.data()));
+};
+
+// The ids of a folder's subfolders at any depth
+const getDescendantIds = (allFolders: FolderMetadata[], folderId: string) => {
+  const descendants: string[] = [];
+  const queue = [folderId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    allFolders
+      .filter(folder => folder.parentFolderId === parentId)
+      .forEach(folder => {
+        descendants.push(folder.id!);
+        queue.push(folder.id!);
+      });
+  }
+
+  return descendants;
+};
+
+// Move a folder and everything inside it to the trash. Files and subfolders
+// that were already in the trash keep their own entries.
+export const trashFolderAdmin = async (actor: Actor, folderId: string) => {
+  const folder = await getOwnedFolder(folderId, actor);
+  if (folder.deletedAt) return;
+
+  const allFolders = await getAllFolders(actor.uid);
+  const descendantIds = getDescendantIds(allFolders, folderId);
+  const inside = new Set([folderId, ...descendantIds]);
+  const deletedAt = new Date();
+  const batch = adminDb.batch();
+
+  batch.update(adminDb.collection('folders').doc(folderId), { deletedAt, updatedAt: deletedAt });
+  allFolders
+    .filter(candidate => descendantIds.includes(candidate.id!) && !candidate.deletedAt)
+    .forEach(candidate => batch.update(adminDb.collection('folders').doc(candidate.id!), {
+      deletedAt,
+      trashedWithFolderId: folderId,
+      updatedAt: deletedAt
+    }));
+
+  const files = await adminDb.collection('files').where('userId', '==', actor.uid).get();
+  for (const fileDoc of files.docs) {
+    const data = fileDoc.data();
+    if (data.parentFolderId && inside.has(data.parentFolderId) && !data.deletedAt) {
+      batch.update(fileDoc.ref, {
+        deletedAt,
+        deletedBy: actor.uid,
+        trashedWithFolderId: folderId,
+        availableUntil: deletedAt,
+        updatedAt: deletedAt
+      });
+    }
+  }
+
+  await batch.commit();
+  await writeAuditEntry(actor, {
+    action: 'folder.delete',
+    targetId: folderId,
+    targetName: folder.name,
+    ownerId: folder.userId,
+    before: { path: folder.path },
+    after: { deletedAt: deletedAt.toISOString() }
+  });
+};
+
+// Take a folder and everything trashed with it out of the trash. If its
+// parent is gone or still in the trash, it comes back in the root.
+export const restoreFolderAdmin = async (actor: Actor, folderId: string) => {
+  const folder = await getOwnedFolder(folderId, actor);
+  if (!folder.deletedAt) return;
+
+  const allFolders = await getAllFolders(actor.uid);
+  const parent = allFolders.find(candidate => candidate.id === folder.parentFolderId);
+  const parentFolderId = parent && !parent.deletedAt ? parent.id! : null;
+
+  if (allFolders.some(candidate =>
+    candidate.id !== folderId && !candidate.deletedAt
+    && candidate.parentFolderId === parentFolderId && candidate.name === folder.name
+  )) {
+    throw new HttpError(409, `A folder named "${folder.name}" already exists here`);
+  }
+
+  const batch = adminDb.batch();
+  const now = new Date();
+  const restored = { deletedAt: FieldValue.delete(), trashedWithFolderId: FieldValue.delete(), updatedAt: now };
+
+  // Coming back in the root moves the folder, so every path below it changes
+  const visit = (current: FolderMetadata, path: string) => {
+    const restoring = current.id === folderId || current.trashedWithFolderId === folderId;
+    batch.update(adminDb.collection('folders').doc(current.id!), {
+      ...(restoring ? restored : { updatedAt: now }),
+      ...(current.id === folderId ? { parentFolderId } : {}),
+      path
+    });
+    allFolders
+      .filter(child => child.parentFolderId === current.id)
+      .forEach(child => visit(child, joinPath(path, child.name)));
+  };
+  visit(folder, parentFolderId ? joinPath(parent!.path, folder.name) : joinPath('/', folder.name));
+
+  const files = await adminDb.collection('files').where('trashedWithFolderId', '==', folderId).get();
+  for (const fileDoc of files.docs) {
+    if (fileDoc.data().userId !== actor.uid) continue;
+    batch.update(fileDoc.ref, {
+      ...restored,
+      deletedBy: FieldValue.delete(),
+      availableUntil: availableUntil({ expiresAt: toDate(fileDoc.data().expiresAt) })
+    });
+  }
+
+  await batch.commit();
+  await writeAuditEntry(actor, {
+    action: 'folder.restore',
+    targetId: folderId,
+    targetName: folder.name,
+    ownerId: folder.userId,
+    before: { deletedAt: folder.deletedAt.toISOString() },
+    after: { parentFolderId }
+  });
+};
+
+// Delete a trashed folder for good, with every file and subfolder trashed along with it
+export const purgeFolderAdmin = async (actor: Actor, folderId: string) => {
+  const folder = await getOwnedFolder(folderId, actor);
+  if (!folder.deletedAt) {
+    throw new HttpError(409, 'Move the folder to the trash first');
+  }
+
+  const files = await adminDb.collection('files').where('trashedWithFolderId', '==', folderId).get();
+  for (const fileDoc of files.docs) {
+    const record = parseFileRecord(fileDoc.id, fileDoc.data());
+    if (record.userId !== actor.uid) continue;
+
+    await deleteFileRecordAdmin(record);
+    await writeAuditEntry(actor, {
+      action: 'file.purge',
+      targetId: record.id!,
+      targetName: record.name,
+      ownerId: record.userId,
+      before: { size: record.size, deletedAt: record.deletedAt?.toISOString() || null },
+      after: null
+    });
+  }
+
+  const folders = await adminDb.collection('folders').where('trashedWithFolderId', '==', folderId).get();
+  const batch = adminDb.batch();
+  folders.docs
+    .filter(folderDoc => folderDoc.data().userId === actor.uid)
+    .forEach(folderDoc => batch.delete(folderDoc.ref));
+  batch.delete(adminDb.collection('folders').doc(folderId));
+  await batch.commit();
+
+  await writeAuditEntry(actor, {
+    action: 'folder.purge',
+    targetId: folderId,
+    targetName: folder.name,
+    ownerId: folder.userId,
+    before: { path: folder.path },
+    after: null
+  });
+};
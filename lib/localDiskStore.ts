@@ -0,0 +1,88 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+
+// Server-only file store backing the "local" storage provider
+export const LOCAL_STORAGE_ROOT = path.resolve(process.env.LOCAL_STORAGE_DIR || '.local-storage');
+
+export const isLocalStorageEnabled = () => process.env.NEXT_PUBLIC_STORAGE_PROVIDER === 'local';
+
+// Map a storage key to a path on disk, refusing anything that escapes the root
+export const resolveLocalKey = (key: string): string => {
+  const fullPath = path.resolve(LOCAL_STORAGE_ROOT, key);
+  if (!fullPath.startsWith(LOCAL_STORAGE_ROOT + path.sep)) {
+    throw new Error('Invalid storage key');
+  }
+  return fullPath;
+};
+
+export const writeLocalObject = async (key: string, data: Buffer, contentType: string) => {
+  const fullPath = resolveLocalKey(key);
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.writeFile(fullPath, data);
+  // Keep the content type next to the bytes since the filesystem has nowhere to put it
+  await fs.writeFile(`${fullPath}.meta.json`, JSON.stringify({ contentType }));
+};
+
+export const statLocalObject = async (key: string) => {
+  const fullPath = resolveLocalKey(key);
+  try {
+    const stats = await fs.stat(fullPath);
+    const meta = JSON.parse(await fs.readFile(`${fullPath}.meta.json`, 'utf8').catch(() => '{}'));
+    return {
+      size: stats.size,
+      contentType: (meta.contentType as string) || 'application/octet-stream',
+      updatedAt: stats.mtime
+    };
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+};
+
+export const readLocalObject = (key: string) => fs.readFile(resolveLocalKey(key));
+
+export const openLocalObject = (key: string) => createReadStream(resolveLocalKey(key));
+
+// Read only the first `length` bytes, e.g. to sniff the type
+export const readLocalObjectHead = async (key: string, length: number) => {
+  const handle = await fs.open(resolveLocalKey(key), 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+// Every object whose key starts with `<directory>/`, without the files
+// holding their content types
+export const listLocalObjects = async (directory: string) => {
+  const root = resolveLocalKey(directory);
+  const entries = await fs.readdir(root, { recursive: true, withFileTypes: true }).catch((error) => {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  });
+
+  const objects: { key: string; size: number; updatedAt: Date }[] = [];
+  for (const entry of entries) {
+    if (!entry.isFile() || entry.name.endsWith('.meta.json')) continue;
+
+    const fullPath = path.join(entry.parentPath, entry.name);
+    const stats = await fs.stat(fullPath);
+    objects.push({
+      key: path.relative(LOCAL_STORAGE_ROOT, fullPath).split(path.sep).join('/'),
+      size: stats.size,
+      updatedAt: stats.mtime
+    });
+  }
+  return objects;
+};
+
+export const deleteLocalObject = async (key: string) => {
+  const fullPath = resolveLocalKey(key);
+  await fs.rm(fullPath, { force: true });
+  await fs.rm(`${fullPath}.meta.json`, { force: true });
+};
@@ -0,0 +1,187 @@
+import { DocumentSnapshot, FieldValue } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { openStoredObjectAdmin } from '@/lib/serverStorage';
+import { SYSTEM_ACTOR, writeAuditEntry } from '@/lib/auditLog';
+import { getScanner, ScanResult } from '@/lib/scanners';
+import { FileRecord, ScanStatus } from '@/types';
+import { parseFileRecord } from '@/utils/schema';
+
+// Uploads start out `pending`. The uploading browser asks for a scan as soon
+// as the record exists; this job picks up any it never asked for, or whose
+// scan failed. Run it from the cron route or `npm run scan:pending`.
+const DEFAULT_BATCH_SIZE = 20;
+
+// Leave recent uploads to the scan their browser started
+const PENDING_GRACE_MS = 10 * 60 * 1000;
+
+// A scan that errors is retried after 15 minutes, then 30, 1 hour and 2
+// hours. After the fifth error the file is marked `failed` and left alone
+// until someone retries it from the scan route.
+const MAX_SCAN_ATTEMPTS = 5;
+const RETRY_BASE_MS = 15 * 60 * 1000;
+
+export interface ScanOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+  maxFiles?: number; // Stop after this many so a run fits in a request timeout
+}
+
+export interface ScanReport {
+  dryRun: boolean;
+  scanned: number;
+  clean: number;
+  quarantined: { id: string; name: string; userId: string; signature: string }[];
+  failed: { id: string; error: string }[];
+  complete: boolean; // false when maxFiles stopped the run early
+}
+
+const runScanner = async (record: FileRecord): Promise<ScanResult> => {
+  const scanner = getScanner();
+  // Without a scanner every upload is passed, as before scanning existed
+  if (!scanner) {
+    return { infected: false };
+  }
+  // Encrypted files are scanned as stored, which can't see inside them
+  return scanner.scan(await openStoredObjectAdmin(record));
+};
+
+// The scan fields for new contents: pending, with no errors yet, and due
+// for the scan-files job once their browser has had time to ask itself.
+// Contents that already have a verdict have nothing scheduled.
+export const scanScheduleFields = (scanStatus?: ScanStatus): Partial<FileRecord> => ({
+  scanAttempts: undefined,
+  scanError: undefined,
+  nextScanAt: scanStatus === 'pending' ? new Date(Date.now() + PENDING_GRACE_MS) : undefined
+});
+
+// Count a scan that errored against the file, and schedule the next try or
+// give up on it. Nothing is recorded if the contents were replaced meanwhile.
+const recordScanError = (record: FileRecord, error: unknown) => {
+  const fileRef = adminDb.collection('files').doc(record.id!);
+  return adminDb.runTransaction(async (transaction) => {
+    const current = await transaction.get(fileRef);
+    if (!current.exists || current.data()!.storageKey !== record.storageKey) {
+      return;
+    }
+
+    const scanAttempts = (Number(current.data()!.scanAttempts) || 0) + 1;
+    const gaveUp = scanAttempts >= MAX_SCAN_ATTEMPTS;
+    transaction.update(fileRef, {
+      scanAttempts,
+      scanError: error instanceof Error ? error.message : String(error),
+      ...(gaveUp
+        ? { scanStatus: 'failed', nextScanAt: FieldValue.delete() }
+        : { nextScanAt: new Date(Date.now() + RETRY_BASE_MS * 2 ** (scanAttempts - 1)) })
+    });
+  });
+};
+
+// Scan a file's current contents and record the verdict. Returns null when
+// the contents were replaced during the scan; the new ones have their own.
+// If the scanner errors, the error is recorded for a later retry and rethrown.
+export const scanFileAdmin = async (
+  record: FileRecord
+): Promise<{ scanStatus: ScanStatus; signature?: string } | null> => {
+  let result: ScanResult;
+  try {
+    result = await runScanner(record);
+  } catch (error) {
+    await recordScanError(record, error);
+    throw error;
+  }
+  const scanStatus: ScanStatus = result.infected ? 'quarantined' : 'clean';
+
+  const fileRef = adminDb.collection('files').doc(record.id!);
+  const applied = await adminDb.runTransaction(async (transaction) => {
+    const current = await transaction.get(fileRef);
+    if (!current.exists || current.data()!.storageKey !== record.storageKey) {
+      return false;
+    }
+
+    transaction.update(fileRef, {
+      scanStatus,
+      scanSignature: result.signature || FieldValue.delete(),
+      scannedAt: new Date(),
+      scanAttempts: FieldValue.delete(),
+      scanError: FieldValue.delete(),
+      nextScanAt: FieldValue.delete()
+    });
+    return true;
+  });
+  if (!applied) {
+    return null;
+  }
+
+  if (result.infected) {
+    await writeAuditEntry(SYSTEM_ACTOR, {
+      action: 'file.quarantine',
+      targetId: record.id!,
+      targetName: record.name,
+      ownerId: record.userId,
+      before: { scanStatus: record.scanStatus || null },
+      after: { scanStatus, signature: result.signature || null }
+    });
+  }
+
+  return { scanStatus, signature: result.signature };
+};
+
+// Scan the pending files that are due, oldest due first. Ones that error are
+// pushed back by recordScanError, so they don't hold up the files behind them.
+export const scanPendingFiles = async ({
+  dryRun = false,
+  batchSize = DEFAULT_BATCH_SIZE,
+  maxFiles = Infinity
+}: ScanOptions = {}): Promise<ScanReport> => {
+  const report: ScanReport = { dryRun, scanned: 0, clean: 0, quarantined: [], failed: [], complete: true };
+  const now = new Date();
+  let lastDoc: DocumentSnapshot | undefined;
+
+  while (true) {
+    if (report.scanned >= maxFiles) {
+      report.complete = false;
+      break;
+    }
+
+    let batchQuery = adminDb
+      .collection('files')
+      .where('scanStatus', '==', 'pending')
+      .where('nextScanAt', '<=', now)
+      .orderBy('nextScanAt')
+      .limit(Math.min(batchSize, maxFiles - report.scanned));
+    if (lastDoc) {
+      batchQuery = batchQuery.startAfter(lastDoc);
+    }
+
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) break;
+
+    for (const fileDoc of snapshot.docs) {
+      report.scanned++;
+
+      try {
+        const record = parseFileRecord(fileDoc.id, fileDoc.data());
+        if (dryRun) continue;
+
+        const verdict = await scanFileAdmin(record);
+        if (verdict?.scanStatus === 'clean') {
+          report.clean++;
+        } else if (verdict?.scanStatus === 'quarantined') {
+          report.quarantined.push({
+            id: record.id!,
+            name: record.name,
+            userId: record.userId,
+            signature: verdict.signature || ''
+          });
+        }
+      } catch (error) {
+        console.error(`Could not scan file ${fileDoc.id}:`, error);
+        report.failed.push({ id: fileDoc.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return report;
+};
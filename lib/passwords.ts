@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { promisify } from 'util';
+
+// Server-only password hashing for protected files. Hashes are stored as
+// "scrypt$N$r$p$salt$hash" so the cost can be raised later without breaking
+// existing hashes.
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const SCRYPT_N = 2 ** 15;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+// N=2^15, r=8 needs 32MB, just above Node's default limit
+const MAX_MEMORY = 64 * 1024 * 1024;
+
+const LEGACY_SHA256 = /^[0-9a-f]{64}$/;
+
+export const hashFilePassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH, {
+    N: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+    maxmem: MAX_MEMORY
+  });
+
+  return ['scrypt', SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+};
+
+// Check a password against a stored hash. needsRehash is set for valid
+// passwords stored with the old unsalted SHA-256 or outdated parameters.
+export const verifyPasswordHash = async (
+  password: string,
+  stored: string
+): Promise<{ valid: boolean; needsRehash: boolean }> => {
+  if (LEGACY_SHA256.test(stored)) {
+    const candidate = crypto.createHash('sha256').update(password).digest();
+    const valid = crypto.timingSafeEqual(candidate, Buffer.from(stored, 'hex'));
+    return { valid, needsRehash: valid };
+  }
+
+  const [scheme, n, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const candidate = await scrypt(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: MAX_MEMORY
+  });
+
+  const valid = crypto.timingSafeEqual(candidate, expected);
+  const outdated = Number(n) !== SCRYPT_N || Number(r) !== SCRYPT_R || Number(p) !== SCRYPT_P;
+  return { valid, needsRehash: valid && outdated };
+};
@@ -0,0 +1,82 @@
+import net from 'net';
+import { once } from 'events';
+import { Readable } from 'stream';
+import { MalwareScanner, ScanResult } from './types';
+
+// Streams bytes to clamd with its INSTREAM command, over a unix socket
+// (CLAMAV_SOCKET) or TCP (CLAMAV_HOST and CLAMAV_PORT). Each chunk is sent
+// as a 4-byte big-endian length followed by the data, and a zero length ends
+// the stream. clamd answers "stream: OK" or "stream: <signature> FOUND".
+// clamd refuses streams over its StreamMaxLength, as low as 25M by default,
+// so raise it in clamd.conf to at least NEXT_PUBLIC_MAX_UPLOAD_MB or larger
+// uploads end up `failed`. Raise MaxFileSize and MaxScanSize as well, or
+// clamd answers OK for larger files without looking at all of them.
+const CHUNK_SIZE = 64 * 1024;
+const TIMEOUT_MS = 60 * 1000;
+
+const connect = () =>
+  process.env.CLAMAV_SOCKET
+    ? net.createConnection(process.env.CLAMAV_SOCKET)
+    : net.createConnection(Number(process.env.CLAMAV_PORT) || 3310, process.env.CLAMAV_HOST || '127.0.0.1');
+
+const parseReply = (reply: string): ScanResult => {
+  const text = reply.replace(/\0/g, '').trim();
+  if (text.endsWith(': OK')) {
+    return { infected: false };
+  }
+
+  const found = text.match(/: (.+) FOUND$/);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+
+  // e.g. "INSTREAM size limit exceeded. ERROR" when the file is bigger than StreamMaxLength
+  throw new Error(`ClamAV could not scan the file: ${text || 'no reply'}`);
+};
+
+const sendStream = async (socket: net.Socket, stream: Readable) => {
+  await once(socket, 'connect');
+  socket.write('zINSTREAM\0');
+
+  for await (const data of stream) {
+    const bytes: Buffer = Buffer.isBuffer(data) ? data : Buffer.from(data);
+    for (let offset = 0; offset < bytes.length; offset += CHUNK_SIZE) {
+      const chunk = bytes.subarray(offset, offset + CHUNK_SIZE);
+      const header = Buffer.alloc(4);
+      header.writeUInt32BE(chunk.length);
+      if (!socket.write(Buffer.concat([header, chunk]))) {
+        await once(socket, 'drain');
+      }
+    }
+  }
+
+  socket.end(Buffer.alloc(4));
+};
+
+const scan = (stream: Readable): Promise<ScanResult> =>
+  new Promise((resolve, reject) => {
+    const socket = connect();
+    const replies: Buffer[] = [];
+
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('ClamAV did not answer in time')));
+    socket.on('data', (data) => replies.push(data));
+    socket.on('error', (error) => {
+      stream.destroy();
+      reject(error);
+    });
+    socket.on('close', (hadError) => {
+      if (hadError) return;
+      try {
+        resolve(parseReply(Buffer.concat(replies).toString('utf8')));
+      } catch (error) {
+        reject(error);
+      }
+    });
+
+    sendStream(socket, stream).catch((error) => socket.destroy(error));
+  });
+
+export const clamavScanner: MalwareScanner = {
+  name: 'clamav',
+  scan
+};
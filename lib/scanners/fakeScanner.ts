@@ -0,0 +1,26 @@
+import { Readable } from 'stream';
+import { MalwareScanner, ScanResult } from './types';
+
+// Stands in for a real scanner in development and tests. It flags files
+// containing the EICAR test string, which every antivirus product treats as
+// a virus, and passes everything else.
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+const scan = async (stream: Readable): Promise<ScanResult> => {
+  // Keep the end of the previous chunk so a match across chunks is found
+  let carry = '';
+  for await (const data of stream) {
+    const text = carry + Buffer.from(data).toString('latin1');
+    if (text.includes(EICAR)) {
+      stream.destroy();
+      return { infected: true, signature: 'Eicar-Test-Signature' };
+    }
+    carry = text.slice(-(EICAR.length - 1));
+  }
+  return { infected: false };
+};
+
+export const fakeScanner: MalwareScanner = {
+  name: 'fake',
+  scan
+};
@@ -0,0 +1,25 @@
+import { clamavScanner } from './clamavScanner';
+import { fakeScanner } from './fakeScanner';
+import { MalwareScanner, ScannerName } from './types';
+
+export * from './types';
+
+const scanners: Record<ScannerName, MalwareScanner> = {
+  clamav: clamavScanner,
+  fake: fakeScanner
+};
+
+// The scanner uploads go through, picked with MALWARE_SCANNER. Null when it
+// is unset or "none", in which case uploads are not scanned.
+export const getScanner = (): MalwareScanner | null => {
+  const name = process.env.MALWARE_SCANNER || 'none';
+  if (name === 'none') {
+    return null;
+  }
+
+  const scanner = scanners[name as ScannerName];
+  if (!scanner) {
+    throw new Error(`Unknown malware scanner: ${name}`);
+  }
+  return scanner;
+};
@@ -0,0 +1,15 @@
+import { Readable } from 'stream';
+
+export type ScannerName = 'clamav' | 'fake';
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // Name of what was found, when infected
+}
+
+// Scanners read a stored object's bytes as a stream, so large files never
+// have to fit in memory. They throw when they could not reach a verdict.
+export interface MalwareScanner {
+  readonly name: ScannerName;
+  scan(stream: Readable): Promise<ScanResult>;
+}
@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminAuth } from '@/lib/firebaseAdmin';
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// Verify the Firebase ID token sent as "Authorization: Bearer <token>".
+// Tokens of disabled accounts and revoked sessions are rejected too, so an
+// admin disabling an account takes effect immediately.
+export const verifyRequestUser = async (request: Request): Promise<DecodedIdToken> => {
+  const header = request.headers.get('authorization') || '';
+  const match = header.match(/^Bearer (.+)$/i);
+
+  if (!match) {
+    throw new HttpError(401, 'Missing authorization token');
+  }
+
+  try {
+    return await adminAuth.verifyIdToken(match[1], true);
+  } catch (error) {
+    console.error('ID token verification failed:', error);
+    throw new HttpError(401, 'Invalid authorization token');
+  }
+};
+
+// Admins carry the `admin` custom claim, which only the Admin SDK can set
+export const assertAdmin = (user: DecodedIdToken) => {
+  if (user.admin !== true) {
+    throw new HttpError(403, 'Admin access required');
+  }
+};
+
+// Scheduled jobs authenticate with "Authorization: Bearer <CRON_SECRET>"
+export const assertCronRequest = (request: Request) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    throw new HttpError(503, 'CRON_SECRET is not configured');
+  }
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw new HttpError(401, 'Invalid cron secret');
+  }
+};
+
+// Turn any thrown error into a JSON response, hiding details of unexpected ones
+export const errorResponse = (error: unknown) => {
+  if (error instanceof HttpError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error('Unhandled API error:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+};
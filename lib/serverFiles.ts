@@ -0,0 +1,65 @@
+import { adminDb } from '@/lib/firebaseAdmin';
+import { releaseStoredFileAdmin } from '@/lib/serverStorage';
+import { HttpError } from '@/lib/serverAuth';
+import { FileRecord, FileVersion } from '@/types';
+import { parseFileRecord, parseFileVersion } from '@/utils/schema';
+
+// Read and validate a file record with the Admin SDK
+export const getFileRecordAdmin = async (fileId: string): Promise<FileRecord> => {
+  const fileDoc = await adminDb.collection('files').doc(fileId).get();
+  if (!fileDoc.exists) {
+    throw new HttpError(404, 'File not found');
+  }
+  return parseFileRecord(fileDoc.id, fileDoc.data()!);
+};
+
+// Delete all but the newest `keep` earlier versions of a file, releasing
+// their bytes and giving their space back to the owner
+export const pruneFileVersionsAdmin = async (record: FileRecord, keep: number): Promise<FileVersion[]> => {
+  const snapshot = await adminDb.collection('fileVersions').where('fileId', '==', record.id!).get();
+  const pruned = snapshot.docs
+    .map(versionDoc => parseFileVersion(versionDoc.id, versionDoc.data()))
+    .sort((a, b) => b.version - a.version)
+    .slice(keep);
+
+  for (const version of pruned) {
+    await releaseStoredFileAdmin(version);
+    await adminDb.collection('fileVersions').doc(version.id!).delete();
+  }
+
+  const freed = pruned.reduce((total, version) => total + version.size, 0);
+  if (freed > 0) {
+    const userRef = adminDb.collection('users').doc(record.userId);
+    await adminDb.runTransaction(async (transaction) => {
+      const userDoc = await transaction.get(userRef);
+      if (userDoc.exists) {
+        transaction.update(userRef, {
+          usedStorage: Math.max(0, (userDoc.data()!.usedStorage || 0) - freed),
+          updatedAt: new Date()
+        });
+      }
+    });
+  }
+
+  return pruned;
+};
+
+// Delete a file for good: release the bytes of every version, drop the
+// record, and give the space back to the owner.
+export const deleteFileRecordAdmin = async (record: FileRecord) => {
+  await pruneFileVersionsAdmin(record, 0);
+  await releaseStoredFileAdmin(record);
+
+  const userRef = adminDb.collection('users').doc(record.userId);
+  await adminDb.runTransaction(async (transaction) => {
+    const userDoc = await transaction.get(userRef);
+
+    transaction.delete(adminDb.collection('files').doc(record.id!));
+    if (userDoc.exists) {
+      transaction.update(userRef, {
+        usedStorage: Math.max(0, (userDoc.data()!.usedStorage || 0) - record.size),
+        updatedAt: new Date()
+      });
+    }
+  });
+};
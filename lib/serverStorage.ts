@@ -0,0 +1,211 @@
+import { adminDb, adminStorage } from '@/lib/firebaseAdmin';
+import crypto from 'crypto';
+import {
+  CLOUDINARY_DELIVERY_TYPE,
+  createCloudinaryDownloadUrl,
+  destroyCloudinaryAsset,
+  getCloudinaryResource,
+  listCloudinaryAssets
+} from '@/lib/cloudinary';
+import { Readable } from 'stream';
+import { ReadableStream } from 'stream/web';
+import {
+  deleteLocalObject,
+  listLocalObjects,
+  openLocalObject,
+  readLocalObjectHead,
+  statLocalObject
+} from '@/lib/localDiskStore';
+import { StorageProviderName } from '@/services/storage/types';
+import { StoredFileFields } from '@/types';
+
+// Server-side access to stored bytes. Only the server deletes them, through
+// releaseStoredFileAdmin, once no record or version points at them.
+
+// Where each provider puts a user's uploads
+export const isOwnStorageKey = (provider: StorageProviderName, key: string, uid: string) => {
+  switch (provider) {
+    case 'cloudinary':
+      return key.startsWith(`ofss/${uid}/`);
+    case 'firebase':
+      return key.startsWith(`users/${uid}/`);
+    case 'local':
+      return key.startsWith(`${uid}/`);
+    default:
+      return false;
+  }
+};
+
+// Blobs are keyed by where their bytes are stored. Storage keys can hold
+// slashes, which document ids can't, so the key is hashed.
+export const blobDocumentId = (provider: StorageProviderName, storageKey: string) =>
+  crypto.createHash('sha256').update(`${provider}:${storageKey}`).digest('hex');
+
+export interface ListedObject {
+  stored: StoredFileFields;
+  size: number;
+  createdAt: Date;
+}
+
+// Every object in a user's directory with a provider, whether or not
+// anything points at it
+export const listStoredObjectsAdmin = async (provider: StorageProviderName, uid: string): Promise<ListedObject[]> => {
+  switch (provider) {
+    case 'cloudinary': {
+      // Browsers only ever upload the delivery type the signing route fixes
+      const lists = await Promise.all(['image', 'video', 'raw'].map(async resourceType =>
+        (await listCloudinaryAssets(`ofss/${uid}/`, resourceType)).map(asset => ({
+          stored: {
+            storageProvider: provider,
+            storageKey: asset.publicId,
+            resourceType,
+            deliveryType: CLOUDINARY_DELIVERY_TYPE,
+            format: asset.format
+          },
+          size: asset.size,
+          createdAt: asset.createdAt
+        }))
+      ));
+      return lists.flat();
+    }
+
+    case 'firebase': {
+      const [files] = await adminStorage.bucket().getFiles({ prefix: `users/${uid}/` });
+      return files.map(file => ({
+        stored: { storageProvider: provider, storageKey: file.name },
+        size: Number(file.metadata.size) || 0,
+        createdAt: new Date(file.metadata.timeCreated || 0)
+      }));
+    }
+
+    case 'local':
+      return (await listLocalObjects(uid)).map(object => ({
+        stored: { storageProvider: provider, storageKey: object.key },
+        size: object.size,
+        createdAt: object.updatedAt
+      }));
+  }
+};
+
+const cloudinaryReadUrl = (record: StoredFileFields) =>
+  createCloudinaryDownloadUrl(record.storageKey, {
+    resourceType: record.resourceType,
+    deliveryType: record.deliveryType,
+    format: record.resourceType === 'raw' ? undefined : record.format,
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    attachment: false
+  });
+
+// Read the first bytes of the response body and drop the rest
+const readResponseHead = async (response: Response, length: number) => {
+  const reader = response.body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (received < length) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+  }
+  await reader.cancel();
+
+  return Buffer.concat(chunks).subarray(0, length);
+};
+
+// An object's real size and first bytes, straight from the backend.
+// Returns null when the object does not exist.
+export const inspectStoredObjectAdmin = async (
+  record: StoredFileFields,
+  headLength: number
+): Promise<{ size: number; head: Uint8Array } | null> => {
+  switch (record.storageProvider) {
+    case 'cloudinary': {
+      const resource = await getCloudinaryResource(record.storageKey, record.resourceType, record.deliveryType);
+      if (!resource) return null;
+
+      const response = await fetch(cloudinaryReadUrl(record), { headers: { Range: `bytes=0-${headLength - 1}` } });
+      if (!response.ok) {
+        throw new Error(`Failed to read Cloudinary asset: ${response.status}`);
+      }
+      return { size: resource.size, head: await readResponseHead(response, headLength) };
+    }
+
+    case 'firebase': {
+      const file = adminStorage.bucket().file(record.storageKey);
+      const [exists] = await file.exists();
+      if (!exists) return null;
+
+      const [metadata] = await file.getMetadata();
+      const size = Number(metadata.size) || 0;
+      const [head] = size > 0 ? await file.download({ start: 0, end: Math.min(size, headLength) - 1 }) : [Buffer.alloc(0)];
+      return { size, head };
+    }
+
+    case 'local': {
+      const stats = await statLocalObject(record.storageKey);
+      if (!stats) return null;
+      return { size: stats.size, head: await readLocalObjectHead(record.storageKey, headLength) };
+    }
+  }
+};
+
+export const deleteStoredObjectAdmin = async (record: StoredFileFields) => {
+  switch (record.storageProvider) {
+    case 'cloudinary':
+      await destroyCloudinaryAsset(record.storageKey, record.resourceType, record.deliveryType);
+      break;
+    case 'firebase':
+      await adminStorage.bucket().file(record.storageKey).delete({ ignoreNotFound: true });
+      break;
+    case 'local':
+      await deleteLocalObject(record.storageKey);
+      break;
+  }
+};
+
+// Drop a record's or version's reference to its blob and delete the bytes
+// once nothing else points at them
+export const releaseStoredFileAdmin = async (record: StoredFileFields) => {
+  if (record.blobId) {
+    const blobRef = adminDb.collection('blobs').doc(record.blobId);
+    const unreferenced = await adminDb.runTransaction(async (transaction) => {
+      const blobDoc = await transaction.get(blobRef);
+      if (!blobDoc.exists) {
+        return false;
+      }
+
+      const refCount = blobDoc.data()!.refCount - 1;
+      if (refCount > 0) {
+        transaction.update(blobRef, { refCount });
+        return false;
+      }
+
+      transaction.delete(blobRef);
+      return true;
+    });
+
+    if (!unreferenced) return;
+  }
+
+  await deleteStoredObjectAdmin(record);
+};
+
+// Stream an object's bytes from whichever backend holds it
+export const openStoredObjectAdmin = async (record: StoredFileFields): Promise<Readable> => {
+  switch (record.storageProvider) {
+    case 'cloudinary': {
+      const response = await fetch(cloudinaryReadUrl(record));
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to read Cloudinary asset: ${response.status}`);
+      }
+      return Readable.fromWeb(response.body as ReadableStream<Uint8Array>);
+    }
+
+    case 'firebase':
+      return adminStorage.bucket().file(record.storageKey).createReadStream();
+
+    case 'local':
+      return openLocalObject(record.storageKey);
+  }
+};
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { DecodedIdToken } from 'firebase-admin/auth';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { getFileRecordAdmin } from '@/lib/serverFiles';
+import { hashFilePassword, verifyPasswordHash } from '@/lib/passwords';
+import { writeAuditEntry } from '@/lib/auditLog';
+import { FileRecord, ShareLinkOptions, ShareSettings } from '@/types';
+import { parseShare, validateShare, withoutUndefined } from '@/utils/schema';
+import { can, permissionDeniedMessage } from '@/utils/permissions';
+import { shareLinkHint } from '@/utils/audit';
+
+type Actor = Pick<DecodedIdToken, 'uid' | 'email'>;
+
+// Load a share link and its file, refusing links that were revoked or have expired
+export const getActiveShare = async (token: string) => {
+  const shareDoc = await adminDb.collection('shares').doc(token).get();
+  if (!shareDoc.exists) {
+    throw new HttpError(404, 'Share link not found');
+  }
+
+  const share = parseShare(shareDoc.id, shareDoc.data()!);
+  if (share.revokedAt) {
+    throw new HttpError(410, 'This share link has been revoked');
+  }
+  if (share.expiresAt && share.expiresAt.getTime() < Date.now()) {
+    throw new HttpError(410, 'This share link has expired');
+  }
+
+  const record = await getFileRecordAdmin(share.fileId);
+  if (record.expiresAt && record.expiresAt.getTime() < Date.now()) {
+    throw new HttpError(410, 'This file has expired');
+  }
+  if (record.deletedAt) {
+    throw new HttpError(410, 'This file has been deleted');
+  }
+
+  return { share, record };
+};
+
+// Load a share link and its file for someone allowed to manage the file's
+// links (owner or co-owner)
+export const getManagedShare = async (token: string, user: Actor) => {
+  const shareDoc = await adminDb.collection('shares').doc(token).get();
+  if (!shareDoc.exists) {
+    throw new HttpError(404, 'Share link not found');
+  }
+
+  const share = parseShare(shareDoc.id, shareDoc.data()!);
+  const record = await getFileRecordAdmin(share.fileId);
+  if (!can(record, { uid: user.uid, email: user.email || null }, 'share')) {
+    throw new HttpError(403, 'You do not have permission to change this share link');
+  }
+
+  return { share, record };
+};
+
+// Verify a link's password. Links made from public files by the records
+// migration can hold old hashes, which are upgraded once the right password
+// is given.
+export const checkSharePassword = async (token: string, password: string): Promise<boolean> => {
+  const passwordRef = adminDb.collection('sharePasswords').doc(token);
+  const stored: string | undefined = (await passwordRef.get()).data()?.hash;
+
+  if (!stored) {
+    return false;
+  }
+
+  const { valid, needsRehash } = await verifyPasswordHash(password, stored);
+  if (needsRehash) {
+    await passwordRef.set({ hash: await hashFilePassword(password), updatedAt: new Date() });
+  }
+
+  return valid;
+};
+
+// Load a file for someone allowed to manage its links
+const getSharedFile = async (fileId: string, actor: Actor) => {
+  const record = await getFileRecordAdmin(fileId);
+  if (!can(record, { uid: actor.uid, email: actor.email || null }, 'share')) {
+    throw new HttpError(403, permissionDeniedMessage('share'));
+  }
+  if (record.deletedAt) {
+    throw new HttpError(409, 'This file is in the trash. Restore it first.');
+  }
+  return record;
+};
+
+const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+
+const checkOptions = (options: ShareLinkOptions) => {
+  if (options.label !== undefined && typeof options.label !== 'string') {
+    throw new HttpError(400, 'label must be a string');
+  }
+  if (options.expiresIn !== undefined && options.expiresIn !== null
+    && (typeof options.expiresIn !== 'number' || !(options.expiresIn > 0))) {
+    throw new HttpError(400, 'expiresIn must be a positive number of hours or null');
+  }
+  if (options.password !== undefined && options.password !== null && typeof options.password !== 'string') {
+    throw new HttpError(400, 'password must be a string or null');
+  }
+  for (const flag of ['allowView', 'allowDownload'] as const) {
+    if (options[flag] !== undefined && typeof options[flag] !== 'boolean') {
+      throw new HttpError(400, `${flag} must be true or false`);
+    }
+  }
+};
+
+// The parts of a link worth keeping in the audit log, without its token
+const auditSnapshot = (share: ShareSettings) => ({
+  link: shareLinkHint(share.id!),
+  label: share.label || null,
+  expiresAt: share.expiresAt?.toISOString() || null,
+  allowView: share.allowView,
+  allowDownload: share.allowDownload,
+  isPasswordProtected: share.isPasswordProtected
+});
+
+const auditShare = (
+  actor: Actor,
+  action: 'link.create' | 'link.update' | 'link.revoke' | 'link.password',
+  record: FileRecord,
+  before: ShareSettings | null,
+  after: ShareSettings | null
+) => writeAuditEntry(actor, {
+  action,
+  targetId: record.id!,
+  targetName: record.name,
+  ownerId: record.userId,
+  before: before && auditSnapshot(before),
+  after: after && auditSnapshot(after)
+});
+
+// Write a link and, when one is given, set or remove its password with it.
+// Password hashes live in the server-only `sharePasswords` collection.
+const writeShare = async (share: ShareSettings, password: string | null | undefined) => {
+  const { id, ...fields } = validateShare(withoutUndefined(share));
+  const batch = adminDb.batch();
+
+  batch.set(adminDb.collection('shares').doc(id!), fields);
+  if (password) {
+    batch.set(adminDb.collection('sharePasswords').doc(id!), { hash: await hashFilePassword(password), updatedAt: new Date() });
+  } else if (password === null) {
+    batch.delete(adminDb.collection('sharePasswords').doc(id!));
+  }
+
+  await batch.commit();
+};
+
+// Active links to a file, newest first
+export const listSharesAdmin = async (actor: Actor, fileId: string): Promise<ShareSettings[]> => {
+  await getSharedFile(fileId, actor);
+
+  const snapshot = await adminDb.collection('shares').where('fileId', '==', fileId).get();
+  return snapshot.docs
+    .map(shareDoc => parseShare(shareDoc.id, shareDoc.data()))
+    .filter(share => !share.revokedAt)
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// Create another independent link to a file. The token is 32 random bytes,
+// base64url; it is the document id and the link's only secret.
+export const createShareAdmin = async (actor: Actor, fileId: string, options: ShareLinkOptions): Promise<ShareSettings> => {
+  checkOptions(options);
+  const record = await getSharedFile(fileId, actor);
+
+  const share: ShareSettings = {
+    id: crypto.randomBytes(32).toString('base64url'),
+    fileId: record.id!,
+    userId: record.userId,
+    createdBy: actor.uid,
+    label: options.label?.trim() || undefined,
+    isPasswordProtected: !!options.password,
+    expiresAt: options.expiresIn ? hoursFromNow(options.expiresIn) : undefined,
+    allowView: options.allowView ?? true,
+    allowDownload: options.allowDownload ?? true,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+
+  await writeShare(share, options.password || undefined);
+  await auditShare(actor, 'link.create', record, null, share);
+  return share;
+};
+
+export const updateShareAdmin = async (actor: Actor, token: string, changes: ShareLinkOptions): Promise<ShareSettings> => {
+  checkOptions(changes);
+  const { share, record } = await getManagedShare(token, actor);
+  if (share.revokedAt) {
+    throw new HttpError(410, 'This share link has been revoked');
+  }
+
+  const updated: ShareSettings = {
+    ...share,
+    label: changes.label !== undefined ? changes.label.trim() || undefined : share.label,
+    isPasswordProtected: changes.password === undefined ? share.isPasswordProtected : !!changes.password,
+    allowView: changes.allowView ?? share.allowView,
+    allowDownload: changes.allowDownload ?? share.allowDownload,
+    updatedAt: new Date()
+  };
+  if (changes.expiresIn === null) {
+    updated.expiresAt = undefined;
+  } else if (changes.expiresIn) {
+    updated.expiresAt = hoursFromNow(changes.expiresIn);
+  }
+
+  await writeShare(updated, changes.password === '' ? null : changes.password);
+
+  // Setting, changing or removing the password gets an entry of its own;
+  // any other changes made with it are recorded as an update
+  const { password, ...otherChanges } = changes;
+  if (password !== undefined) {
+    await auditShare(actor, 'link.password', record, share, updated);
+  }
+  if (password === undefined || Object.values(otherChanges).some(value => value !== undefined)) {
+    await auditShare(actor, 'link.update', record, share, updated);
+  }
+  return updated;
+};
+
+// Revoked links stop working immediately but stay on record
+export const revokeShareAdmin = async (actor: Actor, token: string) => {
+  const { share, record } = await getManagedShare(token, actor);
+  if (share.revokedAt) return;
+
+  await writeShare({ ...share, revokedAt: new Date(), updatedAt: new Date() }, null);
+  await auditShare(actor, 'link.revoke', record, share, null);
+};
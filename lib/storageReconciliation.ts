@@ -0,0 +1,176 @@
+import { AggregateField, FieldPath } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { deleteStoredObjectAdmin, listStoredObjectsAdmin } from '@/lib/serverStorage';
+import { isStoredObjectClaimed, UPLOAD_PROVIDER } from '@/lib/uploads';
+import { toDate } from '@/utils/schema';
+
+// Recomputes each user's usedStorage from the files and earlier versions
+// they own, trash included, and corrects any drift. It also deletes objects
+// in their upload directory that nothing was ever recorded for: quota is
+// only charged when a file or version is recorded, so an upload the browser
+// never recorded would otherwise stay forever, unpaid for. Run it from the
+// cron route or `npm run reconcile:storage`. A run that stops at maxUsers
+// saves where it got to, and the next run carries on from there, wrapping
+// round to the first user, so every user is reached however many there are.
+const DEFAULT_BATCH_SIZE = 100;
+
+// Browsers record an upload as soon as it is stored, so one this old that
+// nothing points at was abandoned
+const ORPHAN_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Deleting a file releases its versions, drops its record and gives its
+// space back in separate steps, so a user who changed anything this recently
+// may be part way through one and is left alone
+const RECENT_ACTIVITY_MS = 60 * 60 * 1000;
+
+// The id of the last user the previous run looked at, in the server-only
+// `jobState` collection
+const cursorRef = () => adminDb.collection('jobState').doc('reconcileStorage');
+
+export interface ReconcileOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+  maxUsers?: number; // Stop after this many so a run fits in a request timeout
+}
+
+export interface ReconcileReport {
+  dryRun: boolean;
+  scanned: number;
+  corrected: { userId: string; email: string; recorded: number; actual: number; drift: number }[];
+  orphans: { userId: string; key: string; size: number }[]; // Deleted, or in a dry run, found
+  skipped: { userId: string; reason: string }[];
+  failed: { id: string; error: string }[];
+  startedAfter: string | null; // The user id the run carried on from
+  complete: boolean; // false when maxUsers stopped the run early
+}
+
+// Delete the objects in a user's upload directory that no blob, file or
+// version points at
+const sweepOrphans = async (userId: string, dryRun: boolean, report: ReconcileReport) => {
+  const cutoff = Date.now() - ORPHAN_MIN_AGE_MS;
+
+  for (const object of await listStoredObjectsAdmin(UPLOAD_PROVIDER, userId)) {
+    if (object.createdAt.getTime() > cutoff) continue;
+    if (await isStoredObjectClaimed(object.stored.storageProvider, object.stored.storageKey)) continue;
+
+    if (!dryRun) {
+      await deleteStoredObjectAdmin(object.stored);
+    }
+    report.orphans.push({ userId, key: object.stored.storageKey, size: object.size });
+  }
+};
+
+const sumSizes = async (collection: string, userId: string) => {
+  const snapshot = await adminDb
+    .collection(collection)
+    .where('userId', '==', userId)
+    .aggregate({ total: AggregateField.sum('size') })
+    .get();
+  return snapshot.data().total || 0;
+};
+
+export const reconcileStorage = async ({
+  dryRun = false,
+  batchSize = DEFAULT_BATCH_SIZE,
+  maxUsers = Infinity
+}: ReconcileOptions = {}): Promise<ReconcileReport> => {
+  const startedAfter: string | null = (await cursorRef().get()).data()?.lastUserId || null;
+  const report: ReconcileReport = {
+    dryRun,
+    scanned: 0,
+    corrected: [],
+    orphans: [],
+    skipped: [],
+    failed: [],
+    startedAfter,
+    complete: true
+  };
+  let after = startedAfter;
+  let wrapped = !startedAfter;
+
+  while (true) {
+    if (report.scanned >= maxUsers) {
+      report.complete = false;
+      break;
+    }
+
+    let batchQuery = adminDb
+      .collection('users')
+      .orderBy(FieldPath.documentId())
+      .limit(Math.min(batchSize, maxUsers - report.scanned));
+    if (after) {
+      batchQuery = batchQuery.startAfter(after);
+    }
+    // The second time round, stop where this run began
+    if (wrapped && startedAfter) {
+      batchQuery = batchQuery.endAt(startedAfter);
+    }
+
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) {
+      if (wrapped) break;
+      wrapped = true;
+      after = null;
+      continue;
+    }
+
+    for (const userDoc of snapshot.docs) {
+      report.scanned++;
+
+      try {
+        await sweepOrphans(userDoc.id, dryRun, report);
+
+        const data = userDoc.data();
+        const updatedAt = toDate(data.updatedAt);
+        if (updatedAt && Date.now() - updatedAt.getTime() < RECENT_ACTIVITY_MS) {
+          report.skipped.push({ userId: userDoc.id, reason: 'recent activity' });
+          continue;
+        }
+
+        const recorded = Number(data.usedStorage) || 0;
+        const actual = (await sumSizes('files', userDoc.id)) + (await sumSizes('fileVersions', userDoc.id));
+        if (actual === recorded) continue;
+
+        if (!dryRun) {
+          // Only write if nothing reserved or released space since we looked
+          const unchanged = await adminDb.runTransaction(async (transaction) => {
+            const current = await transaction.get(userDoc.ref);
+            if (toDate(current.data()?.updatedAt)?.getTime() !== updatedAt?.getTime()) {
+              return false;
+            }
+            transaction.update(userDoc.ref, { usedStorage: actual, updatedAt: new Date() });
+            return true;
+          });
+
+          if (!unchanged) {
+            report.skipped.push({ userId: userDoc.id, reason: 'changed during reconciliation' });
+            continue;
+          }
+        }
+
+        report.corrected.push({
+          userId: userDoc.id,
+          email: data.email || '',
+          recorded,
+          actual,
+          drift: actual - recorded
+        });
+      } catch (error) {
+        console.error(`Could not reconcile storage for user ${userDoc.id}:`, error);
+        report.failed.push({ id: userDoc.id, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    after = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  if (!dryRun) {
+    if (report.complete) {
+      await cursorRef().delete();
+    } else {
+      await cursorRef().set({ lastUserId: after, updatedAt: new Date() });
+    }
+  }
+
+  return report;
+};
@@ -0,0 +1,123 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/firebaseAdmin', async () => ({
+  adminDb: (await import('@/test/fakeFirestore')).createFakeFirestore()
+}));
+
+import { rmSync } from 'fs';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { resolveLocalKey, statLocalObject, writeLocalObject } from '@/lib/localDiskStore';
+import { purgeTrash } from '@/lib/trash';
+import { FakeFirestore } from '@/test/fakeFirestore';
+import { FILE_SCHEMA_VERSION, toFileDocument } from '@/utils/schema';
+
+const db = adminDb as unknown as FakeFirestore;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS);
+
+// Each file's bytes really are stored, so a test can see a purge delete them
+const seedFile = async (id: string, changes: { deletedAt?: Date; trashedWithFolderId?: string } = {}) => {
+  const storageKey = `trash-owner/${id}`;
+  await writeLocalObject(storageKey, Buffer.from('contents'), 'text/plain');
+
+  db.seed('files', id, toFileDocument({
+    schemaVersion: FILE_SCHEMA_VERSION,
+    userId: 'trash-owner',
+    name: `${id}.txt`,
+    size: 100,
+    type: 'text/plain',
+    storageProvider: 'local',
+    storageKey,
+    downloadCount: 0,
+    parentFolderId: null,
+    collaborators: [],
+    sharedWith: [],
+    uploadedAt: daysAgo(60),
+    updatedAt: daysAgo(60),
+    ...changes
+  }));
+};
+
+const seedFolder = (id: string, deletedAt: Date) => db.seed('folders', id, {
+  userId: 'trash-owner',
+  name: id,
+  path: `/${id}`,
+  parentFolderId: null,
+  createdAt: daysAgo(60),
+  updatedAt: daysAgo(60),
+  deletedAt
+});
+
+// The owner keeps trash for 7 days and has 300 bytes stored across three files
+const seed = async () => {
+  db.seed('users', 'trash-owner', { trashRetentionDays: 7, usedStorage: 300 });
+  await seedFile('due', { deletedAt: daysAgo(10) });
+  await seedFile('recent', { deletedAt: daysAgo(3) });
+  await seedFile('kept');
+};
+
+afterEach(() => {
+  db.reset();
+  rmSync(resolveLocalKey('trash-owner'), { recursive: true, force: true });
+});
+
+describe('purgeTrash', () => {
+  it('purges files trashed longer ago than their owner keeps trash', async () => {
+    await seed();
+    const report = await purgeTrash();
+
+    expect(report.purgedFiles.map(file => file.id)).toEqual(['due']);
+    expect(report).toMatchObject({ scanned: 2, failed: [], complete: true });
+    expect(db.list('files').map(file => file.id).sort()).toEqual(['kept', 'recent']);
+  });
+
+  it('deletes the bytes, frees the quota and records the purge', async () => {
+    await seed();
+    await purgeTrash();
+
+    expect(await statLocalObject('trash-owner/due')).toBeNull();
+    expect(await statLocalObject('trash-owner/recent')).not.toBeNull();
+    expect(db.read('users', 'trash-owner')!.usedStorage).toBe(200);
+    expect(db.list('auditLog')).toEqual([expect.objectContaining({ action: 'file.purge', targetId: 'due', actorId: 'system' })]);
+  });
+
+  it('changes nothing on a dry run', async () => {
+    await seed();
+    const report = await purgeTrash({ dryRun: true });
+
+    expect(report.purgedFiles.map(file => file.id)).toEqual(['due']);
+    expect(db.list('files')).toHaveLength(3);
+    expect(await statLocalObject('trash-owner/due')).not.toBeNull();
+    expect(db.list('auditLog')).toEqual([]);
+  });
+
+  it('stops after maxFiles purges and says it did not finish', async () => {
+    await seed();
+    await seedFile('also-due', { deletedAt: daysAgo(20) });
+    const report = await purgeTrash({ maxFiles: 1 });
+
+    expect(report.purgedFiles.map(file => file.id)).toEqual(['also-due']);
+    expect(report.complete).toBe(false);
+  });
+
+  it('keeps a due folder until the files trashed with it are gone', async () => {
+    await seed();
+    seedFolder('empty', daysAgo(10));
+    seedFolder('holding', daysAgo(10));
+    await seedFile('inside', { deletedAt: daysAgo(3), trashedWithFolderId: 'holding' });
+
+    const report = await purgeTrash();
+
+    expect(report.purgedFolders.map(folder => folder.id)).toEqual(['empty']);
+    expect(db.list('folders').map(folder => folder.id)).toEqual(['holding']);
+  });
+
+  it('uses the default retention for owners without a setting', async () => {
+    db.seed('users', 'trash-owner', { usedStorage: 200 });
+    await seedFile('month-old', { deletedAt: daysAgo(31) });
+    await seedFile('week-old', { deletedAt: daysAgo(8) });
+
+    expect((await purgeTrash()).purgedFiles.map(file => file.id)).toEqual(['month-old']);
+  });
+});
@@ -0,0 +1,151 @@
+import { DocumentSnapshot } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { deleteFileRecordAdmin } from '@/lib/serverFiles';
+import { SYSTEM_ACTOR, writeAuditEntry } from '@/lib/auditLog';
+import { DEFAULT_TRASH_RETENTION_DAYS, parseFileRecord, parseFolder } from '@/utils/schema';
+
+// Permanently deletes trashed files and folders once their owner's retention
+// period has passed. Run it from the cron route or `npm run purge:trash`.
+const DEFAULT_BATCH_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PurgeOptions {
+  dryRun?: boolean;
+  batchSize?: number;
+  maxFiles?: number; // Stop after purging this many files so a run fits in a request timeout
+}
+
+export interface PurgeReport {
+  dryRun: boolean;
+  scanned: number; // Trashed files looked at, due or not
+  purgedFiles: { id: string; name: string; userId: string; size: number; deletedAt: string }[];
+  purgedFolders: { id: string; path: string; userId: string; deletedAt: string }[];
+  failed: { id: string; error: string }[];
+  complete: boolean; // false when maxFiles stopped the file purge early
+}
+
+// Owners' retention settings, read once per run
+const createRetentionLookup = () => {
+  const cache = new Map<string, number>();
+
+  return async (userId: string) => {
+    if (!cache.has(userId)) {
+      const userDoc = await adminDb.collection('users').doc(userId).get();
+      cache.set(userId, Number(userDoc.data()?.trashRetentionDays) || DEFAULT_TRASH_RETENTION_DAYS);
+    }
+    return cache.get(userId)!;
+  };
+};
+
+// Walk a collection's trashed documents, oldest first, in batches. Anything
+// deleted less than a day ago is too recent for any retention setting.
+async function* trashedDocuments(collection: string, batchSize: number) {
+  const cutoff = new Date(Date.now() - DAY_MS);
+  let lastDoc: DocumentSnapshot | undefined;
+
+  while (true) {
+    let batchQuery = adminDb
+      .collection(collection)
+      .where('deletedAt', '<', cutoff)
+      .orderBy('deletedAt')
+      .limit(batchSize);
+    if (lastDoc) {
+      batchQuery = batchQuery.startAfter(lastDoc);
+    }
+
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) return;
+
+    yield* snapshot.docs;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+}
+
+const hasNoTrashedFiles = async (folderId: string) =>
+  (await adminDb.collection('files').where('trashedWithFolderId', '==', folderId).limit(1).get()).empty;
+
+export const purgeTrash = async ({
+  dryRun = false,
+  batchSize = DEFAULT_BATCH_SIZE,
+  maxFiles = Infinity
+}: PurgeOptions = {}): Promise<PurgeReport> => {
+  const report: PurgeReport = { dryRun, scanned: 0, purgedFiles: [], purgedFolders: [], failed: [], complete: true };
+  const getRetentionDays = createRetentionLookup();
+  const isDue = async (userId: string, deletedAt: Date) =>
+    deletedAt.getTime() + (await getRetentionDays(userId)) * DAY_MS < Date.now();
+
+  // Only purges count toward maxFiles: files that aren't due yet are cheap
+  // to pass over, and counting them would stall every run on the same ones
+  for await (const fileDoc of trashedDocuments('files', batchSize)) {
+    if (report.purgedFiles.length >= maxFiles) {
+      report.complete = false;
+      break;
+    }
+    report.scanned++;
+
+    try {
+      const record = parseFileRecord(fileDoc.id, fileDoc.data()!);
+      if (!(await isDue(record.userId, record.deletedAt!))) continue;
+
+      if (!dryRun) {
+        await deleteFileRecordAdmin(record);
+        await writeAuditEntry(SYSTEM_ACTOR, {
+          action: 'file.purge',
+          targetId: record.id!,
+          targetName: record.name,
+          ownerId: record.userId,
+          before: { size: record.size, deletedAt: record.deletedAt!.toISOString() },
+          after: null
+        });
+      }
+
+      report.purgedFiles.push({
+        id: record.id!,
+        name: record.name,
+        userId: record.userId,
+        size: record.size,
+        deletedAt: record.deletedAt!.toISOString()
+      });
+    } catch (error) {
+      console.error(`Could not purge trashed file ${fileDoc.id}:`, error);
+      report.failed.push({ id: fileDoc.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Folders hold no bytes and are purged whether or not the files above ran
+  // out. One whose trashed files are still there (not purged yet, or held
+  // back by the limit) waits for a later run, so they never lose their folder.
+  for await (const folderDoc of trashedDocuments('folders', batchSize)) {
+    try {
+      const folder = parseFolder(folderDoc.id, folderDoc.data()!);
+      if (!(await isDue(folder.userId, folder.deletedAt!))) continue;
+      if (!dryRun && !(await hasNoTrashedFiles(folder.id!))) continue;
+
+      if (!dryRun) {
+        await folderDoc.ref.delete();
+        if (!folder.trashedWithFolderId) {
+          await writeAuditEntry(SYSTEM_ACTOR, {
+            action: 'folder.purge',
+            targetId: folder.id!,
+            targetName: folder.name,
+            ownerId: folder.userId,
+            before: { path: folder.path, deletedAt: folder.deletedAt!.toISOString() },
+            after: null
+          });
+        }
+      }
+
+      report.purgedFolders.push({
+        id: folder.id!,
+        path: folder.path,
+        userId: folder.userId,
+        deletedAt: folder.deletedAt!.toISOString()
+      });
+    } catch (error) {
+      console.error(`Could not purge trashed folder ${folderDoc.id}:`, error);
+      report.failed.push({ id: folderDoc.id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return report;
+};
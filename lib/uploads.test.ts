@@ -0,0 +1,85 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/firebaseAdmin', async () => ({
+  adminDb: (await import('@/test/fakeFirestore')).createFakeFirestore()
+}));
+
+import { rmSync } from 'fs';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { resolveLocalKey, statLocalObject, writeLocalObject } from '@/lib/localDiskStore';
+import { blobDocumentId, releaseStoredFileAdmin } from '@/lib/serverStorage';
+import { acceptUpload } from '@/lib/uploads';
+import { FakeFirestore } from '@/test/fakeFirestore';
+
+const db = adminDb as unknown as FakeFirestore;
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+const declared = { name: 'cat.png', type: 'image/png' };
+
+const upload = async (ownerId: string, key: string) => {
+  await writeLocalObject(key, PNG, 'image/png');
+  return acceptUpload(ownerId, { upload: { provider: 'local', key } }, declared);
+};
+
+const refCount = (key: string) => db.read('blobs', blobDocumentId('local', key))?.refCount;
+
+// Other test files share the store, so only this file's owners are cleared
+afterEach(() => {
+  db.reset();
+  ['alice', 'mallory'].forEach(owner => rmSync(resolveLocalKey(owner), { recursive: true, force: true }));
+});
+
+describe('acceptUpload', () => {
+  it('gives a new upload a blob holding one reference', async () => {
+    const { stored, size } = await upload('alice', 'alice/cat.png');
+
+    expect(size).toBe(PNG.length);
+    expect(stored.blobId).toBe(blobDocumentId('local', 'alice/cat.png'));
+    expect(refCount('alice/cat.png')).toBe(1);
+  });
+
+  it('refuses to record the same upload twice', async () => {
+    await upload('alice', 'alice/cat.png');
+
+    await expect(acceptUpload('alice', { upload: { provider: 'local', key: 'alice/cat.png' } }, declared))
+      .rejects.toMatchObject({ status: 409 });
+    expect(refCount('alice/cat.png')).toBe(1);
+  });
+
+  it('reuses the owner\'s own copy by hash and takes another reference', async () => {
+    const { stored: first } = await upload('alice', 'alice/cat.png');
+    const { stored: second } = await acceptUpload('alice', { hash: first.hash }, declared);
+
+    expect(second.storageKey).toBe('alice/cat.png');
+    expect(refCount('alice/cat.png')).toBe(2);
+  });
+
+  it('never reuses another owner\'s copy', async () => {
+    const { stored } = await upload('alice', 'alice/cat.png');
+
+    await expect(acceptUpload('mallory', { hash: stored.hash }, declared)).rejects.toMatchObject({ status: 409 });
+    expect(refCount('alice/cat.png')).toBe(1);
+  });
+
+  it('refuses uploads outside the owner\'s directory', async () => {
+    await writeLocalObject('alice/cat.png', PNG, 'image/png');
+
+    await expect(acceptUpload('mallory', { upload: { provider: 'local', key: 'alice/cat.png' } }, declared))
+      .rejects.toMatchObject({ status: 403 });
+  });
+});
+
+describe('releaseStoredFileAdmin', () => {
+  it('deletes the bytes only when the last reference goes', async () => {
+    const { stored: first } = await upload('alice', 'alice/cat.png');
+    const { stored: second } = await acceptUpload('alice', { hash: first.hash }, declared);
+
+    await releaseStoredFileAdmin(first);
+    expect(refCount('alice/cat.png')).toBe(1);
+    expect(await statLocalObject('alice/cat.png')).not.toBeNull();
+
+    await releaseStoredFileAdmin(second);
+    expect(refCount('alice/cat.png')).toBeUndefined();
+    expect(await statLocalObject('alice/cat.png')).toBeNull();
+  });
+});
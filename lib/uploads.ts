@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import { DocumentReference } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import { HttpError } from '@/lib/serverAuth';
+import { getFileRecordAdmin } from '@/lib/serverFiles';
+import {
+  blobDocumentId,
+  deleteStoredObjectAdmin,
+  inspectStoredObjectAdmin,
+  isOwnStorageKey,
+  openStoredObjectAdmin,
+  releaseStoredFileAdmin
+} from '@/lib/serverStorage';
+import { StorageProviderName } from '@/services/storage/types';
+import { Actor, StoredFileFields } from '@/types';
+import { can } from '@/utils/permissions';
+import { ENCRYPTED_FILE_TYPE, plaintextSize } from '@/utils/encryption';
+import { checkStoredUpload, sniffFileType, SNIFF_BYTES } from '@/utils/uploadPolicy';
+import { withoutUndefined } from '@/utils/schema';
+
+// File records are only ever created on the server, from an upload the
+// browser has already stored. Everything about the bytes (size, type, hash,
+// whether they are encrypted) comes from the storage backend here, never
+// from what the browser says.
+
+const STORAGE_PROVIDERS: StorageProviderName[] = ['cloudinary', 'firebase', 'local'];
+
+// The backend new uploads go to, as in services/storage
+export const UPLOAD_PROVIDER = (process.env.NEXT_PUBLIC_STORAGE_PROVIDER as StorageProviderName) || 'cloudinary';
+
+// user: reuse the owner's own blobs; off: store every upload separately.
+// Blobs are never reused across owners: a hash is all the browser sends to
+// reuse one, and knowing a file's hash is no proof of having the file.
+export type DedupScope = 'user' | 'off';
+
+const DEDUP_SCOPE: DedupScope = process.env.NEXT_PUBLIC_DEDUP_SCOPE === 'off' ? 'off' : 'user';
+
+// The gRPC status Firestore fails create() with when the document exists
+const ALREADY_EXISTS = 6;
+
+// A stored object that one or more file records point at. Identical uploads
+// (same SHA-256) share a blob instead of storing the bytes again. Every
+// uploaded object gets one, keyed by where it is stored (blobDocumentId),
+// so the same object can't be recorded twice.
+interface BlobDocument extends Omit<StoredFileFields, 'blobId' | 'scanStatus' | 'scanSignature' | 'scannedAt'> {
+  hash: string;
+  size: number;
+  userId: string; // Whose quota paid for the bytes first
+  refCount: number;
+  createdAt: Date;
+}
+
+// What the browser sends to turn stored bytes into a file or version: the
+// object it just uploaded, or the hash of bytes that are already stored
+export interface UploadReference {
+  upload?: {
+    provider: StorageProviderName;
+    key: string;
+    resourceType?: string;
+    deliveryType?: string;
+    format?: string;
+    width?: number;
+    height?: number;
+  };
+  hash?: string;
+}
+
+export interface AcceptedUpload {
+  stored: StoredFileFields;
+  size: number; // Before encryption, as the owner's quota counts it
+  isEncrypted: boolean;
+}
+
+// Whose directory an upload goes in: the caller's own, or for a new version
+// of someone else's file, the owner's, as long as the caller may edit it.
+// Every version of a file is then stored and paid for by its owner.
+export const getUploadOwner = async (actor: Actor, fileId?: unknown): Promise<string> => {
+  if (fileId === undefined || fileId === null || fileId === '') {
+    return actor.uid;
+  }
+  if (typeof fileId !== 'string') {
+    throw new HttpError(400, 'fileId must be a file id');
+  }
+
+  const record = await getFileRecordAdmin(fileId);
+  if (!can(record, actor, 'edit')) {
+    throw new HttpError(403, 'You do not have permission to edit this file');
+  }
+  return record.userId;
+};
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+const optionalNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const findBlob = async (hash: string, ownerId: string) => {
+  const snapshot = await adminDb
+    .collection('blobs')
+    .where('hash', '==', hash)
+    .where('storageProvider', '==', UPLOAD_PROVIDER)
+    .where('userId', '==', ownerId)
+    .limit(1)
+    .get();
+  return snapshot.empty ? null : snapshot.docs[0];
+};
+
+// Whether bytes with this hash are already stored where an upload for this
+// owner could reuse them
+export const hasStoredCopy = async (hash: string, ownerId: string) =>
+  DEDUP_SCOPE !== 'off' && !!(await findBlob(hash, ownerId));
+
+// Take another reference to a blob. Returns null if it vanished in the meantime.
+const retainBlob = (blobRef: DocumentReference) =>
+  adminDb.runTransaction(async (transaction) => {
+    const blobDoc = await transaction.get(blobRef);
+    if (!blobDoc.exists) {
+      return null;
+    }
+
+    const blob = blobDoc.data() as BlobDocument;
+    transaction.update(blobRef, { refCount: blob.refCount + 1 });
+    return blob;
+  });
+
+// Whether a blob, file or version points at a stored object. Objects
+// recorded before blobs were keyed by storage key are found by query.
+export const isStoredObjectClaimed = async (provider: StorageProviderName, storageKey: string) => {
+  if ((await adminDb.collection('blobs').doc(blobDocumentId(provider, storageKey)).get()).exists) {
+    return true;
+  }
+
+  const snapshots = await Promise.all(['files', 'fileVersions', 'blobs'].map(collection =>
+    adminDb.collection(collection).where('storageKey', '==', storageKey).limit(1).get()
+  ));
+  return snapshots.some(snapshot => !snapshot.empty);
+};
+
+const hashStoredObject = async (stored: StoredFileFields) => {
+  const hash = crypto.createHash('sha256');
+  for await (const chunk of await openStoredObjectAdmin(stored)) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+};
+
+// Check stored bytes against the upload policy under the name and type they
+// are being recorded as
+const checkStored = async (
+  stored: StoredFileFields,
+  declared: { name: string; type: string },
+  deleteRejected: boolean
+) => {
+  const inspected = await inspectStoredObjectAdmin(stored, SNIFF_BYTES);
+  if (!inspected) {
+    throw new HttpError(404, 'Upload not found');
+  }
+
+  const rejection = checkStoredUpload(declared, inspected.size, inspected.head);
+  if (rejection) {
+    if (deleteRejected) {
+      await deleteStoredObjectAdmin(stored);
+    }
+    throw new HttpError(rejection.reason === 'size' ? 413 : 415, rejection.message);
+  }
+
+  const isEncrypted = sniffFileType(inspected.head) === ENCRYPTED_FILE_TYPE;
+  return { storedSize: inspected.size, size: isEncrypted ? plaintextSize(inspected.size) : inspected.size, isEncrypted };
+};
+
+// Check an upload against the upload policy and take a reference to its
+// bytes for a record owned by ownerId. New uploads must sit in the owner's
+// directory; ones the policy refuses are deleted. If the record then can't
+// be written, give the bytes back with releaseStoredFileAdmin.
+export const acceptUpload = async (
+  ownerId: string,
+  reference: UploadReference,
+  declared: { name: string; type: string }
+): Promise<AcceptedUpload> => {
+  if (typeof declared.name !== 'string' || !declared.name.trim() || typeof declared.type !== 'string') {
+    throw new HttpError(400, 'name and type are required');
+  }
+
+  const { upload, hash } = reference;
+  if (upload) {
+    if (!STORAGE_PROVIDERS.includes(upload.provider)) {
+      throw new HttpError(400, 'Unknown storage provider');
+    }
+    if (typeof upload.key !== 'string' || !isOwnStorageKey(upload.provider, upload.key, ownerId)) {
+      throw new HttpError(403, 'Unauthorized');
+    }
+
+    const stored: StoredFileFields = withoutUndefined({
+      storageProvider: upload.provider,
+      storageKey: upload.key,
+      resourceType: optionalString(upload.resourceType),
+      deliveryType: optionalString(upload.deliveryType),
+      format: optionalString(upload.format),
+      width: optionalNumber(upload.width),
+      height: optionalNumber(upload.height)
+    });
+    // An uploaded object may back only one record; anything else would
+    // delete bytes still in use once one of them goes
+    if (await isStoredObjectClaimed(stored.storageProvider, stored.storageKey)) {
+      throw new HttpError(409, 'This upload has already been recorded');
+    }
+    const { storedSize, size, isEncrypted } = await checkStored(stored, declared, true);
+    stored.hash = await hashStoredObject(stored);
+
+    // create() fails if the blob exists, so of two requests recording the
+    // same object at once only one gets it
+    const blob: BlobDocument = {
+      ...stored,
+      hash: stored.hash,
+      size: storedSize,
+      userId: ownerId,
+      refCount: 1,
+      createdAt: new Date()
+    };
+    const blobRef = adminDb.collection('blobs').doc(blobDocumentId(stored.storageProvider, stored.storageKey));
+    try {
+      await blobRef.create(withoutUndefined(blob));
+    } catch (error: any) {
+      if (error?.code === ALREADY_EXISTS) {
+        throw new HttpError(409, 'This upload has already been recorded');
+      }
+      throw error;
+    }
+    stored.blobId = blobRef.id;
+    return { stored, size, isEncrypted };
+  }
+
+  if (typeof hash === 'string' && hash && DEDUP_SCOPE !== 'off') {
+    const existing = await findBlob(hash, ownerId);
+    const blob = existing && await retainBlob(existing.ref);
+    if (!existing || !blob) {
+      throw new HttpError(409, 'There is no stored copy of this file to reuse. Upload it again.');
+    }
+
+    const stored: StoredFileFields = withoutUndefined({
+      storageProvider: blob.storageProvider,
+      storageKey: blob.storageKey,
+      resourceType: blob.resourceType,
+      deliveryType: blob.deliveryType,
+      format: blob.format,
+      width: blob.width,
+      height: blob.height,
+      hash: blob.hash,
+      blobId: existing.id
+    });
+    try {
+      const { size, isEncrypted } = await checkStored(stored, declared, false);
+      return { stored, size, isEncrypted };
+    } catch (error) {
+      await releaseStoredFileAdmin(stored);
+      throw error;
+    }
+  }
+
+  throw new HttpError(400, 'upload or hash is required');
+};
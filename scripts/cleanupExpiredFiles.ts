@@ -0,0 +1,46 @@
+/**
+ * Delete every file whose expiry has passed, in batches, and print what was
+ * removed. The same job runs from GET /api/cron/cleanup-expired.
+ *
+ *   npm run cleanup:expired -- [--dry-run] [--batch-size=100] [--max-files=N]
+ */
+import { cleanupExpiredFiles } from '@/lib/expiredFiles';
+
+const numberArg = (name: string) => {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg ? Number(arg.split('=')[1]) : undefined;
+};
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  if (dryRun) {
+    console.log('Dry run: no files will be deleted');
+  }
+
+  const report = await cleanupExpiredFiles({
+    dryRun,
+    batchSize: numberArg('batch-size'),
+    maxFiles: numberArg('max-files')
+  });
+
+  for (const file of report.deleted) {
+    console.log(`${dryRun ? 'Would delete' : 'Deleted'} ${file.id} "${file.name}" (owner ${file.userId}, expired ${file.expiresAt})`);
+  }
+  for (const failure of report.failed) {
+    console.log(`Failed ${failure.id}: ${failure.error}`);
+  }
+
+  console.log(
+    `scanned ${report.scanned}, ${dryRun ? 'would delete' : 'deleted'} ${report.deleted.length}, `
+    + `failed ${report.failed.length}${report.complete ? '' : ' (stopped at --max-files)'}`
+  );
+
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('Cleanup failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+/**
+ * Upgrade every document in the `files` and `users` collections to the
+ * current schema, in place. Documents already on the current version are
+ * left alone, so the script is safe to run more than once. Public files
+ * become share links, taking their file password with them.
+ *
+ *   npm run migrate:records -- [--dry-run]
+ */
+import { FieldPath, DocumentSnapshot, WriteBatch } from 'firebase-admin/firestore';
+import { adminDb } from '@/lib/firebaseAdmin';
+import {
+  FILE_SCHEMA_VERSION,
+  USER_SCHEMA_VERSION,
+  toFileDocument,
+  upgradeFileDocument,
+  upgradeUserDocument,
+  validateShare,
+  validateUserProfile,
+  withoutUndefined
+} from '@/utils/schema';
+
+// A file can take four writes, and a batch holds at most 500
+const BATCH_SIZE = 100;
+
+interface MigrationReport {
+  scanned: number;
+  upgraded: number;
+  failed: string[];
+}
+
+// `upgrade` returns the document's new contents and may add related writes
+// to the batch
+const migrateCollection = async (
+  name: string,
+  isCurrent: (data: Record<string, any>) => boolean,
+  upgrade: (doc: DocumentSnapshot, batch: WriteBatch) => Record<string, any> | Promise<Record<string, any>>,
+  dryRun: boolean
+): Promise<MigrationReport> => {
+  const report: MigrationReport = { scanned: 0, upgraded: 0, failed: [] };
+  let lastDoc: DocumentSnapshot | undefined;
+
+  while (true) {
+    let batchQuery = adminDb.collection(name).orderBy(FieldPath.documentId()).limit(BATCH_SIZE);
+    if (lastDoc) {
+      batchQuery = batchQuery.startAfter(lastDoc);
+    }
+
+    const snapshot = await batchQuery.get();
+    if (snapshot.empty) break;
+
+    const batch = adminDb.batch();
+    let pending = 0;
+
+    for (const doc of snapshot.docs) {
+      report.scanned++;
+      if (isCurrent(doc.data()!)) continue;
+
+      try {
+        batch.set(doc.ref, await upgrade(doc, batch));
+        pending++;
+        report.upgraded++;
+      } catch (error) {
+        console.error(`Could not upgrade ${name}/${doc.id}:`, error instanceof Error ? error.message : error);
+        report.failed.push(doc.id);
+      }
+    }
+
+    if (pending > 0 && !dryRun) {
+      await batch.commit();
+    }
+
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+
+  return report;
+};
+
+const isCurrentFile = (data: Record<string, any>) => data.schemaVersion === FILE_SCHEMA_VERSION;
+
+// Before version 6, anyone with a public file's id could open it at
+// /files/<id>, after its file password if it had one. Each public file gets
+// a share link whose token is that id, so /files/<id> can forward to
+// /s/<id>, and the password hash (on the record, or in `filePasswords`) moves
+// to the link. checkSharePassword upgrades old hashes when they are next
+// used. Passwords on files that weren't public never kept anyone out, since
+// the owner and collaborators skipped them, so those are dropped.
+// toFileDocument also drops the id the legacy FileMetadata shape stored
+// inside the document.
+const upgradeFile = async (doc: DocumentSnapshot, batch: WriteBatch) => {
+  const data = doc.data()!;
+  const upgraded = toFileDocument(upgradeFileDocument(data));
+  const passwordRef = adminDb.collection('filePasswords').doc(doc.id);
+
+  if (data.isPublic === true) {
+    const hash: string | undefined = data.password || (await passwordRef.get()).data()?.hash;
+    if (data.isPasswordProtected && !hash) {
+      throw new Error('public file is password protected but has no password hash');
+    }
+
+    const now = new Date();
+    const { id, ...share } = validateShare(withoutUndefined({
+      id: doc.id,
+      fileId: doc.id,
+      userId: upgraded.userId,
+      createdBy: upgraded.userId,
+      label: 'Public link',
+      isPasswordProtected: !!hash,
+      allowView: true,
+      allowDownload: true,
+      createdAt: now,
+      updatedAt: now
+    }));
+    batch.set(adminDb.collection('shares').doc(doc.id), share);
+    if (hash) {
+      batch.set(adminDb.collection('sharePasswords').doc(doc.id), { hash, updatedAt: now });
+    }
+  }
+
+  batch.delete(passwordRef);
+  return upgraded;
+};
+
+const isCurrentUser = (data: Record<string, any>) => data.schemaVersion === USER_SCHEMA_VERSION;
+
+const upgradeUser = (doc: DocumentSnapshot) =>
+  validateUserProfile(upgradeUserDocument({ ...doc.data(), uid: doc.id }));
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  if (dryRun) {
+    console.log('Dry run: no documents will be written');
+  }
+
+  const files = await migrateCollection('files', isCurrentFile, upgradeFile, dryRun);
+  const users = await migrateCollection('users', isCurrentUser, upgradeUser, dryRun);
+
+  for (const [name, report] of Object.entries({ files, users })) {
+    console.log(
+      `${name}: scanned ${report.scanned}, upgraded ${report.upgraded}, failed ${report.failed.length}`
+      + (report.failed.length > 0 ? ` (${report.failed.join(', ')})` : '')
+    );
+  }
+
+  if (files.failed.length > 0 || users.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,52 @@
+/**
+ * Permanently delete trashed files and folders whose owner's retention
+ * period has passed, and print what was removed. The same job runs from
+ * GET /api/cron/purge-trash.
+ *
+ *   npm run purge:trash -- [--dry-run] [--batch-size=100] [--max-files=N]
+ */
+import { purgeTrash } from '@/lib/trash';
+
+const numberArg = (name: string) => {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg ? Number(arg.split('=')[1]) : undefined;
+};
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  if (dryRun) {
+    console.log('Dry run: nothing will be deleted');
+  }
+
+  const report = await purgeTrash({
+    dryRun,
+    batchSize: numberArg('batch-size'),
+    maxFiles: numberArg('max-files')
+  });
+
+  const verb = dryRun ? 'Would purge' : 'Purged';
+  for (const file of report.purgedFiles) {
+    console.log(`${verb} file ${file.id} "${file.name}" (owner ${file.userId}, trashed ${file.deletedAt})`);
+  }
+  for (const folder of report.purgedFolders) {
+    console.log(`${verb} folder ${folder.id} "${folder.path}" (owner ${folder.userId}, trashed ${folder.deletedAt})`);
+  }
+  for (const failure of report.failed) {
+    console.log(`Failed ${failure.id}: ${failure.error}`);
+  }
+
+  console.log(
+    `scanned ${report.scanned}, ${verb.toLowerCase()} ${report.purgedFiles.length} files and `
+    + `${report.purgedFolders.length} folders, failed ${report.failed.length}`
+    + (report.complete ? '' : ' (stopped at --max-files)')
+  );
+
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('Trash purge failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,61 @@
+/**
+ * Recompute every user's usedStorage from the files and earlier versions
+ * they own, fix any drift, delete uploads that were never recorded, and
+ * print what changed. The same job runs from
+ * GET /api/cron/reconcile-storage, and both carry on from wherever the last
+ * run stopped at --max-users.
+ *
+ *   npm run reconcile:storage -- [--dry-run] [--batch-size=100] [--max-users=N]
+ */
+import { reconcileStorage } from '@/lib/storageReconciliation';
+
+const numberArg = (name: string) => {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg ? Number(arg.split('=')[1]) : undefined;
+};
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  if (dryRun) {
+    console.log('Dry run: nothing will be changed');
+  }
+
+  const report = await reconcileStorage({
+    dryRun,
+    batchSize: numberArg('batch-size'),
+    maxUsers: numberArg('max-users')
+  });
+
+  const verb = dryRun ? 'Would correct' : 'Corrected';
+  for (const user of report.corrected) {
+    console.log(
+      `${verb} ${user.userId} (${user.email}): ${user.recorded} -> ${user.actual} bytes `
+      + `(drift ${user.drift > 0 ? '+' : ''}${user.drift})`
+    );
+  }
+  for (const orphan of report.orphans) {
+    console.log(`${dryRun ? 'Would delete' : 'Deleted'} unrecorded upload ${orphan.key} (${orphan.size} bytes)`);
+  }
+  for (const skipped of report.skipped) {
+    console.log(`Skipped ${skipped.userId}: ${skipped.reason}`);
+  }
+  for (const failure of report.failed) {
+    console.log(`Failed ${failure.id}: ${failure.error}`);
+  }
+
+  console.log(
+    `scanned ${report.scanned}, ${verb.toLowerCase()} ${report.corrected.length}, `
+    + `unrecorded uploads ${report.orphans.length}, `
+    + `skipped ${report.skipped.length}, failed ${report.failed.length}`
+    + (report.complete ? '' : ' (stopped at --max-users; the next run carries on from here)')
+  );
+
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('Storage reconciliation failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+/**
+ * Scan every upload still waiting for a malware scan and print the verdicts.
+ * The same job runs from GET /api/cron/scan-files.
+ *
+ *   npm run scan:pending -- [--dry-run] [--batch-size=20] [--max-files=N]
+ */
+import { scanPendingFiles } from '@/lib/malwareScan';
+
+const numberArg = (name: string) => {
+  const arg = process.argv.find(value => value.startsWith(`--${name}=`));
+  return arg ? Number(arg.split('=')[1]) : undefined;
+};
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  if (dryRun) {
+    console.log('Dry run: nothing will be scanned');
+  }
+
+  const report = await scanPendingFiles({
+    dryRun,
+    batchSize: numberArg('batch-size'),
+    maxFiles: numberArg('max-files')
+  });
+
+  for (const file of report.quarantined) {
+    console.log(`Quarantined ${file.id} "${file.name}" (owner ${file.userId}): ${file.signature}`);
+  }
+  for (const failure of report.failed) {
+    console.log(`Failed ${failure.id}: ${failure.error}`);
+  }
+
+  console.log(
+    `${dryRun ? 'found' : 'scanned'} ${report.scanned}, clean ${report.clean}, `
+    + `quarantined ${report.quarantined.length}, failed ${report.failed.length}`
+    + (report.complete ? '' : ' (stopped at --max-files)')
+  );
+
+  if (report.failed.length > 0) {
+    process.exitCode = 1;
+  }
+};
+
+main().catch((error) => {
+  console.error('Malware scan failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,29 @@
+/**
+ * Grant or remove the admin role. The first admin has to be made this way;
+ * after that admins can manage each other from the admin console.
+ *
+ *   npm run set:admin -- user@example.com [--revoke]
+ */
+import { adminAuth } from '@/lib/firebaseAdmin';
+import { SYSTEM_ACTOR } from '@/lib/auditLog';
+import { setAdminRole } from '@/lib/admin';
+
+const main = async () => {
+  const email = process.argv.slice(2).find(value => !value.startsWith('--'));
+  if (!email) {
+    console.error('Usage: npm run set:admin -- <email> [--revoke]');
+    process.exit(1);
+  }
+
+  const isAdmin = !process.argv.includes('--revoke');
+  const account = await adminAuth.getUserByEmail(email);
+  await setAdminRole(SYSTEM_ACTOR, account.uid, isAdmin);
+
+  console.log(`${email} (${account.uid}) is ${isAdmin ? 'now' : 'no longer'} an admin. `
+    + 'They need to sign in again for the change to show.');
+};
+
+main().catch((error) => {
+  console.error('Could not change admin role:', error);
+  process.exit(1);
+});
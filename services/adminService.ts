@@ -0,0 +1,66 @@
+import { AdminUser, FileRecord, StorageTotals } from '@/types';
+import { authorizedFetch, patchJson } from '@/services/apiClient';
+import { parseFileRecord, parseUserProfile } from '@/utils/schema';
+
+// Client for the admin console routes. They all need the `admin` claim.
+
+export interface AdminUserChanges {
+  storageLimit?: number; // in bytes
+  disabled?: boolean;
+  isAdmin?: boolean;
+}
+
+export interface AdminPage<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+const getJson = async (url: string) => {
+  const response = await authorizedFetch(url);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+};
+
+export const listUsers = async (search = '', after?: string): Promise<AdminPage<AdminUser>> => {
+  const params = new URLSearchParams();
+  if (search.trim()) params.set('search', search.trim());
+  if (after) params.set('after', after);
+
+  const data = await getJson(`/api/admin/users?${params}`);
+  return {
+    items: data.users.map(({ disabled, ...profile }: any) => ({
+      ...parseUserProfile(profile.uid, profile),
+      disabled
+    })),
+    nextCursor: data.nextCursor
+  };
+};
+
+export const updateUser = async (uid: string, changes: AdminUserChanges): Promise<void> => {
+  await patchJson(`/api/admin/users/${uid}`, changes);
+};
+
+export const listAllFiles = async (userId?: string, after?: string): Promise<AdminPage<FileRecord>> => {
+  const params = new URLSearchParams();
+  if (userId) params.set('userId', userId);
+  if (after) params.set('after', after);
+
+  const data = await getJson(`/api/admin/files?${params}`);
+  return {
+    items: data.files.map((file: any) => parseFileRecord(file.id, file)),
+    nextCursor: data.nextCursor
+  };
+};
+
+export const forceDeleteFile = async (fileId: string): Promise<void> => {
+  const response = await authorizedFetch(`/api/admin/files/${fileId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json();
+    throw new Error(data.error || 'Failed to delete file');
+  }
+};
+
+export const getStorageTotals = (): Promise<StorageTotals> => getJson('/api/admin/stats');
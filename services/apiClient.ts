@@ -0,0 +1,37 @@
+import { auth } from '@/config/firebase';
+
+// fetch() wrapper that attaches the current user's Firebase ID token
+export const authorizedFetch = async (input: string, init: RequestInit = {}) => {
+  const currentUser = auth.currentUser;
+  if (!currentUser) {
+    throw new Error('Not authenticated');
+  }
+
+  const token = await currentUser.getIdToken();
+  const headers = new Headers(init.headers);
+  headers.set('Authorization', `Bearer ${token}`);
+
+  return fetch(input, { ...init, headers });
+};
+
+const sendJson = async <T>(method: string, url: string, body: unknown): Promise<T> => {
+  const response = await authorizedFetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data as T;
+};
+
+// POST a JSON body to one of our API routes and return the parsed response
+export const postJson = <T = any>(url: string, body: unknown) => sendJson<T>('POST', url, body);
+
+export const patchJson = <T = any>(url: string, body: unknown) => sendJson<T>('PATCH', url, body);
+
+export const deleteJson = <T = any>(url: string, body?: unknown) => sendJson<T>('DELETE', url, body);
@@ -0,0 +1,28 @@
+import { AuditAction, AuditEntry } from '@/types';
+import { authorizedFetch } from '@/services/apiClient';
+
+export interface AuditFilters {
+  scope?: 'mine' | 'all'; // 'all' is for admins
+  action?: AuditAction;
+  targetId?: string;
+  before?: Date; // Cursor: the createdAt of the last entry already shown
+  limit?: number;
+}
+
+// The server writes entries where each change is made; clients only read them
+export const getAuditLog = async (filters: AuditFilters = {}): Promise<AuditEntry[]> => {
+  const params = new URLSearchParams();
+  if (filters.scope) params.set('scope', filters.scope);
+  if (filters.action) params.set('action', filters.action);
+  if (filters.targetId) params.set('targetId', filters.targetId);
+  if (filters.before) params.set('before', filters.before.toISOString());
+  if (filters.limit) params.set('limit', String(filters.limit));
+
+  const response = await authorizedFetch(`/api/audit?${params}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load audit log');
+  }
+
+  return data.entries.map((entry: any) => ({ ...entry, createdAt: new Date(entry.createdAt) }));
+};
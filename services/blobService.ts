@@ -0,0 +1,43 @@
+import { getStorageProvider, StoredObject } from '@/services/storage';
+import { authorizedFetch } from '@/services/apiClient';
+
+// How the server should find the bytes of a file it is about to record: the
+// object just uploaded, or the hash of identical bytes stored before. The
+// server checks either against the upload policy and keeps the blob counts.
+export type UploadReference = { upload: StoredObject } | { hash: string };
+
+export const calculateFileHash = async (file: File): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
+  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const hasStoredCopy = async (hash: string, fileId?: string) => {
+  const params = new URLSearchParams({ hash });
+  if (fileId) params.set('fileId', fileId);
+
+  const response = await authorizedFetch(`/api/uploads/blob?${params}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to look up stored copies');
+  }
+  return data.exists === true;
+};
+
+// Store a file's bytes in its owner's directory, unless identical ones are
+// already stored. Pass fileId for a new version of that file.
+export const storeFile = async (
+  file: File,
+  userId: string,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal,
+  fileId?: string
+): Promise<UploadReference> => {
+  const hash = await calculateFileHash(file);
+  if (await hasStoredCopy(hash, fileId)) {
+    if (onProgress) onProgress(100);
+    return { hash };
+  }
+
+  return { upload: await getStorageProvider().put(file, { userId, fileId, onProgress, signal }) };
+};
@@ -1,50 +1,109 @@
 import { db } from '@/config/firebase';
 import { 
   collection, 
-  addDoc, 
-  deleteDoc, 
   doc, 
-  updateDoc, 
   getDoc,
   query,
   where,
   getDocs,
-  arrayUnion,
-  arrayRemove,
-  Timestamp,
-  deleteField
+  orderBy,
+  limit,
+  startAfter,
+  endAt,
+  onSnapshot,
+  DocumentData,
+  QueryConstraint,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  Unsubscribe
 } from 'firebase/firestore';
-import { updateUserStorage, getUserProfile } from '@/services/userService';
-
-export interface FileData {
-  id?: string;
-  userId: string;
-  name: string;
-  displayName?: string;
-  originalFilename?: string;
-  size: number;
-  type: string;
-  fileType?: string;
-  format?: string;
-  url: string;
-  secureUrl: string;
-  publicId: string;
-  assetId?: string;
-  width?: number;
-  height?: number;
-  isPublic: boolean;
-  uploadedAt: Date;
-  updatedAt?: Date;
-  expiresAt?: Date;
-  resourceType?: string;
-  sharedWith?: string[];
-  isPasswordProtected?: boolean;
-  password?: string; // Stores hashed password
-}
+import {
+  Actor,
+  FileAnalytics,
+  FileRecord,
+  FileRole,
+  FileVersion,
+  SortDirection,
+  SortOption
+} from '@/types';
+import { getUserProfile } from '@/services/userService';
+import { storeFile } from '@/services/blobService';
+import { authorizedFetch, deleteJson, patchJson, postJson } from '@/services/apiClient';
+import { assertCan, FileAction, normalizeEmail } from '@/utils/permissions';
+import {
+  createDecryptionStream,
+  encryptFile,
+  exportFileKey,
+  generateFileKey,
+  importFileKey
+} from '@/utils/encryption';
+import { parseFileRecord, parseFileVersion } from '@/utils/schema';
+import { assertUploadAllowed, UploadPolicyError } from '@/utils/uploadPolicy';
+
+// Every change to a file is made by the server, which answers with the
+// record as it now stands
+const toFileRecord = (data: { file: any }) => parseFileRecord(data.file.id, data.file);
+
+// Load a file and make sure the actor's role allows the action
+const getFileForAction = async (
+  fileId: string,
+  actor: Actor,
+  action: FileAction
+): Promise<FileRecord> => {
+  const fileDoc = await getDoc(doc(db, 'files', fileId));
+
+  if (!fileDoc.exists()) {
+    throw new Error('File not found');
+  }
+
+  const fileData = parseFileRecord(fileDoc.id, fileDoc.data());
+  assertCan(fileData, actor, action);
+
+  // Trashed files can only be restored or deleted for good
+  if (fileData.deletedAt && action !== 'delete') {
+    throw new Error('This file is in the trash. Restore it first.');
+  }
+  return fileData;
+};
+
+// Ask the server to scan new contents for malware. The file stays pending,
+// downloadable only by its uploader, until the scan finishes; if this
+// request fails, the scan-files job scans it later.
+const requestScan = async (fileId: string) => {
+  try {
+    await postJson(`/api/files/${fileId}/scan`, {});
+  } catch (error) {
+    console.error('Error requesting malware scan:', error);
+  }
+};
 
-const CLOUDINARY_CLOUD_NAME = 'dppaa4cu5';
-const CLOUDINARY_API_KEY = '994829347648593';
-const CLOUDINARY_API_SECRET = 'iIhlEuOFSLSavgYm9O9abHZnMrI';
+// Refuse early when an upload can't fit in the owner's quota
+const assertQuotaAllows = async (userId: string, bytes: number) => {
+  const profile = await getUserProfile(userId);
+  if (profile && profile.usedStorage + bytes > profile.storageLimit) {
+    throw new Error('Storage quota exceeded');
+  }
+};
+
+// Have the server record stored bytes as a file or a new version. It checks
+// them against the upload policy, so its refusals are policy errors too.
+const recordUpload = async (url: string, body: object): Promise<FileRecord> => {
+  const response = await authorizedFetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    if (response.status === 413 || response.status === 415) {
+      throw new UploadPolicyError({ reason: response.status === 413 ? 'size' : 'type', message: data.error });
+    }
+    throw new Error(data.error || 'Failed to record upload');
+  }
+
+  return toFileRecord(data);
+};
 
 // Function to format bytes into readable format
 export const formatBytes = (bytes: number): string => {
@@ -55,523 +114,531 @@ export const formatBytes = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
-// Add Cloudinary upload function
-const uploadToCloudinary = async (
-  formData: FormData,
-  onProgress?: (progress: number) => void
-) => {
-  try {
-    const response = await fetch(
-      `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/upload`,
-      {
-        method: 'POST',
-        body: formData
-      }
-    );
+// An encrypted upload's key is handed back here once and not kept anywhere,
+// so the uploader has to save it or a link that carries it
+export interface UploadResult {
+  file: FileRecord;
+  encryptionKey?: string;
+}
 
-    const data = await response.json();
-    
-    // Log for debugging
-    console.log('Cloudinary Response:', data);
-    
-    // More permissive success check - any response with a public_id or secure_url is considered successful
-    if (!data.public_id && !data.secure_url) {
-      console.error('Upload failed:', data);
-      throw new Error(data.error?.message || 'Failed to upload file');
+export const uploadFile = async (
+  file: File,
+  userId: string,
+  options?: {
+    expiresIn?: number;
+    folderId?: string | null;
+    encrypt?: boolean;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+  }
+): Promise<UploadResult> => {
+  try {
+    // The server checks both again when it records the file; checking here
+    // first saves uploading bytes it would refuse
+    await assertUploadAllowed(file);
+    await assertQuotaAllows(userId, file.size);
+    
+    // Encrypt before anything leaves the browser. The random key means
+    // encrypted uploads never deduplicate against each other.
+    let upload = file;
+    let encryptionKey: string | undefined;
+    if (options?.encrypt) {
+      const key = await generateFileKey();
+      upload = await encryptFile(file, key);
+      encryptionKey = await exportFileKey(key);
     }
 
-    return data;
+    // Store the bytes with whichever backend is configured, unless identical
+    // ones are stored already, then have the server record the file
+    const reference = await storeFile(upload, userId, options?.onProgress, options?.signal);
+    const fileData = await recordUpload('/api/files', {
+      ...reference,
+      name: file.name,
+      type: file.type,
+      parentFolderId: options?.folderId || null,
+      expiresIn: options?.expiresIn || null
+    });
+
+    requestScan(fileData.id!);
+
+    return { file: fileData, encryptionKey };
   } catch (error) {
-    console.error('Cloudinary upload error:', error);
+    console.error('Error uploading file:', error);
     throw error;
   }
 };
 
-export const uploadFile = async (
+// Replace a file's contents with a new upload. The file keeps its id, name
+// and share links, and the old contents become an earlier version. Editors
+// and up may do this; the owner's quota pays for every version kept.
+export const uploadNewVersion = async (
+  fileId: string,
+  actor: Actor,
   file: File,
-  userId: string,
   options?: {
-    expiresIn?: number;
-    password?: string;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+    encryptionKey?: string | null;
   }
-): Promise<FileData> => {
+): Promise<FileRecord> => {
   try {
-    // Check user storage quota
-    const userProfile = await getUserProfile(userId);
-    if (!userProfile) {
-      throw new Error('User profile not found');
-    }
-
-    if (userProfile.usedStorage + file.size > userProfile.totalStorage) {
-      throw new Error('Storage quota exceeded');
-    }
-    
-    // Create FormData for upload
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('upload_preset', 'realpreset');
-    formData.append('folder', `ofss/${userId}`);
+    const fileData = await getFileForAction(fileId, actor, 'edit');
+    await assertUploadAllowed(file);
 
-    // Start upload to Cloudinary
-    const response = await uploadToCloudinary(formData);
-
-    if (!response) {
-      throw new Error('Upload failed');
+    // Encrypted files keep their key, so links that carry it still work
+    let upload = file;
+    if (fileData.isEncrypted) {
+      if (!options?.encryptionKey) {
+        throw new Error('This file is encrypted. Its key is needed to upload a new version.');
+      }
+      upload = await encryptFile(file, await importFileKey(options.encryptionKey, ['encrypt']));
     }
 
-    // Create file data object
-    const fileData: FileData = {
-      userId,
+    // Every version is stored under the owner, who pays for it. The server
+    // records the version, charges the quota and deletes versions beyond the cap.
+    const reference = await storeFile(upload, fileData.userId, options?.onProgress, options?.signal, fileId);
+    const updated = await recordUpload(`/api/files/${fileId}/versions`, {
+      ...reference,
       name: file.name,
-      displayName: file.name,
-      originalFilename: file.name,
-      size: file.size,
-      type: file.type,
-      fileType: file.type,
-      format: response.format,
-      url: response.url,
-      secureUrl: response.secure_url,
-      publicId: response.public_id,
-      assetId: response.asset_id,
-      width: response.width,
-      height: response.height,
-      isPublic: false,
-      uploadedAt: new Date(),
-      updatedAt: new Date(),
-      resourceType: response.resource_type,
-      sharedWith: []
-    };
+      type: file.type
+    });
+    requestScan(fileId);
+    return updated;
+  } catch (error) {
+    console.error('Error uploading new version:', error);
+    throw error;
+  }
+};
 
-    // Apply password protection if specified
-    if (options?.password) {
-      fileData.isPasswordProtected = true;
-      fileData.password = await hashPassword(options.password);
+// A file's earlier versions, newest first. Anyone who can view the file may
+// list them.
+export const getFileVersions = async (fileId: string): Promise<FileVersion[]> => {
+  try {
+    const response = await authorizedFetch(`/api/files/${fileId}/versions`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load versions');
     }
 
-    // Apply expiration if specified
-    if (options?.expiresIn) {
-      const expirationDate = new Date();
-      expirationDate.setHours(expirationDate.getHours() + options.expiresIn);
-      fileData.expiresAt = expirationDate;
-    }
-    
-    // Add file to Firestore
-    const fileRef = await addDoc(collection(db, 'files'), fileData);
-    
-    // Update user's storage usage
-    await updateUserStorage(userId, file.size);
-    
-    return { ...fileData, id: fileRef.id };
+    return data.versions.map((version: any) => parseFileVersion(version.id, version));
   } catch (error) {
-    console.error('Error uploading file:', error);
+    console.error('Error getting file versions:', error);
     throw error;
   }
 };
 
-// Get all files for a specific user
-export const getUserFiles = async (userId: string): Promise<FileData[]> => {
+// Make an earlier version current again. It becomes the newest version, and
+// what was current is kept as an earlier one, so nothing is lost and the
+// owner's storage use does not change. Editors and up may do this.
+export const restoreFileVersion = async (fileId: string, versionId: string): Promise<FileRecord> => {
   try {
-    const filesQuery = query(
-      collection(db, 'files'),
-      where('userId', '==', userId)
-    );
-    
-    const querySnapshot = await getDocs(filesQuery);
-    const files = querySnapshot.docs.map(doc => {
-      const data = doc.data();
-      // Safely handle Timestamp conversion
-      let uploadedAt: Date;
-      if (data.uploadedAt) {
-        if (typeof data.uploadedAt.toDate === 'function') {
-          uploadedAt = data.uploadedAt.toDate();
-        } else if (data.uploadedAt instanceof Date) {
-          uploadedAt = data.uploadedAt;
-        } else {
-          uploadedAt = new Date(data.uploadedAt);
-        }
-      } else {
-        uploadedAt = new Date();
-      }
-      
-      // Handle expiresAt if present
-      let expiresAt: Date | undefined;
-      if (data.expiresAt) {
-        if (typeof data.expiresAt.toDate === 'function') {
-          expiresAt = data.expiresAt.toDate();
-        } else if (data.expiresAt instanceof Date) {
-          expiresAt = data.expiresAt;
-        } else {
-          expiresAt = new Date(data.expiresAt);
-        }
-      }
+    const updated = toFileRecord(await postJson(`/api/files/${fileId}/versions/${versionId}/restore`, {}));
+    if (updated.scanStatus === 'pending') {
+      requestScan(fileId);
+    }
+    return updated;
+  } catch (error) {
+    console.error('Error restoring file version:', error);
+    throw error;
+  }
+};
 
-      return {
-        ...data,
-        id: doc.id,
-        uploadedAt,
-        expiresAt
-      };
-    }) as FileData[];
+// The last document of a page, to start the next one after
+export type FileCursor = QueryDocumentSnapshot<DocumentData>;
 
-    // Log the number of files for debugging
-    console.log(`Retrieved ${files.length} files for user ${userId}`);
-    
-    // Filter out expired files
-    const now = new Date();
-    const validFiles = files.filter(file => {
-      // Keep files that don't have an expiration date or haven't expired yet
-      return !file.expiresAt || file.expiresAt > now;
-    });
-    
-    console.log(`Filtered to ${validFiles.length} non-expired files`);
-    
-    // Sort files by upload date (newest first)
-    return validFiles.sort((a, b) => {
-      const timeA = a.uploadedAt instanceof Date ? a.uploadedAt.getTime() : 0;
-      const timeB = b.uploadedAt instanceof Date ? b.uploadedAt.getTime() : 0;
-      return timeB - timeA;
+// Where a page of a file list starts and ends. A page without an end takes
+// the next `limit` files; once the page after it is loaded, it ends at the
+// file it ended on then and grows or shrinks with the files in between.
+export interface FilePageRange {
+  after?: FileCursor | null; // The previous page's end; omit for the first page
+  through?: FileCursor | null;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const SORT_FIELDS: Record<SortOption, string> = {
+  name: 'name',
+  size: 'size',
+  type: 'type',
+  date: 'uploadedAt'
+};
+
+// The files directly inside a user's folder (null for the root), in the
+// requested order. Trashed and expired files are filtered out by the query
+// itself through availableUntil. Each sort order needs its composite index
+// in firestore.indexes.json.
+const userFilesConstraints = (
+  userId: string,
+  folderId: string | null,
+  sort: SortOption = 'date',
+  direction: SortDirection = 'desc'
+): QueryConstraint[] => [
+  where('userId', '==', userId),
+  where('parentFolderId', '==', folderId),
+  where('availableUntil', '>', new Date()),
+  orderBy(SORT_FIELDS[sort], direction)
+];
+
+// One add, change or removal reported by a file list subscription
+export interface FileChange {
+  type: 'added' | 'modified' | 'removed';
+  file: FileRecord;
+  newIndex: number; // Position after the change; -1 for removals and unordered lists
+  remote: boolean; // Made elsewhere, rather than a pending write from this tab
+}
+
+export interface FileListUpdate {
+  files: FileRecord[]; // Everything listed now
+  changes: FileChange[]; // Since the previous update
+  initial: boolean; // The first update, where every file is an addition
+  hasMore: boolean; // Another page would list more files
+  cursor: FileCursor | null; // The last file listed, where the next page starts
+}
+
+// Apply a subscription's changes to a list in order, matching files by id
+export const applyFileChanges = (files: FileRecord[], changes: FileChange[]): FileRecord[] => {
+  const next = [...files];
+  for (const change of changes) {
+    const index = next.findIndex(file => file.id === change.file.id);
+    if (index !== -1) {
+      next.splice(index, 1);
+    }
+    if (change.type !== 'removed') {
+      const position = change.newIndex === -1 ? next.length : Math.min(change.newIndex, next.length);
+      next.splice(position, 0, change.file);
+    }
+  }
+  return next;
+};
+
+const toFileChanges = (snapshot: QuerySnapshot<DocumentData>, isListed = (_file: FileRecord) => true) =>
+  snapshot.docChanges().map((change): FileChange => {
+    const file = parseFileRecord(change.doc.id, change.doc.data());
+    const listed = change.type !== 'removed' && isListed(file);
+    return {
+      type: listed ? change.type : 'removed',
+      file,
+      newIndex: listed ? change.newIndex : -1,
+      remote: !change.doc.metadata.hasPendingWrites
+    };
+  });
+
+// One page of the files directly inside a user's folder, updated as files
+// are added, changed, trashed or removed anywhere. Each page of a list has
+// its own subscription, so loading another page doesn't read the ones
+// already listed again. Returns the function that stops listening.
+export const subscribeToUserFiles = (
+  userId: string,
+  folderId: string | null,
+  options: FilePageRange & { sort?: SortOption; direction?: SortDirection; limit?: number },
+  onUpdate: (update: FileListUpdate) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  const pageLimit = options.limit || DEFAULT_PAGE_SIZE;
+  const constraints = userFilesConstraints(userId, folderId, options.sort, options.direction);
+  if (options.after) {
+    constraints.push(startAfter(options.after));
+  }
+  constraints.push(options.through ? endAt(options.through) : limit(pageLimit));
+  let initial = true;
+
+  return onSnapshot(query(collection(db, 'files'), ...constraints), (snapshot) => {
+    onUpdate({
+      files: snapshot.docs.map(fileDoc => parseFileRecord(fileDoc.id, fileDoc.data())),
+      changes: toFileChanges(snapshot),
+      initial,
+      hasMore: !options.through && snapshot.size >= pageLimit,
+      cursor: snapshot.empty ? null : snapshot.docs[snapshot.docs.length - 1]
     });
+    initial = false;
+  }, (error) => {
+    console.error('Error watching user files:', error);
+    onError?.(error);
+  });
+};
+
+// Files in a user's trash, most recently deleted first. Files trashed along
+// with a folder are listed under that folder instead (see getTrashedFolders).
+export const getTrashedFiles = async (userId: string): Promise<FileRecord[]> => {
+  try {
+    const snapshot = await getDocs(query(collection(db, 'files'), where('userId', '==', userId)));
+    return snapshot.docs
+      .map(fileDoc => parseFileRecord(fileDoc.id, fileDoc.data()))
+      .filter(file => file.deletedAt && !file.trashedWithFolderId)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
   } catch (error) {
-    console.error('Error getting user files:', error);
+    console.error('Error getting trashed files:', error);
     throw error;
   }
 };
 
-// Get user storage info
+// Get user storage info. Trashed files keep counting toward usedStorage
+// until they are permanently deleted; `inTrash` says how much of it that is.
 export const getUserStorageInfo = async (userId: string) => {
   const userProfile = await getUserProfile(userId);
   if (!userProfile) {
     throw new Error('User profile not found');
   }
 
+  const snapshot = await getDocs(query(collection(db, 'files'), where('userId', '==', userId)));
+  const trashBytes = snapshot.docs
+    .map(fileDoc => parseFileRecord(fileDoc.id, fileDoc.data()))
+    .filter(file => file.deletedAt)
+    .reduce((total, file) => total + file.size, 0);
+
   return {
-    total: formatBytes(userProfile.totalStorage),
+    total: formatBytes(userProfile.storageLimit),
     used: formatBytes(userProfile.usedStorage),
-    available: formatBytes(userProfile.totalStorage - userProfile.usedStorage),
-    percentUsed: Math.round((userProfile.usedStorage / userProfile.totalStorage) * 100)
+    inTrash: formatBytes(trashBytes),
+    available: formatBytes(userProfile.storageLimit - userProfile.usedStorage),
+    percentUsed: Math.round((userProfile.usedStorage / userProfile.storageLimit) * 100)
   };
 };
 
-const generateSignature = async (params: Record<string, string>) => {
-  // Sort parameters alphabetically
-  const sortedParams = Object.entries(params)
-    .sort(([a], [b]) => a.localeCompare(b))
-    .reduce((acc, [key, value]) => ({ ...acc, [key]: value }), {});
-  
-  // Create the string to sign
-  const stringToSign = Object.entries(sortedParams)
-    .map(([key, value]) => `${key}=${value}`)
-    .join('&') + CLOUDINARY_API_SECRET;
-  
-  console.log('String to sign:', stringToSign); // For debugging
-  
-  // Generate SHA-1 hash using Web Crypto API
-  const encoder = new TextEncoder();
-  const data = encoder.encode(stringToSign);
-  const hashBuffer = await crypto.subtle.digest('SHA-1', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  const hashHex = hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  
-  return hashHex;
+// Move a file to its owner's trash. Owners and co-owners may do this. The
+// bytes stay in storage and keep counting toward the owner's quota until the
+// file is permanently deleted, by hand or once the retention period passes.
+export const deleteFile = async (fileId: string): Promise<FileRecord> => {
+  try {
+    return toFileRecord(await postJson(`/api/files/${fileId}/trash`, {}));
+  } catch (error) {
+    console.error('Delete error:', error);
+    throw error;
+  }
 };
 
-export const deleteFile = async (fileId: string, userId: string) => {
+// Take a file out of the trash. If its folder is gone or still in the trash,
+// it comes back in the root.
+export const restoreFile = async (fileId: string): Promise<FileRecord> => {
   try {
-    const fileRef = doc(db, 'files', fileId);
-    const fileDoc = await getDoc(fileRef);
-    
-    if (!fileDoc.exists()) {
-      throw new Error('File not found');
-    }
-    
-    const fileData = fileDoc.data() as FileData;
-    if (fileData.userId !== userId) {
-      throw new Error('Unauthorized');
-    }
-    
-    const timestamp = Math.round((new Date()).getTime() / 1000).toString();
-    
-    // Create a simple form-based deletion request that matches how Cloudinary Admin API works
-    const formData = new FormData();
-    formData.append('public_id', fileData.publicId);
-    formData.append('timestamp', timestamp);
-    formData.append('api_key', CLOUDINARY_API_KEY);
-    
-    // Generate signature with just the essential parameters
-    const signature = await generateSignature({
-      public_id: fileData.publicId,
-      timestamp,
-      api_key: CLOUDINARY_API_KEY
-    });
-    
-    formData.append('signature', signature);
-    
-    // Send the destruction request
-    const response = await fetch(
-      `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/image/destroy`,
-      {
-        method: 'POST',
-        body: formData
-      }
-    );
-    
-    const result = await response.json();
-    console.log('Cloudinary delete response:', result);
-    
-    // If the response contains a result parameter but not success, it's an error
-    if (!response.ok || (result && !result.result)) {
-      console.error('Failed to delete from Cloudinary:', result);
-    }
+    return toFileRecord(await deleteJson(`/api/files/${fileId}/trash`));
+  } catch (error) {
+    console.error('Error restoring file:', error);
+    throw error;
+  }
+};
 
-    // Update user's files array and storage usage
-    const userRef = doc(db, 'users', userId);
-    await updateDoc(userRef, {
-      files: arrayRemove(fileId),
-      updatedAt: new Date()
-    });
-    
-    // Update user's storage usage
-    await updateUserStorage(userId, fileData.size, false);
-    
-    // Delete file record from Firestore
-    await deleteDoc(fileRef);
-    
+// Delete a file for good: the bytes of every version, its record, and its
+// share of the owner's quota
+export const permanentlyDeleteFile = async (fileId: string) => {
+  try {
+    await deleteJson(`/api/files/${fileId}`);
     return { success: true };
   } catch (error) {
-    console.error('Delete error:', error);
+    console.error('Error permanently deleting file:', error);
     throw error;
   }
 };
 
-export const shareFile = async (
-  fileId: string,
-  userId: string,
-  email: string
-): Promise<void> => {
+// Share a file with someone by email, or change the role of someone it is
+// already shared with. Owners and co-owners may do this.
+export const shareFile = async (fileId: string, email: string, role: FileRole = 'viewer'): Promise<FileRecord> => {
   try {
-    const fileRef = doc(db, 'files', fileId);
-    const fileDoc = await getDoc(fileRef);
-    
-    if (!fileDoc.exists()) {
-      throw new Error('File not found');
-    }
-    
-    const fileData = fileDoc.data() as FileData;
-    
-    if (fileData.userId !== userId) {
-      throw new Error('You do not have permission to share this file');
-    }
-    
-    // Update file with new shared user
-    await updateDoc(fileRef, {
-      sharedWith: arrayUnion(email)
-    });
-    
+    return toFileRecord(await postJson(`/api/files/${fileId}/collaborators`, { email, role }));
   } catch (error) {
     console.error('Error sharing file:', error);
     throw error;
   }
 };
 
-// Simple password hashing using SHA-256
-const hashPassword = async (password: string): Promise<string> => {
-  // Use the Web Crypto API which is available in modern browsers
-  const encoder = new TextEncoder();
-  const data = encoder.encode(password);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+// Stop sharing a file with someone. Owners and co-owners may remove anyone;
+// any collaborator may remove themselves.
+export const unshareFile = async (fileId: string, email: string): Promise<FileRecord> => {
+  try {
+    return toFileRecord(await deleteJson(`/api/files/${fileId}/collaborators`, { email }));
+  } catch (error) {
+    console.error('Error unsharing file:', error);
+    throw error;
+  }
 };
 
-export const generateShareableLink = async (
-  fileId: string,
-  userId: string,
-  options?: {
-    expiresIn?: number;
-    password?: string;
+// Rename a file. Editors and up may do this.
+export const renameFile = async (fileId: string, name: string): Promise<FileRecord> => {
+  try {
+    return toFileRecord(await patchJson(`/api/files/${fileId}`, { name }));
+  } catch (error) {
+    console.error('Error renaming file:', error);
+    throw error;
   }
-): Promise<string> => {
+};
+
+// Move a file into another of its owner's folders (null moves it to the
+// root). Editors and up may do this.
+export const moveFile = async (fileId: string, folderId: string | null): Promise<FileRecord> => {
   try {
-    const fileRef = doc(db, 'files', fileId);
-    const fileDoc = await getDoc(fileRef);
-    
-    if (!fileDoc.exists()) {
-      throw new Error('File not found');
-    }
-    
-    const fileData = fileDoc.data() as FileData;
-    
-    // Check if the user is the owner of the file
-    if (fileData.userId !== userId) {
-      throw new Error('You do not have permission to share this file');
-    }
-    
-    const updateData: any = {
-      isPublic: true,
-    };
-    
-    // Handle expiration
-    if (options?.expiresIn) {
-      // Set expiration time (current time + expiresIn hours)
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + options.expiresIn);
-      updateData.expiresAt = expiresAt;
-    } else if (options?.expiresIn === null) {
-      // Remove expiration if explicitly set to null
-      updateData.expiresAt = deleteField();
-    }
-    
-    // Handle password protection
-    if (options?.password) {
-      updateData.isPasswordProtected = true;
-      updateData.password = await hashPassword(options.password);
-    }
-    
-    // Update the file document
-    await updateDoc(fileRef, updateData);
-    
-    // Generate and return the public URL
-    return `${window.location.origin}/files/${fileId}`;
+    return toFileRecord(await patchJson(`/api/files/${fileId}`, { parentFolderId: folderId }));
   } catch (error) {
-    console.error('Error generating shareable link:', error);
+    console.error('Error moving file:', error);
     throw error;
   }
 };
 
-// Verify password for a password-protected file
-export const verifyFilePassword = async (fileId: string, password: string): Promise<boolean> => {
+// Set when a file expires, in hours from now, or pass null to keep it
+// indefinitely. Expiry deletes the file, so it needs delete permission.
+export const setFileExpiration = async (fileId: string, expiresIn: number | null): Promise<FileRecord> => {
   try {
-    const fileRef = doc(db, 'files', fileId);
-    const fileDoc = await getDoc(fileRef);
-    
-    if (!fileDoc.exists()) {
-      throw new Error('File not found');
-    }
-    
-    const fileData = fileDoc.data() as FileData;
-    
-    // Check if file is password protected
-    if (!fileData.isPasswordProtected) {
-      return true; // File is not password protected, so access is allowed
-    }
-    
-    // Hash the provided password and compare with stored hash
-    const hashedPassword = await hashPassword(password);
-    return fileData.password === hashedPassword;
+    return toFileRecord(await patchJson(`/api/files/${fileId}`, { expiresIn }));
   } catch (error) {
-    console.error('Error verifying file password:', error);
-    return false;
+    console.error('Error setting file expiration:', error);
+    throw error;
   }
 };
 
-export const getSharedFiles = async (email: string): Promise<FileData[]> => {
+// Ask the server for a short-lived signed URL to a file's bytes, for its
+// owner and the people it is shared with. Pass a versionId for an earlier
+// version instead of the current one.
+export const getDownloadUrl = async (
+  fileId: string,
+  disposition: 'attachment' | 'inline' = 'attachment',
+  versionId?: string
+): Promise<string> => {
   try {
-    const q = query(
-      collection(db, 'files'),
-      where('sharedWith', 'array-contains', email)
-    );
-    
-    const filesSnapshot = await getDocs(q);
-    const files: FileData[] = [];
-    
-    filesSnapshot.forEach((doc) => {
-      const fileData = doc.data() as FileData;
-      files.push({
-        ...fileData,
-        id: doc.id
-      });
-    });
-    
-    return files;
+    const { url } = await postJson(`/api/files/${fileId}/download`, { disposition, versionId });
+    return url;
   } catch (error) {
-    console.error('Error getting shared files:', error);
-    return [];
+    console.error('Error getting download URL:', error);
+    throw error;
   }
 };
 
-export const getPublicFile = async (fileId: string): Promise<FileData | null> => {
+// View and download counts for a file, for its owner and co-owners
+export const getFileAnalytics = async (fileId: string): Promise<FileAnalytics> => {
   try {
-    const fileRef = doc(db, 'files', fileId);
-    const fileDoc = await getDoc(fileRef);
-    
-    if (!fileDoc.exists()) {
-      return null;
-    }
-    
-    const fileData = fileDoc.data();
-    
-    // Check if file is public
-    if (!fileData.isPublic) {
-      return null;
+    const response = await authorizedFetch(`/api/files/${fileId}/analytics`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to load analytics');
     }
-    
-    // Check if file has expired
-    if (fileData.expiresAt) {
-      const expirationDate = fileData.expiresAt.toDate();
-      const now = new Date();
-      
-      if (now > expirationDate) {
-        // File has expired
-        console.log(`Attempted access to expired file: ${fileId}`);
-        return null;
-      }
+
+    return data;
+  } catch (error) {
+    console.error('Error getting file analytics:', error);
+    throw error;
+  }
+};
+
+const sharedFilesQuery = (email: string) =>
+  query(collection(db, 'files'), where('sharedWith', 'array-contains', normalizeEmail(email)));
+
+const isAvailable = (file: FileRecord) => !file.deletedAt && (!file.expiresAt || file.expiresAt > new Date());
+
+// Files other people have shared with this email, as they change. The list
+// is unordered, so changes carry no position, and files that are trashed or
+// expire are reported as removed.
+export const subscribeToSharedFiles = (
+  email: string,
+  onUpdate: (update: FileListUpdate) => void,
+  onError?: (error: Error) => void
+): Unsubscribe => {
+  let initial = true;
+
+  return onSnapshot(sharedFilesQuery(email), (snapshot) => {
+    const changes = toFileChanges(snapshot, isAvailable).map(change => ({ ...change, newIndex: -1 }));
+    onUpdate({
+      files: snapshot.docs.map(fileDoc => parseFileRecord(fileDoc.id, fileDoc.data())).filter(isAvailable),
+      changes,
+      initial,
+      hasMore: false,
+      cursor: null
+    });
+    initial = false;
+  }, (error) => {
+    console.error('Error watching shared files:', error);
+    onError?.(error);
+  });
+};
+
+// The File System Access API's save dialog, which not every browser has
+declare global {
+  interface Window {
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+  }
+}
+
+// Write a stream to disk. Browsers with the File System Access API write as
+// the bytes arrive; others collect them into a Blob first.
+const saveStream = async (stream: ReadableStream<Uint8Array>, name: string, type: string) => {
+  if ('showSaveFilePicker' in window && window.showSaveFilePicker) {
+    const handle = await window.showSaveFilePicker({ suggestedName: name });
+    await stream.pipeTo(await handle.createWritable());
+    return;
+  }
+
+  const blob = new Blob([await new Response(stream).arrayBuffer()], { type });
+  const objectUrl = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = objectUrl;
+  link.download = name;
+  link.click();
+  // Some browsers start the download after click() returns, so give them
+  // time to read the blob before it is released
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 60 * 1000);
+};
+
+// Fetch an encrypted file from a signed URL and decrypt it as it arrives
+const fetchDecrypted = async (key: string, url: string, onProgress?: (progress: number) => void) => {
+  const cryptoKey = await importFileKey(key);
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error('Failed to download file');
+  }
+
+  // Report progress against the encrypted size as bytes arrive
+  const total = Number(response.headers.get('content-length')) || 0;
+  let received = 0;
+  const progress = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.length;
+      if (onProgress && total) onProgress(Math.min(100, (received / total) * 100));
+      controller.enqueue(chunk);
     }
-    
-    // Convert Firestore Timestamp to Date if needed
-    const uploadedAt = fileData.uploadedAt && typeof fileData.uploadedAt.toDate === 'function' 
-      ? fileData.uploadedAt.toDate() 
-      : fileData.uploadedAt;
-    
-    const expiresAt = fileData.expiresAt && typeof fileData.expiresAt.toDate === 'function'
-      ? fileData.expiresAt.toDate()
-      : fileData.expiresAt;
-    
-    return { 
-      ...fileData, 
-      id: fileDoc.id,
-      uploadedAt,
-      expiresAt
-    } as FileData;
+  });
+
+  return response.body
+    .pipeThrough(progress)
+    .pipeThrough(createDecryptionStream(cryptoKey));
+};
+
+// Download an encrypted file from a signed URL (see getDownloadUrl and
+// getShareDownloadUrl) and decrypt it in the browser. Throws a
+// DecryptionError when the key is malformed or wrong.
+export const downloadEncryptedFile = async (
+  file: Pick<FileRecord, 'name' | 'type'>,
+  key: string,
+  url: string,
+  onProgress?: (progress: number) => void
+) => {
+  try {
+    await saveStream(await fetchDecrypted(key, url, onProgress), file.name, file.type);
   } catch (error) {
-    console.error('Error getting public file:', error);
-    return null;
+    console.error('Error downloading encrypted file:', error);
+    throw error;
   }
 };
 
-// Check for and delete expired files
-export const cleanupExpiredFiles = async () => {
+// Read a file into memory from a signed URL for previewing, decrypting it
+// when a key is given. The URL should come from getDownloadUrl or
+// getShareDownloadUrl with the inline disposition.
+export const fetchFileContents = async (
+  file: Pick<FileRecord, 'type'>,
+  url: string,
+  key?: string | null,
+  onProgress?: (progress: number) => void
+): Promise<Blob> => {
   try {
-    const now = new Date();
-    
-    // Query for files that have expired
-    const expiredFilesQuery = query(
-      collection(db, 'files'),
-      where('expiresAt', '<', now),
-      where('isPublic', '==', true)
-    );
-    
-    const querySnapshot = await getDocs(expiredFilesQuery);
-    
-    // Delete each expired file
-    const deletePromises = querySnapshot.docs.map(async (docSnapshot) => {
-      const fileData = docSnapshot.data() as FileData;
-      
-      try {
-        // Delete the file using our existing deleteFile function
-        if (fileData.userId) {
-          await deleteFile(docSnapshot.id, fileData.userId);
-          console.log(`Auto-deleted expired file: ${fileData.name}`);
-        }
-      } catch (error) {
-        console.error(`Failed to auto-delete file ${docSnapshot.id}:`, error);
-      }
-    });
-    
-    await Promise.all(deletePromises);
-    
-    return querySnapshot.size; // Return the number of files cleaned up
+    if (key) {
+      const plaintext = await fetchDecrypted(key, url, onProgress);
+      return new Blob([await new Response(plaintext).arrayBuffer()], { type: file.type });
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error('Failed to load file');
+    }
+    return new Blob([await response.arrayBuffer()], { type: file.type });
   } catch (error) {
-    console.error('Error cleaning up expired files:', error);
+    console.error('Error loading file contents:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,220 @@
+import { db } from '@/config/firebase';
+import {
+  collection,
+  addDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch
+} from 'firebase/firestore';
+import { FolderMetadata } from '@/types';
+import { deleteJson, postJson } from '@/services/apiClient';
+import { parseFolder, validateFolder } from '@/utils/schema';
+
+const joinPath = (parentPath: string, name: string) =>
+  parentPath === '/' ? `/${name}` : `${parentPath}/${name}`;
+
+const getOwnedFolder = async (folderId: string, userId: string): Promise<FolderMetadata> => {
+  const folderDoc = await getDoc(doc(db, 'folders', folderId));
+
+  if (!folderDoc.exists()) {
+    throw new Error('Folder not found');
+  }
+
+  const folder = parseFolder(folderDoc.id, folderDoc.data());
+  if (folder.userId !== userId) {
+    throw new Error('You do not have permission to modify this folder');
+  }
+
+  return folder;
+};
+
+// Every folder a user owns, including trashed ones. Folder trees are small,
+// so we work on them in memory.
+export const getAllFolders = async (userId: string): Promise<FolderMetadata[]> => {
+  const foldersQuery = query(collection(db, 'folders'), where('userId', '==', userId));
+  const snapshot = await getDocs(foldersQuery);
+  return snapshot.docs.map(folderDoc => parseFolder(folderDoc.id, folderDoc.data()));
+};
+
+// Folders directly inside a folder (null for the root), sorted by name
+export const getFolders = async (
+  userId: string,
+  parentFolderId: string | null
+): Promise<FolderMetadata[]> => {
+  const folders = await getAllFolders(userId);
+  return folders
+    .filter(folder => !folder.deletedAt && folder.parentFolderId === parentFolderId)
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// The chain of folders from the root down to folderId, for breadcrumbs
+export const getFolderPath = async (
+  folderId: string | null,
+  userId: string
+): Promise<FolderMetadata[]> => {
+  const path: FolderMetadata[] = [];
+  let currentId = folderId;
+
+  while (currentId) {
+    const folder = await getOwnedFolder(currentId, userId);
+    path.unshift(folder);
+    currentId = folder.parentFolderId;
+  }
+
+  return path;
+};
+
+const assertNameAvailable = async (
+  userId: string,
+  parentFolderId: string | null,
+  name: string,
+  ignoreId?: string
+) => {
+  const siblings = await getFolders(userId, parentFolderId);
+  if (siblings.some(folder => folder.id !== ignoreId && folder.name === name)) {
+    throw new Error(`A folder named "${name}" already exists here`);
+  }
+};
+
+export const createFolder = async (
+  userId: string,
+  name: string,
+  parentFolderId: string | null = null
+): Promise<FolderMetadata> => {
+  try {
+    const trimmedName = name.trim();
+    const parentPath = parentFolderId
+      ? (await getOwnedFolder(parentFolderId, userId)).path
+      : '/';
+
+    await assertNameAvailable(userId, parentFolderId, trimmedName);
+
+    const folder = validateFolder({
+      name: trimmedName,
+      path: joinPath(parentPath, trimmedName),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      userId,
+      parentFolderId
+    });
+
+    const folderRef = await addDoc(collection(db, 'folders'), folder);
+    return { ...folder, id: folderRef.id };
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    throw error;
+  }
+};
+
+// Rewrite the stored path of a folder and everything below it
+const rewritePaths = async (
+  userId: string,
+  folder: FolderMetadata,
+  changes: Pick<FolderMetadata, 'name' | 'parentFolderId'>,
+  parentPath: string
+) => {
+  const allFolders = await getAllFolders(userId);
+  const batch = writeBatch(db);
+  const now = new Date();
+
+  const visit = (current: FolderMetadata, path: string, extra: Partial<FolderMetadata> = {}) => {
+    batch.update(doc(db, 'folders', current.id!), { ...extra, path, updatedAt: now });
+    allFolders
+      .filter(child => child.parentFolderId === current.id)
+      .forEach(child => visit(child, joinPath(path, child.name)));
+  };
+
+  visit(folder, joinPath(parentPath, changes.name), changes);
+  await batch.commit();
+};
+
+export const renameFolder = async (
+  folderId: string,
+  userId: string,
+  name: string
+): Promise<void> => {
+  try {
+    const folder = await getOwnedFolder(folderId, userId);
+    const trimmedName = name.trim();
+    validateFolder({ ...folder, name: trimmedName });
+
+    await assertNameAvailable(userId, folder.parentFolderId, trimmedName, folderId);
+
+    const parentPath = folder.path.slice(0, folder.path.length - folder.name.length - 1) || '/';
+    await rewritePaths(userId, folder, { name: trimmedName, parentFolderId: folder.parentFolderId }, parentPath);
+  } catch (error) {
+    console.error('Error renaming folder:', error);
+    throw error;
+  }
+};
+
+// Move a folder under another one (null moves it to the root)
+export const moveFolder = async (
+  folderId: string,
+  userId: string,
+  targetFolderId: string | null
+): Promise<void> => {
+  try {
+    const folder = await getOwnedFolder(folderId, userId);
+    let parentPath = '/';
+
+    if (targetFolderId) {
+      // Refuse to move a folder into itself or one of its own subfolders
+      const targetPath = await getFolderPath(targetFolderId, userId);
+      if (targetPath.some(ancestor => ancestor.id === folderId)) {
+        throw new Error('A folder cannot be moved into itself');
+      }
+      parentPath = targetPath[targetPath.length - 1].path;
+    }
+
+    await assertNameAvailable(userId, targetFolderId, folder.name, folderId);
+    await rewritePaths(userId, folder, { name: folder.name, parentFolderId: targetFolderId }, parentPath);
+  } catch (error) {
+    console.error('Error moving folder:', error);
+    throw error;
+  }
+};
+
+// Folders in a user's trash, most recently deleted first. Only the folder
+// that was deleted is listed; its contents come back with it.
+export const getTrashedFolders = async (userId: string): Promise<FolderMetadata[]> => {
+  const folders = await getAllFolders(userId);
+  return folders
+    .filter(folder => folder.deletedAt && !folder.trashedWithFolderId)
+    .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
+};
+
+// Move a folder and everything inside it to the trash. Files and subfolders
+// that were already in the trash keep their own entries.
+export const deleteFolder = async (folderId: string): Promise<void> => {
+  try {
+    await postJson(`/api/folders/${folderId}/trash`, {});
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    throw error;
+  }
+};
+
+// Take a folder and everything trashed with it out of the trash. If its
+// parent is gone or still in the trash, it comes back in the root.
+export const restoreFolder = async (folderId: string): Promise<void> => {
+  try {
+    await deleteJson(`/api/folders/${folderId}/trash`);
+  } catch (error) {
+    console.error('Error restoring folder:', error);
+    throw error;
+  }
+};
+
+// Delete a trashed folder for good, with every file and subfolder trashed along with it
+export const permanentlyDeleteFolder = async (folderId: string): Promise<void> => {
+  try {
+    await deleteJson(`/api/folders/${folderId}`);
+  } catch (error) {
+    console.error('Error permanently deleting folder:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,106 @@
+import { FileRecord, ShareLinkOptions, ShareSettings } from '@/types';
+import { authorizedFetch, deleteJson, patchJson, postJson } from '@/services/apiClient';
+import { parseShare } from '@/utils/schema';
+import { withKeyFragment } from '@/utils/encryption';
+
+// What a visitor holding a link learns from GET /api/shares/<token>
+export interface SharedLinkInfo {
+  allowView: boolean;
+  allowDownload: boolean;
+  isPasswordProtected: boolean;
+  expiresAt?: string;
+  file: {
+    name: string;
+    size: number;
+    type: string;
+    isEncrypted: boolean;
+  };
+}
+
+// Links are created and changed by the server, which checks the caller may
+// manage the file's links and records each change in the audit log
+const toShare = (data: { share: any }) => parseShare(data.share.id, data.share);
+
+// The link to hand out. Encrypted files also need their key, which only the
+// person copying the link has.
+export const getShareUrl = (share: ShareSettings, file: FileRecord, key?: string | null): string => {
+  const url = `${window.location.origin}/s/${share.id}`;
+  if (!file.isEncrypted) {
+    return url;
+  }
+
+  if (!key) {
+    throw new Error('This file is encrypted. Its key is needed to build the link.');
+  }
+  return withKeyFragment(url, key);
+};
+
+// Create another independent link to a file
+export const createShareLink = async (file: FileRecord, options: ShareLinkOptions = {}): Promise<ShareSettings> =>
+  toShare(await postJson(`/api/files/${file.id}/shares`, options));
+
+// Active links to a file, newest first
+export const getShareLinks = async (file: FileRecord): Promise<ShareSettings[]> => {
+  const response = await authorizedFetch(`/api/files/${file.id}/shares`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to load share links');
+  }
+
+  return data.shares.map((share: any) => parseShare(share.id, share));
+};
+
+export const updateShareLink = async (shareId: string, changes: ShareLinkOptions): Promise<ShareSettings> =>
+  toShare(await patchJson(`/api/shares/${shareId}`, changes));
+
+// Revoked links stop working immediately but stay on record
+export const revokeShareLink = async (shareId: string): Promise<void> => {
+  await deleteJson(`/api/shares/${shareId}`);
+};
+
+// Visitor side. These work without signing in.
+
+const accessTokenKey = (shareId: string) => `ofss-share-access:${shareId}`;
+
+const readJson = async (response: Response, fallback: string) => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || fallback);
+  }
+  return data;
+};
+
+export const getSharedLink = async (shareId: string): Promise<SharedLinkInfo> =>
+  readJson(await fetch(`/api/shares/${shareId}`), 'Failed to open share link');
+
+export const verifySharePassword = async (shareId: string, password: string): Promise<boolean> => {
+  const data = await readJson(
+    await fetch(`/api/shares/${shareId}/verify-password`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password })
+    }),
+    'Failed to verify password'
+  );
+
+  if (data.accessToken) {
+    sessionStorage.setItem(accessTokenKey(shareId), data.accessToken);
+  }
+  return data.valid === true;
+};
+
+export const getShareDownloadUrl = async (
+  shareId: string,
+  disposition: 'attachment' | 'inline' = 'attachment'
+): Promise<string> => {
+  const response = await fetch(`/api/shares/${shareId}/download`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      accessToken: sessionStorage.getItem(accessTokenKey(shareId)),
+      disposition
+    })
+  });
+
+  return (await readJson(response, 'Failed to get download link')).url;
+};
@@ -0,0 +1,151 @@
+// Chunked, resumable uploads. Progress for each chunk is persisted in
+// localStorage, so re-selecting the same file after a reload or a dropped
+// connection continues from the last chunk the server acknowledged.
+
+export const CHUNK_SIZE = 6 * 1024 * 1024; // Cloudinary requires at least 5MB per chunk
+const MAX_CHUNK_RETRIES = 4;
+const SESSION_PREFIX = 'ofss-upload:';
+
+interface UploadSession {
+  uploadId: string;
+  uploadedBytes: number;
+}
+
+export interface ChunkRequest {
+  url: string;
+  formData: FormData;
+  headers: Record<string, string>;
+}
+
+interface ChunkedUploadOptions {
+  file: File;
+  userId: string;
+  // Build the request for one chunk. Called again on retries so signatures can be refreshed.
+  buildRequest: (chunk: Blob, start: number, end: number, uploadId: string) => Promise<ChunkRequest>;
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal;
+}
+
+// Identify a file across page loads without reading its contents
+const sessionKey = (userId: string, file: File) =>
+  `${SESSION_PREFIX}${userId}:${file.name}:${file.size}:${file.lastModified}`;
+
+const loadSession = (key: string): UploadSession | null => {
+  if (typeof window === 'undefined') return null;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const saveSession = (key: string, session: UploadSession) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.setItem(key, JSON.stringify(session));
+};
+
+const clearSession = (key: string) => {
+  if (typeof window === 'undefined') return;
+  window.localStorage.removeItem(key);
+};
+
+// Forget a partially uploaded file so the next attempt starts from scratch
+export const discardUploadSession = (userId: string, file: File) =>
+  clearSession(sessionKey(userId, file));
+
+export const abortError = () => new DOMException('Upload aborted', 'AbortError');
+
+// fetch() has no upload progress events, so chunks go through XMLHttpRequest
+const sendChunk = (
+  request: ChunkRequest,
+  onChunkProgress: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<any> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    signal?.addEventListener('abort', () => xhr.abort(), { once: true });
+    xhr.onabort = () => reject(abortError());
+    xhr.open('POST', request.url);
+    Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => onChunkProgress(event.loaded);
+    xhr.onerror = () => reject(new Error('Network error during upload'));
+    xhr.onload = () => {
+      let data: any = {};
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // Leave data empty; the status check below reports the failure
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(data);
+      } else {
+        const error: any = new Error(data.error?.message || `Upload failed with status ${xhr.status}`);
+        error.status = xhr.status;
+        reject(error);
+      }
+    };
+
+    xhr.send(request.formData);
+  });
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Upload a file chunk by chunk and return the response to the final chunk
+export const uploadInChunks = async ({
+  file,
+  userId,
+  buildRequest,
+  onProgress,
+  signal
+}: ChunkedUploadOptions): Promise<any> => {
+  const key = sessionKey(userId, file);
+  const session: UploadSession = loadSession(key) || {
+    uploadId: `${userId}-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+    uploadedBytes: 0
+  };
+
+  const reportProgress = (bytes: number) => {
+    if (onProgress) onProgress(file.size === 0 ? 100 : (bytes / file.size) * 100);
+  };
+  reportProgress(session.uploadedBytes);
+
+  let result: any = null;
+  do {
+    const start = session.uploadedBytes;
+    const end = Math.min(start + CHUNK_SIZE, file.size);
+    const chunk = file.slice(start, end);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const request = await buildRequest(chunk, start, end, session.uploadId);
+        result = await sendChunk(request, (loaded) => reportProgress(start + loaded), signal);
+        break;
+      } catch (error: any) {
+        if (error.name === 'AbortError') {
+          throw error;
+        }
+        // Client errors other than a stale signature won't succeed on retry
+        const retryable = !error.status || error.status >= 500 || error.status === 401;
+        if (!retryable || attempt >= MAX_CHUNK_RETRIES) {
+          throw error;
+        }
+        await wait(1000 * 2 ** attempt);
+      }
+    }
+
+    session.uploadedBytes = end;
+    saveSession(key, session);
+    reportProgress(end);
+  } while (session.uploadedBytes < file.size);
+
+  clearSession(key);
+  return result;
+};
@@ -0,0 +1,66 @@
+import { postJson } from '@/services/apiClient';
+import { StorageProvider, StoredObject, PutOptions } from './types';
+import { uploadInChunks } from './chunkedUpload';
+
+interface SignedUploadParams {
+  apiKey: string;
+  cloudName: string;
+  folder: string;
+  timestamp: number;
+  type: string;
+  signature: string;
+}
+
+// Upload to Cloudinary in chunks, each signed by our API route. Chunking lets
+// large files past the per-request size limit and resume after failures.
+const put = async (file: File, { userId, fileId, onProgress, signal }: PutOptions): Promise<StoredObject> => {
+  const data = await uploadInChunks({
+    file,
+    userId,
+    onProgress,
+    signal,
+    buildRequest: async (chunk, start, end, uploadId) => {
+      const params = await postJson<SignedUploadParams>('/api/cloudinary/sign-upload', { fileId });
+
+      const formData = new FormData();
+      formData.append('file', chunk, file.name);
+      formData.append('api_key', params.apiKey);
+      formData.append('folder', params.folder);
+      formData.append('timestamp', params.timestamp.toString());
+      formData.append('type', params.type);
+      formData.append('signature', params.signature);
+
+      return {
+        url: `https://api.cloudinary.com/v1_1/${params.cloudName}/auto/upload`,
+        formData,
+        headers: {
+          'X-Unique-Upload-Id': uploadId,
+          'Content-Range': `bytes ${start}-${Math.max(end - 1, 0)}/${file.size}`
+        }
+      };
+    }
+  });
+
+  // More permissive success check - any response with a public_id or secure_url is considered successful
+  if (!data.public_id && !data.secure_url) {
+    console.error('Upload failed:', data);
+    throw new Error(data.error?.message || 'Failed to upload file');
+  }
+
+  return {
+    provider: 'cloudinary',
+    key: data.public_id,
+    size: data.bytes ?? file.size,
+    contentType: file.type,
+    resourceType: data.resource_type,
+    deliveryType: data.type,
+    format: data.format,
+    width: data.width,
+    height: data.height
+  };
+};
+
+export const cloudinaryProvider: StorageProvider = {
+  name: 'cloudinary',
+  put
+};
@@ -0,0 +1,39 @@
+import { storage } from '@/config/firebase';
+import { ref, uploadBytesResumable } from 'firebase/storage';
+import { v4 as uuidv4 } from 'uuid';
+import { StorageProvider, StoredObject, PutOptions } from './types';
+import { abortError } from './chunkedUpload';
+
+// New versions go under the file's id, which is what storage.rules checks
+// an editor's upload into the owner's directory against
+const put = (file: File, { userId, fileId, onProgress, signal }: PutOptions): Promise<StoredObject> => {
+  const path = fileId
+    ? `users/${userId}/versions/${fileId}/${uuidv4()}-${file.name}`
+    : `users/${userId}/files/${uuidv4()}-${file.name}`;
+  const uploadTask = uploadBytesResumable(ref(storage, path), file, { contentType: file.type });
+  signal?.addEventListener('abort', () => uploadTask.cancel(), { once: true });
+
+  return new Promise((resolve, reject) => {
+    uploadTask.on(
+      'state_changed',
+      (snapshot) => {
+        const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
+        if (onProgress) onProgress(progress);
+      },
+      (error) => reject(error.code === 'storage/canceled' ? abortError() : error),
+      () => {
+        resolve({
+          provider: 'firebase',
+          key: path,
+          size: file.size,
+          contentType: file.type
+        });
+      }
+    );
+  });
+};
+
+export const firebaseStorageProvider: StorageProvider = {
+  name: 'firebase',
+  put
+};
@@ -0,0 +1,24 @@
+import { cloudinaryProvider } from './cloudinaryProvider';
+import { firebaseStorageProvider } from './firebaseStorageProvider';
+import { localProvider } from './localProvider';
+import { StorageProvider, StorageProviderName } from './types';
+
+export * from './types';
+
+const providers: Record<StorageProviderName, StorageProvider> = {
+  cloudinary: cloudinaryProvider,
+  firebase: firebaseStorageProvider,
+  local: localProvider
+};
+
+export const getProvider = (name: StorageProviderName): StorageProvider => {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown storage provider: ${name}`);
+  }
+  return provider;
+};
+
+// The backend new uploads go to, picked with NEXT_PUBLIC_STORAGE_PROVIDER
+export const getStorageProvider = (): StorageProvider =>
+  getProvider((process.env.NEXT_PUBLIC_STORAGE_PROVIDER as StorageProviderName) || 'cloudinary');
@@ -0,0 +1,32 @@
+import { authorizedFetch } from '@/services/apiClient';
+import { StorageProvider, StoredObject, PutOptions } from './types';
+
+// Stores files on the Next.js server's disk. Meant for offline development and tests.
+const BASE_URL = '/api/storage/local';
+
+const put = async (file: File, { fileId, onProgress, signal }: PutOptions): Promise<StoredObject> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (fileId) {
+    formData.append('fileId', fileId);
+  }
+
+  const response = await authorizedFetch(BASE_URL, {
+    method: 'POST',
+    body: formData,
+    signal
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to upload file');
+  }
+
+  if (onProgress) onProgress(100);
+  return data as StoredObject;
+};
+
+export const localProvider: StorageProvider = {
+  name: 'local',
+  put
+};
@@ -0,0 +1,30 @@
+export type StorageProviderName = 'cloudinary' | 'firebase' | 'local';
+
+// Result of storing an object with a provider. There is deliberately no URL:
+// downloads go through /api/files/[id]/download, which checks access and
+// hands out a short-lived signed URL.
+export interface StoredObject {
+  provider: StorageProviderName;
+  key: string; // Provider-specific id: Cloudinary public_id, Storage path or local path
+  size: number;
+  contentType: string;
+  resourceType?: string;
+  deliveryType?: string; // Cloudinary only: upload (public) or authenticated
+  format?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface PutOptions {
+  userId: string; // Whose directory the bytes go in: the file owner's
+  fileId?: string; // Set for a new version; the server checks the uploader may edit the file
+  onProgress?: (progress: number) => void;
+  signal?: AbortSignal; // Aborting pauses or cancels the upload
+}
+
+// Browsers only add objects. Deleting is the server's job (releaseStoredFileAdmin),
+// which keeps blob reference counts, versions and the trash in step.
+export interface StorageProvider {
+  readonly name: StorageProviderName;
+  put(file: File, options: PutOptions): Promise<StoredObject>;
+}
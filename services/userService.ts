@@ -1,33 +1,24 @@
 import { db } from '@/config/firebase';
-import { doc, setDoc, getDoc, updateDoc } from 'firebase/firestore';
-
-export interface UserProfile {
-  uid: string;
-  email: string;
-  displayName?: string;
-  createdAt: Date;
-  updatedAt: Date;
-  totalStorage: number; // in bytes
-  usedStorage: number; // in bytes
-  files: string[]; // array of file IDs
-  sharedFiles: string[]; // array of shared file IDs
-}
+import { doc, getDoc, updateDoc } from 'firebase/firestore';
+import { UserProfile } from '@/types';
+import { postJson } from '@/services/apiClient';
+import { parseUserProfile, validateUserProfile, withoutUndefined } from '@/utils/schema';
+
+// The server creates profiles, so nobody can give themselves a bigger quota
+export const createUserProfile = async (uid: string): Promise<UserProfile> => {
+  const data = await postJson('/api/account', {});
+  return parseUserProfile(uid, data.profile);
+};
 
-export const createUserProfile = async (uid: string, email: string): Promise<UserProfile> => {
-  const userProfile: UserProfile = {
-    uid,
-    email,
-    createdAt: new Date(),
-    updatedAt: new Date(),
-    totalStorage: 1024 * 1024 * 1024, // 1GB default storage
-    usedStorage: 0,
-    files: [],
-    sharedFiles: []
-  };
+// Copy a changed sign-in email into the profile. The server reads it from the
+// ID token, so the token must have been refreshed since the change.
+export const syncProfileEmail = async (): Promise<void> => {
+  await postJson('/api/account/email', {});
+};
 
-  const userRef = doc(db, 'users', uid);
-  await setDoc(userRef, userProfile);
-  return userProfile;
+// Have the server record a password change the caller just made
+export const recordPasswordChange = async (): Promise<void> => {
+  await postJson('/api/account/password', {});
 };
 
 export const getUserProfile = async (uid: string): Promise<UserProfile | null> => {
@@ -38,37 +29,25 @@ export const getUserProfile = async (uid: string): Promise<UserProfile | null> =
     return null;
   }
 
-  return userDoc.data() as UserProfile;
+  return parseUserProfile(uid, userDoc.data());
 };
 
+// Only the preferences firestore.rules lets a user change themselves
 export const updateUserProfile = async (
   uid: string,
-  data: Partial<UserProfile>
+  data: Partial<Pick<UserProfile, 'displayName' | 'trashRetentionDays'>>
 ): Promise<void> => {
   const userRef = doc(db, 'users', uid);
-  await updateDoc(userRef, {
-    ...data,
-    updatedAt: new Date()
-  });
-};
-
-export const updateUserStorage = async (
-  uid: string,
-  fileSize: number,
-  isAddition: boolean = true
-): Promise<void> => {
-  const userProfile = await getUserProfile(uid);
-  if (!userProfile) {
+  const current = await getUserProfile(uid);
+  if (!current) {
     throw new Error('User profile not found');
   }
 
-  const newUsedStorage = isAddition
-    ? userProfile.usedStorage + fileSize
-    : userProfile.usedStorage - fileSize;
+  // Validate the merged result so a partial update can't corrupt the
+  // document, but write only the changed fields so this can't undo a
+  // concurrent change to the owner's usage
+  const changes = withoutUndefined({ ...data, updatedAt: new Date() });
+  validateUserProfile({ ...current, ...changes });
 
-  if (newUsedStorage > userProfile.totalStorage) {
-    throw new Error('Storage quota exceeded');
-  }
-
-  await updateUserProfile(uid, { usedStorage: newUsedStorage });
-}; 
\ No newline at end of file
+  await updateDoc(userRef, changes);
+};
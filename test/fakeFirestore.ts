@@ -0,0 +1,227 @@
+import { FieldValue } from 'firebase-admin/firestore';
+
+// An in-memory stand-in for the Admin SDK's Firestore, for tests of the
+// server modules. It covers what lib/ uses: documents, equality and range
+// filters, ordering, cursors, counts, transactions and batches. Transaction
+// writes are applied when the callback returns, with no isolation.
+// Use it from a test with:
+//   vi.mock('@/lib/firebaseAdmin', async () => ({ adminDb: (await import('@/test/fakeFirestore')).createFakeFirestore() }));
+
+type Data = Record<string, any>;
+type Operator = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'array-contains' | 'in';
+
+interface Filter {
+  field: string;
+  op: Operator;
+  value: unknown;
+}
+
+interface Order {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface FakeDocumentSnapshot {
+  id: string;
+  ref: FakeDocumentReference;
+  exists: boolean;
+  data: () => Data | undefined;
+}
+
+export interface FakeDocumentReference {
+  id: string;
+  get: () => Promise<FakeDocumentSnapshot>;
+  set: (data: Data) => Promise<void>;
+  create: (data: Data) => Promise<void>;
+  update: (fields: Data) => Promise<void>;
+  delete: () => Promise<void>;
+}
+
+// Firestore's errors carry a gRPC status code, which callers check
+const firestoreError = (code: number, message: string) => Object.assign(new Error(message), { code });
+const NOT_FOUND = 5;
+const ALREADY_EXISTS = 6;
+
+const isDelete = (value: unknown) => value instanceof FieldValue && value.isEqual(FieldValue.delete());
+
+// Dates compare by time; everything else as JavaScript would
+const comparable = (value: unknown) => (value instanceof Date ? value.getTime() : value) as any;
+
+const compare = (a: unknown, b: unknown) => {
+  const [left, right] = [comparable(a), comparable(b)];
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+// A field that is missing never matches, as in Firestore
+const matches = (data: Data, { field, op, value }: Filter) => {
+  const actual = data[field];
+  if (actual === undefined) return false;
+
+  switch (op) {
+    case '==': return compare(actual, value) === 0;
+    case '!=': return compare(actual, value) !== 0;
+    case '<': return compare(actual, value) < 0;
+    case '<=': return compare(actual, value) <= 0;
+    case '>': return compare(actual, value) > 0;
+    case '>=': return compare(actual, value) >= 0;
+    case 'array-contains': return Array.isArray(actual) && actual.some(item => compare(item, value) === 0);
+    case 'in': return (value as unknown[]).some(item => compare(actual, item) === 0);
+  }
+};
+
+export const createFakeFirestore = () => {
+  const collections = new Map<string, Map<string, Data>>();
+  let nextId = 0;
+
+  const documents = (collection: string) => {
+    if (!collections.has(collection)) {
+      collections.set(collection, new Map());
+    }
+    return collections.get(collection)!;
+  };
+
+  // Callers get copies, so nothing they change reaches the store unwritten
+  const read = (collection: string, id: string) => {
+    const data = documents(collection).get(id);
+    return data && structuredClone(data);
+  };
+
+  const write = {
+    set: (collection: string, id: string, data: Data) => {
+      documents(collection).set(id, structuredClone(data));
+    },
+    create: (collection: string, id: string, data: Data) => {
+      if (documents(collection).has(id)) {
+        throw firestoreError(ALREADY_EXISTS, `${collection}/${id} already exists`);
+      }
+      documents(collection).set(id, structuredClone(data));
+    },
+    update: (collection: string, id: string, fields: Data) => {
+      const existing = documents(collection).get(id);
+      if (!existing) {
+        throw firestoreError(NOT_FOUND, `${collection}/${id} not found`);
+      }
+      for (const [field, value] of Object.entries(fields)) {
+        if (isDelete(value)) {
+          delete existing[field];
+        } else {
+          existing[field] = structuredClone(value);
+        }
+      }
+    },
+    delete: (collection: string, id: string) => {
+      documents(collection).delete(id);
+    }
+  };
+
+  // Which collection each reference belongs to, for transactions and batches
+  const refs = new WeakMap<FakeDocumentReference, string>();
+
+  const doc = (collection: string, id = `auto-${++nextId}`): FakeDocumentReference => {
+    const ref: FakeDocumentReference = {
+      id,
+      get: async () => snapshot(ref, read(collection, id)),
+      set: async (data) => write.set(collection, id, data),
+      create: async (data) => write.create(collection, id, data),
+      update: async (fields) => write.update(collection, id, fields),
+      delete: async () => write.delete(collection, id)
+    };
+    refs.set(ref, collection);
+    return ref;
+  };
+
+  const snapshot = (ref: FakeDocumentReference, data: Data | undefined): FakeDocumentSnapshot => ({
+    id: ref.id,
+    ref,
+    exists: data !== undefined,
+    data: () => data
+  });
+
+  const query = (
+    collection: string,
+    filters: Filter[] = [],
+    orders: Order[] = [],
+    limit = Infinity,
+    after?: FakeDocumentSnapshot
+  ): any => {
+    const run = () => {
+      let results = Array.from(documents(collection).keys())
+        .map(id => snapshot(doc(collection, id), read(collection, id)))
+        .filter(result => filters.every(filter => matches(result.data()!, filter)));
+
+      for (const { field, direction } of [...orders].reverse()) {
+        results = results
+          .filter(result => result.data()![field] !== undefined)
+          .sort((a, b) => compare(a.data()![field], b.data()![field]) * (direction === 'desc' ? -1 : 1));
+      }
+      if (after) {
+        results = results.slice(results.findIndex(result => result.id === after.id) + 1);
+      }
+      return results.slice(0, limit);
+    };
+
+    return {
+      where: (field: string, op: Operator, value: unknown) =>
+        query(collection, [...filters, { field, op, value }], orders, limit, after),
+      orderBy: (field: string, direction: 'asc' | 'desc' = 'asc') =>
+        query(collection, filters, [...orders, { field, direction }], limit, after),
+      limit: (count: number) => query(collection, filters, orders, count, after),
+      startAfter: (cursor: FakeDocumentSnapshot) => query(collection, filters, orders, limit, cursor),
+      count: () => ({ get: async () => ({ data: () => ({ count: run().length }) }) }),
+      get: async () => {
+        const docs = run();
+        return { docs, empty: docs.length === 0, size: docs.length };
+      }
+    };
+  };
+
+  // Writes queued by a transaction or batch, applied together
+  const writeQueue = () => {
+    const pending: (() => void)[] = [];
+    const queue = (apply: (collection: string, id: string) => void) => (ref: FakeDocumentReference) => {
+      pending.push(() => apply(refs.get(ref)!, ref.id));
+    };
+
+    return {
+      set: (ref: FakeDocumentReference, data: Data) => queue((c, id) => write.set(c, id, data))(ref),
+      create: (ref: FakeDocumentReference, data: Data) => queue((c, id) => write.create(c, id, data))(ref),
+      update: (ref: FakeDocumentReference, fields: Data) => queue((c, id) => write.update(c, id, fields))(ref),
+      delete: (ref: FakeDocumentReference) => queue((c, id) => write.delete(c, id))(ref),
+      apply: () => pending.splice(0).forEach(apply => apply())
+    };
+  };
+
+  return {
+    collection: (collection: string) => ({
+      ...query(collection),
+      doc: (id?: string) => doc(collection, id),
+      add: async (data: Data) => {
+        const ref = doc(collection);
+        write.set(collection, ref.id, data);
+        return ref;
+      }
+    }),
+
+    getAll: (...documentRefs: FakeDocumentReference[]) => Promise.all(documentRefs.map(ref => ref.get())),
+
+    runTransaction: async <T>(update: (transaction: any) => Promise<T>): Promise<T> => {
+      const queued = writeQueue();
+      const result = await update({ ...queued, get: (target: { get: () => Promise<unknown> }) => target.get() });
+      queued.apply();
+      return result;
+    },
+
+    batch: () => {
+      const queued = writeQueue();
+      return { ...queued, commit: async () => queued.apply() };
+    },
+
+    // Test helpers: put documents in place and look at what was written
+    seed: (collection: string, id: string, data: Data) => write.set(collection, id, data),
+    read,
+    list: (collection: string) => Array.from(documents(collection), ([id, data]) => ({ id, ...structuredClone(data) })),
+    reset: () => collections.clear()
+  };
+};
+
+export type FakeFirestore = ReturnType<typeof createFakeFirestore>;
@@ -1,54 +1,245 @@
-export interface FileMetadata {
-  id: string;
+import { StorageProviderName } from '@/services/storage/types';
+
+// What a named recipient may do with a file. See utils/permissions.ts.
+export type FileRole = 'viewer' | 'commenter' | 'editor' | 'co-owner';
+
+export interface Collaborator {
+  email: string;
+  role: FileRole;
+  addedAt: Date;
+}
+
+// The signed-in user performing an operation. Firebase's User fits this shape.
+export interface Actor {
+  uid: string;
+  email: string | null;
+}
+
+// Where one version of a file's bytes live, and what the malware scan made of them
+export type StoredFileFields = Pick<
+  FileRecord,
+  | 'storageProvider'
+  | 'storageKey'
+  | 'resourceType'
+  | 'deliveryType'
+  | 'format'
+  | 'width'
+  | 'height'
+  | 'hash'
+  | 'blobId'
+  | 'scanStatus'
+  | 'scanSignature'
+  | 'scannedAt'
+>;
+
+// pending: uploaded, not yet scanned; quarantined: malware found, never served;
+// failed: the scanner gave up on it, so it is treated like pending
+export type ScanStatus = 'pending' | 'clean' | 'quarantined' | 'failed';
+
+// Canonical shape of a document in the `files` collection. It always
+// describes the current version; earlier ones are in `fileVersions`.
+export interface FileRecord {
+  id?: string;
+  schemaVersion: number;
+  userId: string;
   name: string;
-  type: string;
   size: number;
-  url: string;
-  path: string;
-  createdAt: Date;
+  type: string;
+  storageProvider: StorageProviderName;
+  storageKey: string; // Provider-specific id: Cloudinary public_id, Storage path or local path
+  resourceType?: string;
+  deliveryType?: string; // Cloudinary only: upload (public) or authenticated
+  format?: string;
+  width?: number;
+  height?: number;
+  hash?: string;
+  blobId?: string; // Shared blob in the `blobs` collection, for deduplicated uploads
+  scanStatus?: ScanStatus; // Unset for files uploaded before scanning existed
+  scanSignature?: string; // What the scanner found in a quarantined file
+  scannedAt?: Date;
+  scanAttempts?: number; // Scans that errored since the contents last changed
+  scanError?: string; // Why the last of those errored
+  nextScanAt?: Date; // When the scan-files job next picks up a pending file
+  downloadCount: number;
+  parentFolderId: string | null;
+  isEncrypted?: boolean; // Encrypted in the browser; the key only exists in share links
+  collaborators: Collaborator[];
+  sharedWith: string[]; // Collaborator emails, kept in step for array-contains queries
+  version?: number; // Starts at 1 and goes up with every new version
+  uploadedBy?: string; // Who uploaded the current version; the owner when unset
+  uploaderEmail?: string;
+  uploadedAt: Date; // When the current version was uploaded
   updatedAt: Date;
-  ownerId: string;
-  isPublic: boolean;
-  password?: string;
   expiresAt?: Date;
-  downloadCount: number;
-  parentFolderId?: string;
-  hash: string;
+  deletedAt?: Date; // Set while the file is in the trash
+  deletedBy?: string;
+  trashedWithFolderId?: string; // Trashed along with this folder, and restored with it
+}
+
+// An earlier version of a file, in the `fileVersions` collection. Replacing
+// or restoring a file's contents moves the current ones here, so the file
+// keeps its id and share links.
+export interface FileVersion extends StoredFileFields {
+  id?: string;
+  fileId: string;
+  userId: string; // Owner of the file
+  version: number;
+  name: string; // The file's name when this version was current
+  size: number;
+  type: string;
+  isEncrypted?: boolean;
+  uploadedBy: string;
+  uploaderEmail?: string;
+  uploadedAt: Date;
+  replacedAt: Date;
 }
 
+// A document in the `folders` collection. Files point at it via parentFolderId.
 export interface FolderMetadata {
-  id: string;
+  id?: string;
   name: string;
-  path: string;
+  path: string; // Slash-separated names from the root, e.g. "/Work/Invoices"
   createdAt: Date;
   updatedAt: Date;
-  ownerId: string;
-  isPublic: boolean;
-  parentFolderId?: string;
+  userId: string;
+  parentFolderId: string | null;
+  deletedAt?: Date; // Set while the folder is in the trash
+  trashedWithFolderId?: string; // Trashed along with this ancestor, and restored with it
 }
 
+// A share link in the `shares` collection. The document id is the link's
+// secret token, so a link is /s/<id>. Password hashes live server-side in
+// `sharePasswords`.
 export interface ShareSettings {
-  id: string;
+  id?: string;
   fileId: string;
-  isPublic: boolean;
-  password?: string;
+  userId: string; // Owner of the file
+  createdBy: string; // The owner or a co-owner
+  label?: string;
+  isPasswordProtected: boolean;
   expiresAt?: Date;
   allowDownload: boolean;
   allowView: boolean;
   createdAt: Date;
   updatedAt: Date;
+  revokedAt?: Date;
 }
 
+// What someone managing a file's links may set on one
+export interface ShareLinkOptions {
+  label?: string;
+  expiresIn?: number | null; // Hours from now; null removes the expiry
+  password?: string | null; // A new password; null removes it
+  allowView?: boolean;
+  allowDownload?: boolean;
+}
+
+// One view or download, in the server-only `accessEvents` collection. Only a
+// coarse user agent and a salted IP hash are kept, never the raw values.
+export type AccessKind = 'view' | 'download';
+
+export interface AccessEvent {
+  id?: string;
+  fileId: string;
+  kind: AccessKind;
+  shareId: string | null; // The link used, or null for direct access
+  userId: string | null; // Signed-in visitor, if any
+  userAgent: string; // e.g. "Firefox on Windows"
+  ipHash: string;
+  createdAt: Date;
+}
+
+// Per-file summary of access events, as returned by GET /api/files/<id>/analytics
+export interface FileAnalytics {
+  views: number;
+  downloads: number;
+  uniqueVisitors: number;
+  lastAccessedAt: string | null;
+  daily: { date: string; views: number; downloads: number }[]; // Oldest first, YYYY-MM-DD in UTC
+  links: { shareId: string; label?: string; count: number }[];
+  userAgents: { userAgent: string; count: number }[];
+}
+
+// Everything recorded in the audit log. Each is written by the route or job
+// that makes the change, never reported by the client.
+export type AuditAction =
+  | 'file.upload'
+  | 'file.delete'
+  | 'file.restore'
+  | 'file.purge'
+  | 'file.rename'
+  | 'file.move'
+  | 'file.share'
+  | 'file.unshare'
+  | 'file.expiry'
+  | 'file.expire'
+  | 'file.version'
+  | 'file.revert'
+  | 'file.quarantine'
+  | 'folder.delete'
+  | 'folder.restore'
+  | 'folder.purge'
+  | 'link.create'
+  | 'link.update'
+  | 'link.revoke'
+  | 'link.password'
+  | 'account.email'
+  | 'account.password'
+  | 'account.quota'
+  | 'account.disable'
+  | 'account.enable'
+  | 'account.role';
+
+// An append-only entry in the server-only `auditLog` collection. The actor
+// always comes from a verified ID token.
+export interface AuditEntry {
+  id?: string;
+  action: AuditAction;
+  actorId: string; // 'system' for scheduled jobs
+  actorEmail: string | null;
+  targetType: 'file' | 'folder' | 'link' | 'account';
+  targetId: string; // File id for file and link actions, folder id for folder actions, user id for account actions
+  targetName?: string;
+  ownerId: string; // Whose file or account was affected
+  userIds: string[]; // Actor and owner, so both see the entry
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: Date;
+}
+
+// Canonical shape of a document in the `users` collection
 export interface UserProfile {
-  id: string;
+  uid: string;
+  schemaVersion: number;
   email: string;
-  displayName: string;
-  storageUsed: number;
-  storageLimit: number;
+  displayName?: string;
+  usedStorage: number; // in bytes
+  storageLimit: number; // in bytes
+  isAdmin: boolean;
+  trashRetentionDays: number; // Trashed files and folders are purged after this long
   createdAt: Date;
   updatedAt: Date;
-  lastLoginAt: Date;
-  isAdmin: boolean;
+  lastLoginAt?: Date;
+}
+
+// A user as the admin console lists them: the profile plus whether the
+// account is disabled in Firebase Auth
+export interface AdminUser extends UserProfile {
+  disabled: boolean;
+}
+
+// Storage across every account, for the admin console. Byte counts include
+// the trash.
+export interface StorageTotals {
+  users: number;
+  allocatedBytes: number; // Sum of every user's storageLimit
+  usedBytes: number; // Sum of every user's usedStorage
+  files: number;
+  fileBytes: number;
+  trashedFiles: number;
+  trashedBytes: number;
+  versions: number;
+  versionBytes: number;
 }
 
 export type SortOption = 'name' | 'size' | 'type' | 'date';
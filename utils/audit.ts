@@ -0,0 +1,35 @@
+import { AuditAction } from '@/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'file.upload': 'Uploaded file',
+  'file.delete': 'Moved file to trash',
+  'file.restore': 'Restored file from trash',
+  'file.purge': 'Permanently deleted file',
+  'file.rename': 'Renamed file',
+  'file.move': 'Moved file',
+  'file.share': 'Shared file',
+  'file.unshare': 'Unshared file',
+  'file.expiry': 'Changed file expiry',
+  'file.expire': 'File expired and was deleted',
+  'file.version': 'Uploaded new version',
+  'file.revert': 'Restored earlier version',
+  'file.quarantine': 'Quarantined file after finding malware',
+  'folder.delete': 'Moved folder to trash',
+  'folder.restore': 'Restored folder from trash',
+  'folder.purge': 'Permanently deleted folder',
+  'link.create': 'Created share link',
+  'link.update': 'Changed share link',
+  'link.revoke': 'Revoked share link',
+  'link.password': 'Changed share link password',
+  'account.email': 'Changed email',
+  'account.password': 'Changed password',
+  'account.quota': 'Changed storage quota',
+  'account.disable': 'Disabled account',
+  'account.enable': 'Enabled account',
+  'account.role': 'Changed admin role'
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+// Share tokens are secrets, so the log only keeps enough to tell links apart
+export const shareLinkHint = (token: string) => `…${token.slice(-6)}`;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDecryptionStream,
+  DecryptionError,
+  encryptFile,
+  exportFileKey,
+  generateFileKey,
+  importFileKey,
+  keyFromInput,
+  plaintextSize
+} from '@/utils/encryption';
+
+const HEADER_SIZE = 17;
+const SEGMENT_SIZE = 1024 * 1024;
+const STORED_SEGMENT_SIZE = SEGMENT_SIZE + 16;
+
+// Bytes that differ from segment to segment, so a swapped segment is noticed
+const sampleBytes = (size: number) => {
+  const bytes = new Uint8Array(size);
+  for (let index = 0; index < size; index++) {
+    bytes[index] = (index * 31 + (index >> 20)) % 251;
+  }
+  return bytes;
+};
+
+// toEqual compares byte by byte, which is far too slow for whole segments
+const sameBytes = (a: Uint8Array, b: Uint8Array) => Buffer.from(a).equals(Buffer.from(b));
+
+const encrypt = async (plaintext: Uint8Array, key: CryptoKey) =>
+  new Uint8Array(await (await encryptFile(new File([plaintext], 'sample.bin'), key)).arrayBuffer());
+
+// Feed the encrypted bytes through in uneven chunks, as a download would arrive
+const decrypt = async (encrypted: Uint8Array, key: CryptoKey) => {
+  const source = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < encrypted.length; offset += 100_000) {
+        controller.enqueue(encrypted.slice(offset, offset + 100_000));
+      }
+      controller.close();
+    }
+  });
+  return new Uint8Array(await new Response(source.pipeThrough(createDecryptionStream(key))).arrayBuffer());
+};
+
+describe('encryption', () => {
+  it('round-trips files of one and several segments', async () => {
+    const key = await generateFileKey();
+    for (const size of [0, 10, SEGMENT_SIZE, 2 * SEGMENT_SIZE + 5]) {
+      const plaintext = sampleBytes(size);
+      const encrypted = await encrypt(plaintext, key);
+
+      expect(plaintextSize(encrypted.length)).toBe(size);
+      expect(sameBytes(await decrypt(encrypted, key), plaintext)).toBe(true);
+    }
+  });
+
+  it('decrypts with a key exported to a link and imported again', async () => {
+    const key = await generateFileKey();
+    const plaintext = sampleBytes(1000);
+    const encrypted = await encrypt(plaintext, key);
+
+    expect(sameBytes(await decrypt(encrypted, await importFileKey(await exportFileKey(key))), plaintext)).toBe(true);
+  });
+
+  it('rejects the wrong key', async () => {
+    const encrypted = await encrypt(sampleBytes(1000), await generateFileKey());
+    await expect(decrypt(encrypted, await generateFileKey())).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects a file cut short at a segment boundary', async () => {
+    const key = await generateFileKey();
+    const encrypted = await encrypt(sampleBytes(2 * SEGMENT_SIZE + 5), key);
+    const truncated = encrypted.slice(0, HEADER_SIZE + 2 * STORED_SEGMENT_SIZE);
+
+    await expect(decrypt(truncated, key)).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects a file whose segments were reordered', async () => {
+    const key = await generateFileKey();
+    const encrypted = await encrypt(sampleBytes(3 * SEGMENT_SIZE), key);
+    const first = encrypted.slice(HEADER_SIZE, HEADER_SIZE + STORED_SEGMENT_SIZE);
+    const second = encrypted.slice(HEADER_SIZE + STORED_SEGMENT_SIZE, HEADER_SIZE + 2 * STORED_SEGMENT_SIZE);
+    const reordered = encrypted.slice();
+    reordered.set(second, HEADER_SIZE);
+    reordered.set(first, HEADER_SIZE + STORED_SEGMENT_SIZE);
+
+    await expect(decrypt(reordered, key)).rejects.toThrow(DecryptionError);
+  });
+
+  it('rejects a header with any other segment size', async () => {
+    const key = await generateFileKey();
+    const encrypted = await encrypt(sampleBytes(1000), key);
+    new DataView(encrypted.buffer).setUint32(5, 0xffffffff);
+
+    await expect(decrypt(encrypted, key)).rejects.toThrow('not in a supported encrypted format');
+  });
+
+  it('rejects a malformed key', async () => {
+    await expect(importFileKey('not a key')).rejects.toThrow(DecryptionError);
+  });
+
+  it('reads a pasted key on its own or from a link', () => {
+    expect(keyFromInput(' abc-123_ ')).toBe('abc-123_');
+    expect(keyFromInput('https://example.com/s/token#key=abc-123_')).toBe('abc-123_');
+    expect(keyFromInput('https://example.com/s/token#other=1')).toBeNull();
+    expect(keyFromInput('  ')).toBeNull();
+  });
+});
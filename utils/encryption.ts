@@ -0,0 +1,223 @@
+// Client-side AES-GCM encryption for uploads. The key never leaves the
+// browser except inside the share link's URL fragment, which browsers do not
+// send to servers.
+//
+// Encrypted files are split into segments so they can be decrypted while
+// streaming. Layout:
+//   header:  "OFSE" | version (1 byte) | segment size (uint32) | nonce prefix (8 bytes)
+//   segment: AES-GCM ciphertext of up to `segment size` bytes plus a 16-byte tag
+// Each segment's IV is the nonce prefix followed by its index, and its
+// additional data is the header plus a final-segment flag, so reordered,
+// truncated or spliced files fail to decrypt.
+
+const MAGIC = [0x4f, 0x46, 0x53, 0x45]; // "OFSE"
+const VERSION = 1;
+const HEADER_SIZE = 17;
+const TAG_SIZE = 16;
+const SEGMENT_SIZE = 1024 * 1024; // 1MB of plaintext per segment
+
+// What sniffing an encrypted file's header reports it as
+export const ENCRYPTED_FILE_TYPE = 'application/x-ofss-encrypted';
+
+// The size of the original file, worked out from its encrypted size
+export const plaintextSize = (encryptedSize: number) => {
+  const body = Math.max(0, encryptedSize - HEADER_SIZE);
+  const segments = Math.max(1, Math.ceil(body / (SEGMENT_SIZE + TAG_SIZE)));
+  return Math.max(0, body - segments * TAG_SIZE);
+};
+
+// The size of a file once encrypted, the other way round
+export const encryptedSize = (size: number) =>
+  HEADER_SIZE + size + Math.max(1, Math.ceil(size / SEGMENT_SIZE)) * TAG_SIZE;
+
+export class DecryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecryptionError';
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+const fromBase64Url = (value: string) => {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+};
+
+export const generateFileKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+// Keys travel as base64url in the link fragment: /files/<id>#key=<key>
+export const exportFileKey = async (key: CryptoKey) =>
+  toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+
+// New versions of an encrypted file reuse its key, so existing links still
+// open them; that needs an encrypt key
+export const importFileKey = async (
+  value: string,
+  usages: KeyUsage[] = ['decrypt']
+): Promise<CryptoKey> => {
+  try {
+    return await crypto.subtle.importKey('raw', fromBase64Url(value), 'AES-GCM', false, usages);
+  } catch {
+    throw new DecryptionError('The decryption key in this link is malformed. Check that the whole link was copied.');
+  }
+};
+
+export const keyFromLocationHash = (): string | null =>
+  new URLSearchParams(window.location.hash.slice(1)).get('key');
+
+export const withKeyFragment = (url: string, key: string) => `${url}#key=${key}`;
+
+// The uploader is shown the key once and nothing stores it, so anyone
+// opening an encrypted file from the file list pastes either the key or a
+// link that carries it
+export const keyFromInput = (input: string): string | null => {
+  const value = input.trim();
+  const hash = value.indexOf('#');
+  return (hash >= 0 ? new URLSearchParams(value.slice(hash + 1)).get('key') : value) || null;
+};
+
+export const askForFileKey = (fileName: string): string | null => {
+  const input = window.prompt(`"${fileName}" is encrypted. Paste its key or a link that includes it.`);
+  return input ? keyFromInput(input) : null;
+};
+
+const buildHeader = (noncePrefix: Uint8Array) => {
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(MAGIC, 0);
+  header[4] = VERSION;
+  new DataView(header.buffer).setUint32(5, SEGMENT_SIZE);
+  header.set(noncePrefix, 9);
+  return header;
+};
+
+const segmentIv = (header: Uint8Array, index: number) => {
+  const iv = new Uint8Array(12);
+  iv.set(header.subarray(9, 17), 0);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+};
+
+const segmentAad = (header: Uint8Array, final: boolean) => {
+  const aad = new Uint8Array(HEADER_SIZE + 1);
+  aad.set(header, 0);
+  aad[HEADER_SIZE] = final ? 1 : 0;
+  return aad;
+};
+
+// Encrypt a file segment by segment. The result keeps the original name but
+// is opaque bytes to the storage backend.
+export const encryptFile = async (file: File, key: CryptoKey): Promise<File> => {
+  const header = buildHeader(crypto.getRandomValues(new Uint8Array(8)));
+  const parts: BlobPart[] = [header];
+  const segments = Math.max(1, Math.ceil(file.size / SEGMENT_SIZE));
+
+  for (let index = 0; index < segments; index++) {
+    const plaintext = await file.slice(index * SEGMENT_SIZE, (index + 1) * SEGMENT_SIZE).arrayBuffer();
+    parts.push(await crypto.subtle.encrypt(
+      {
+        name: 'AES-GCM',
+        iv: segmentIv(header, index),
+        additionalData: segmentAad(header, index === segments - 1)
+      },
+      key,
+      plaintext
+    ));
+  }
+
+  return new File(parts, file.name, { type: 'application/octet-stream' });
+};
+
+// Collects incoming chunks and hands out exact-size slices without
+// re-copying the whole buffer on every chunk
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  length = 0;
+
+  push(chunk: Uint8Array) {
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  take(size: number) {
+    const result = new Uint8Array(size);
+    let offset = 0;
+    while (offset < size) {
+      const chunk = this.chunks[0];
+      const count = Math.min(chunk.length, size - offset);
+      result.set(chunk.subarray(0, count), offset);
+      offset += count;
+      if (count === chunk.length) {
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(count);
+      }
+    }
+    this.length -= size;
+    return result;
+  }
+}
+
+// Decrypt a stream produced by encryptFile, emitting plaintext segment by segment
+export const createDecryptionStream = (key: CryptoKey): TransformStream<Uint8Array, Uint8Array> => {
+  const queue = new ByteQueue();
+  let header: Uint8Array | null = null;
+  let segmentSize = 0;
+  let index = 0;
+
+  const decryptSegment = async (final: boolean, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const ciphertext = queue.take(final ? queue.length : segmentSize);
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        {
+          name: 'AES-GCM',
+          iv: segmentIv(header!, index),
+          additionalData: segmentAad(header!, final)
+        },
+        key,
+        ciphertext
+      );
+      controller.enqueue(new Uint8Array(plaintext));
+      index++;
+    } catch {
+      throw new DecryptionError('This file could not be decrypted. The key in the link is wrong or the file is damaged.');
+    }
+  };
+
+  return new TransformStream({
+    async transform(chunk, controller) {
+      queue.push(chunk);
+
+      if (!header) {
+        if (queue.length < HEADER_SIZE) return;
+        header = queue.take(HEADER_SIZE);
+        if (MAGIC.some((byte, i) => header![i] !== byte) || header[4] !== VERSION) {
+          throw new DecryptionError('This file is not in a supported encrypted format.');
+        }
+        // The header is untrusted, and a huge segment size would have us
+        // buffer the whole download before decrypting any of it
+        if (new DataView(header.buffer).getUint32(5) !== SEGMENT_SIZE) {
+          throw new DecryptionError('This file is not in a supported encrypted format.');
+        }
+        segmentSize = SEGMENT_SIZE + TAG_SIZE;
+      }
+
+      // Hold back the last full segment until we know whether more data follows
+      while (queue.length > segmentSize) {
+        await decryptSegment(false, controller);
+      }
+    },
+
+    async flush(controller) {
+      if (!header || queue.length < TAG_SIZE) {
+        throw new DecryptionError('This encrypted file is incomplete.');
+      }
+      await decryptSegment(true, controller);
+    }
+  });
+};
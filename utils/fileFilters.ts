@@ -0,0 +1,164 @@
+import { FileRecord, SortDirection, SortOption } from '@/types';
+
+export type FileTypeFilter = 'all' | 'image' | 'video' | 'audio' | 'document' | 'archive' | 'other';
+export type FileStatusFilter = 'all' | 'expiring';
+
+// What the file list toolbar narrows and orders the list by. Sizes are in
+// bytes; `to` includes the whole day it falls on.
+export interface FileFilters {
+  query: string;
+  type: FileTypeFilter;
+  status: FileStatusFilter;
+  minSize?: number;
+  maxSize?: number;
+  from?: Date;
+  to?: Date;
+  sort: SortOption;
+  direction: SortDirection;
+}
+
+export const DEFAULT_FILE_FILTERS: FileFilters = {
+  query: '',
+  type: 'all',
+  status: 'all',
+  sort: 'date',
+  direction: 'desc'
+};
+
+export const FILE_TYPE_LABELS: Record<FileTypeFilter, string> = {
+  all: 'All types',
+  image: 'Images',
+  video: 'Videos',
+  audio: 'Audio',
+  document: 'Documents',
+  archive: 'Archives',
+  other: 'Other'
+};
+
+export const FILE_STATUS_LABELS: Record<FileStatusFilter, string> = {
+  all: 'Any status',
+  expiring: 'Expiring'
+};
+
+export const SORT_LABELS: Record<SortOption, string> = {
+  name: 'Name',
+  size: 'Size',
+  type: 'Type',
+  date: 'Upload date'
+};
+
+const DOCUMENT_TYPES = ['application/pdf', 'application/msword', 'application/rtf', 'application/vnd.'];
+const ARCHIVE_TYPES = [
+  'application/zip',
+  'application/gzip',
+  'application/x-tar',
+  'application/x-7z-compressed',
+  'application/x-rar-compressed',
+  'application/vnd.rar'
+];
+
+export const getFileTypeGroup = (type: string): Exclude<FileTypeFilter, 'all'> => {
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (ARCHIVE_TYPES.includes(type)) return 'archive';
+  if (type.startsWith('text/') || DOCUMENT_TYPES.some(prefix => type.startsWith(prefix))) return 'document';
+  return 'other';
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+export const matchesFileFilters = (file: FileRecord, filters: FileFilters): boolean => {
+  const query = filters.query.trim().toLowerCase();
+  if (query && !file.name.toLowerCase().includes(query)) return false;
+  if (filters.type !== 'all' && getFileTypeGroup(file.type) !== filters.type) return false;
+  if (filters.minSize !== undefined && file.size < filters.minSize) return false;
+  if (filters.maxSize !== undefined && file.size > filters.maxSize) return false;
+  if (filters.from && file.uploadedAt < filters.from) return false;
+  if (filters.to && file.uploadedAt.getTime() >= filters.to.getTime() + DAY_MS) return false;
+
+  switch (filters.status) {
+    case 'expiring':
+      return !!file.expiresAt;
+    default:
+      return true;
+  }
+};
+
+const compareFiles = (a: FileRecord, b: FileRecord, sort: SortOption): number => {
+  switch (sort) {
+    case 'name':
+      return a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+    case 'size':
+      return a.size - b.size;
+    case 'type':
+      return a.type.localeCompare(b.type) || a.name.localeCompare(b.name);
+    case 'date':
+      return a.uploadedAt.getTime() - b.uploadedAt.getTime();
+  }
+};
+
+export const sortFiles = (files: FileRecord[], sort: SortOption, direction: SortDirection): FileRecord[] => {
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...files].sort((a, b) => sign * compareFiles(a, b, sort));
+};
+
+export const applyFileFilters = (files: FileRecord[], filters: FileFilters): FileRecord[] =>
+  sortFiles(files.filter(file => matchesFileFilters(file, filters)), filters.sort, filters.direction);
+
+export const hasActiveFilters = (filters: FileFilters) =>
+  !!filters.query.trim()
+  || filters.type !== 'all'
+  || filters.status !== 'all'
+  || filters.minSize !== undefined
+  || filters.maxSize !== undefined
+  || !!filters.from
+  || !!filters.to;
+
+// Filters live in the query string so a view can be bookmarked or shared:
+// ?q=report&type=document&status=expiring&minMb=1&maxMb=20&from=2024-01-01&to=2024-06-30&sort=size&dir=asc
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10);
+
+const fromDateParam = (value: string | null) => {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const fromSizeParam = (value: string | null) => {
+  const megabytes = value === null || value === '' ? NaN : Number(value);
+  return Number.isFinite(megabytes) && megabytes >= 0 ? Math.round(megabytes * MB) : undefined;
+};
+
+const oneOf = <T extends string>(value: string | null, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value as T) ? (value as T) : fallback;
+
+export const filtersFromSearchParams = (params: URLSearchParams): FileFilters => ({
+  query: params.get('q') || '',
+  type: oneOf(params.get('type'), Object.keys(FILE_TYPE_LABELS) as FileTypeFilter[], 'all'),
+  status: oneOf(params.get('status'), Object.keys(FILE_STATUS_LABELS) as FileStatusFilter[], 'all'),
+  minSize: fromSizeParam(params.get('minMb')),
+  maxSize: fromSizeParam(params.get('maxMb')),
+  from: fromDateParam(params.get('from')),
+  to: fromDateParam(params.get('to')),
+  sort: oneOf(params.get('sort'), Object.keys(SORT_LABELS) as SortOption[], DEFAULT_FILE_FILTERS.sort),
+  direction: oneOf(params.get('dir'), ['asc', 'desc'] as const, DEFAULT_FILE_FILTERS.direction)
+});
+
+// Only non-default values are written, and params that are not ours are kept
+export const filtersToSearchParams = (filters: FileFilters, base?: URLSearchParams): URLSearchParams => {
+  const params = new URLSearchParams(base);
+  const set = (key: string, value: string | undefined) => (value ? params.set(key, value) : params.delete(key));
+
+  set('q', filters.query.trim() || undefined);
+  set('type', filters.type !== 'all' ? filters.type : undefined);
+  set('status', filters.status !== 'all' ? filters.status : undefined);
+  set('minMb', filters.minSize !== undefined ? String(filters.minSize / MB) : undefined);
+  set('maxMb', filters.maxSize !== undefined ? String(filters.maxSize / MB) : undefined);
+  set('from', filters.from && toDateParam(filters.from));
+  set('to', filters.to && toDateParam(filters.to));
+  set('sort', filters.sort !== DEFAULT_FILE_FILTERS.sort ? filters.sort : undefined);
+  set('dir', filters.direction !== DEFAULT_FILE_FILTERS.direction ? filters.direction : undefined);
+  return params;
+};
@@ -0,0 +1,119 @@
+// A small syntax highlighter for text previews. It only tells comments,
+// strings, numbers and keywords apart, which is enough to make code readable
+// without shipping a full grammar for every language.
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'tag';
+
+export interface HighlightToken {
+  text: string;
+  kind?: TokenKind; // Plain text when unset
+}
+
+type Rule = [TokenKind, RegExp];
+
+const words = (list: string) => new RegExp(`\\b(?:${list.split(' ').join('|')})\\b`);
+
+const NUMBER: Rule = ['number', /\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/];
+const DOUBLE_QUOTED: Rule = ['string', /"(?:[^"\\\n]|\\.)*"/];
+const SINGLE_QUOTED: Rule = ['string', /'(?:[^'\\\n]|\\.)*'/];
+const SLASH_COMMENTS: Rule[] = [['comment', /\/\/[^\n]*/], ['comment', /\/\*[\s\S]*?\*\//]];
+const HASH_COMMENT: Rule = ['comment', /#[^\n]*/];
+
+const C_LIKE_KEYWORDS = 'if else for while do switch case default break continue return new delete try catch finally throw '
+  + 'class struct enum interface extends implements public private protected static const void int long float double '
+  + 'char bool boolean true false null this super import package namespace using var func fn let mut impl trait pub '
+  + 'match use mod type go defer chan map range select nil';
+
+const JS_KEYWORDS = 'const let var function return if else for while do switch case default break continue new delete '
+  + 'typeof instanceof in of try catch finally throw class extends super this import export from as async await yield '
+  + 'true false null undefined void interface type enum implements public private protected readonly static';
+
+const LANGUAGES: Record<string, Rule[]> = {
+  javascript: [...SLASH_COMMENTS, DOUBLE_QUOTED, SINGLE_QUOTED, ['string', /`(?:[^`\\]|\\.)*`/], ['keyword', words(JS_KEYWORDS)], NUMBER],
+  json: [['keyword', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/], DOUBLE_QUOTED, ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/], ['keyword', words('true false null')]],
+  python: [HASH_COMMENT, ['string', /"""[\s\S]*?"""|'''[\s\S]*?'''/], DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', words(
+    'def class return if elif else for while in not and or is import from as with try except finally raise pass break '
+    + 'continue lambda yield global nonlocal async await True False None self'
+  )], NUMBER],
+  ruby: [HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', words(
+    'def class module end if elsif else unless while until for in do return yield begin rescue ensure raise self nil true false require'
+  )], NUMBER],
+  c: [...SLASH_COMMENTS, DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', words(C_LIKE_KEYWORDS)], NUMBER],
+  php: [...SLASH_COMMENTS, HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', words(
+    'function return if else elseif foreach for while as new class public private protected static echo null true false use namespace'
+  )], NUMBER],
+  shell: [HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', words(
+    'if then else elif fi for while do done case esac function return export local in echo exit'
+  )], NUMBER],
+  yaml: [HASH_COMMENT, DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', /^[ \t-]*[\w.-]+(?=\s*[:=])/m], ['keyword', words('true false null yes no')], NUMBER],
+  sql: [['comment', /--[^\n]*/], SINGLE_QUOTED, DOUBLE_QUOTED, ['keyword', new RegExp(`\\b(?:${(
+    'select from where and or not insert into values update set delete create table drop alter index join left right '
+    + 'inner outer on group by order having limit offset as distinct null is in like primary key references default'
+  ).split(' ').join('|')})\\b`, 'i')], NUMBER],
+  css: [['comment', /\/\*[\s\S]*?\*\//], DOUBLE_QUOTED, SINGLE_QUOTED, ['keyword', /[\w-]+(?=\s*:)/], ['number', /-?\b\d+(?:\.\d+)?(?:px|em|rem|%|vh|vw|s|ms)?\b/]],
+  markup: [['comment', /<!--[\s\S]*?-->/], ['tag', /<\/?[A-Za-z][\w:.-]*|\/?>/], DOUBLE_QUOTED, SINGLE_QUOTED]
+};
+LANGUAGES.typescript = LANGUAGES.javascript;
+LANGUAGES.go = LANGUAGES.c;
+LANGUAGES.rust = LANGUAGES.c;
+LANGUAGES.java = LANGUAGES.c;
+
+// Names Markdown code fences commonly use
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  jsx: 'javascript',
+  ts: 'javascript',
+  tsx: 'javascript',
+  py: 'python',
+  rb: 'ruby',
+  sh: 'shell',
+  bash: 'shell',
+  yml: 'yaml',
+  html: 'markup',
+  xml: 'markup',
+  cpp: 'c',
+  csharp: 'c',
+  rs: 'rust'
+};
+
+// Combine a language's rules into one pattern, one capturing group per rule,
+// so the text is scanned once. Earlier rules win where matches overlap.
+const patterns: Record<string, RegExp> = {};
+const patternFor = (language: string, rules: Rule[]) => {
+  if (!patterns[language]) {
+    const flags = rules.some(([, rule]) => rule.flags.includes('i')) ? 'gim' : 'gm';
+    patterns[language] = new RegExp(rules.map(([, rule]) => `(${rule.source})`).join('|'), flags);
+  }
+  return patterns[language];
+};
+
+export const highlightCode = (code: string, language: string): HighlightToken[] => {
+  const name = ALIASES[language] || language;
+  const rules = LANGUAGES[name];
+  if (!rules) {
+    return [{ text: code }];
+  }
+
+  const pattern = patternFor(name, rules);
+  const tokens: HighlightToken[] = [];
+  let position = 0;
+  pattern.lastIndex = 0;
+
+  for (let match = pattern.exec(code); match; match = pattern.exec(code)) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > position) {
+      tokens.push({ text: code.slice(position, match.index) });
+    }
+    const rule = match.findIndex((group, index) => index > 0 && group !== undefined) - 1;
+    tokens.push({ text: match[0], kind: rules[rule][0] });
+    position = match.index + match[0].length;
+  }
+
+  if (position < code.length) {
+    tokens.push({ text: code.slice(position) });
+  }
+  return tokens;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { MarkdownInline, parseInline, parseMarkdown } from '@/utils/markdown';
+
+// The text a list of nodes shows, with links marked so they can't go unnoticed
+const render = (nodes: MarkdownInline[]): string => nodes.map(node => {
+  if (node.type === 'text' || node.type === 'code') return node.text;
+  if (node.type === 'link') return `<a href="${node.href}">${render(node.children)}</a>`;
+  return render(node.children);
+}).join('');
+
+describe('parseInline', () => {
+  it('parses code, emphasis and links', () => {
+    expect(parseInline('a `b` **c** *d* [e](https://example.com)')).toEqual([
+      { type: 'text', text: 'a ' },
+      { type: 'code', text: 'b' },
+      { type: 'text', text: ' ' },
+      { type: 'strong', children: [{ type: 'text', text: 'c' }] },
+      { type: 'text', text: ' ' },
+      { type: 'em', children: [{ type: 'text', text: 'd' }] },
+      { type: 'text', text: ' ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'e' }] }
+    ]);
+  });
+
+  it.each([
+    'https://example.com/page',
+    'http://example.com',
+    'mailto:someone@example.com',
+    '#section',
+    '/files/abc'
+  ])('links to %s', (href) => {
+    expect(parseInline(`[link](${href})`)).toEqual([
+      { type: 'link', href, children: [{ type: 'text', text: 'link' }] }
+    ]);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    'data:text/html,<script>alert(1)</script>',
+    'vbscript:msgbox',
+    '//evil.example.com',
+    'relative/path'
+  ])('shows a link to %s as text', (href) => {
+    expect(render(parseInline(`[link](${href})`))).toBe(`[link](${href})`);
+  });
+
+  it('treats images like links, with the same checks', () => {
+    expect(render(parseInline('![alt](javascript:void(0))'))).toBe('![alt](javascript:void(0))');
+    expect(parseInline('![alt](https://example.com/a.png)')[0]).toMatchObject({ type: 'link', href: 'https://example.com/a.png' });
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('keeps raw HTML as text', () => {
+    expect(parseMarkdown('<script>alert(1)</script>')).toEqual([
+      { type: 'paragraph', content: [{ type: 'text', text: '<script>alert(1)</script>' }] }
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+// Parse the common subset of Markdown into a tree the preview renders as
+// React elements. Raw HTML in the source is shown as text, never rendered.
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; children: MarkdownInline[] }
+  | { type: 'em'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; content: MarkdownInline[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'quote'; blocks: MarkdownBlock[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'table'; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: 'rule' };
+
+// Links only go to web pages, mail addresses and anchors in the document
+const SAFE_HREF = /^(?:https?:|mailto:|#|\/(?!\/))/i;
+
+// Code spans, bold, italics and links (images are shown as links)
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b|!?\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/;
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  let rest = text;
+
+  for (let match = INLINE.exec(rest); match; match = INLINE.exec(rest)) {
+    if (match.index > 0) {
+      nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+    }
+
+    const [whole, code, strong, strongAlt, em, emAlt, label, href] = match;
+    if (code !== undefined) {
+      nodes.push({ type: 'code', text: code });
+    } else if (strong !== undefined || strongAlt !== undefined) {
+      nodes.push({ type: 'strong', children: parseInline(strong ?? strongAlt) });
+    } else if (em !== undefined || emAlt !== undefined) {
+      nodes.push({ type: 'em', children: parseInline(em ?? emAlt) });
+    } else if (SAFE_HREF.test(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(label || href) });
+    } else {
+      nodes.push({ type: 'text', text: whole });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  if (rest) {
+    nodes.push({ type: 'text', text: rest });
+  }
+  return nodes;
+};
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitRow = (line: string) =>
+  line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => parseInline(cell.trim()));
+
+// Lines that end a paragraph without a blank line
+const startsBlock = (line: string, next?: string) =>
+  FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line)
+  || (line.includes('|') && next !== undefined && TABLE_DIVIDER.test(next));
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Past the closing fence
+      blocks.push({ type: 'code', language: fence[2].toLowerCase(), text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(QUOTE.exec(lines[i])![1]);
+        i++;
+      }
+      blocks.push({ type: 'quote', blocks: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      // Nested items are flattened into the list they start in
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const next = LIST_ITEM.exec(lines[i]);
+        if (next) {
+          items.push(next[2]);
+        } else if (startsBlock(lines[i], lines[i + 1])) {
+          break;
+        } else {
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    if (line.includes('|') && TABLE_DIVIDER.test(lines[i + 1] || '')) {
+      const header = splitRow(line);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|')) {
+        rows.push(splitRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && (paragraph.length === 0 || !startsBlock(lines[i], lines[i + 1]))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { assertCan, can, FileAction, getFileRole } from '@/utils/permissions';
+import { FileRecord } from '@/types';
+
+const file = {
+  userId: 'owner',
+  collaborators: [
+    { email: 'viewer@example.com', role: 'viewer', addedAt: new Date() },
+    { email: 'commenter@example.com', role: 'commenter', addedAt: new Date() },
+    { email: 'editor@example.com', role: 'editor', addedAt: new Date() },
+    { email: 'co-owner@example.com', role: 'co-owner', addedAt: new Date() }
+  ]
+} as FileRecord;
+
+const actor = (email: string | null, uid = 'someone-else') => ({ uid, email });
+
+const ACTIONS: FileAction[] = ['view', 'comment', 'edit', 'share', 'delete'];
+
+const allowed = (who: ReturnType<typeof actor> | null) => ACTIONS.filter(action => can(file, who, action));
+
+describe('getFileRole', () => {
+  it('finds the owner by uid', () => {
+    expect(getFileRole(file, actor(null, 'owner'))).toBe('owner');
+  });
+
+  it('finds collaborators by email, whatever its case or spacing', () => {
+    expect(getFileRole(file, actor(' Editor@Example.COM '))).toBe('editor');
+  });
+
+  it('gives nobody else a role', () => {
+    expect(getFileRole(file, actor('stranger@example.com'))).toBeNull();
+    expect(getFileRole(file, actor(null))).toBeNull();
+    expect(getFileRole(file, null)).toBeNull();
+  });
+});
+
+describe('can', () => {
+  it('lets each role do what it grants and no more', () => {
+    expect(allowed(actor(null, 'owner'))).toEqual(['view', 'comment', 'edit', 'share', 'delete']);
+    expect(allowed(actor('co-owner@example.com'))).toEqual(['view', 'comment', 'edit', 'share', 'delete']);
+    expect(allowed(actor('editor@example.com'))).toEqual(['view', 'comment', 'edit']);
+    expect(allowed(actor('commenter@example.com'))).toEqual(['view', 'comment']);
+    expect(allowed(actor('viewer@example.com'))).toEqual(['view']);
+    expect(allowed(actor('stranger@example.com'))).toEqual([]);
+    expect(allowed(null)).toEqual([]);
+  });
+});
+
+describe('assertCan', () => {
+  it('throws with the action in the message', () => {
+    expect(() => assertCan(file, actor('viewer@example.com'), 'edit'))
+      .toThrow('You do not have permission to edit this file');
+    expect(() => assertCan(file, actor('viewer@example.com'), 'comment'))
+      .toThrow('You do not have permission to comment on this file');
+    expect(() => assertCan(file, actor('viewer@example.com'), 'view')).not.toThrow();
+  });
+});
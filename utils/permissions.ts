@@ -0,0 +1,54 @@
+import { Actor, FileRecord, FileRole } from '@/types';
+
+// Everything a user can do to a file, from least to most trusted
+export type FileAction = 'view' | 'comment' | 'edit' | 'share' | 'delete';
+
+export const FILE_ROLES: FileRole[] = ['viewer', 'commenter', 'editor', 'co-owner'];
+
+export const ROLE_LABELS: Record<FileRole | 'owner', string> = {
+  viewer: 'Viewer',
+  commenter: 'Commenter',
+  editor: 'Editor',
+  'co-owner': 'Co-owner',
+  owner: 'Owner'
+};
+
+// viewer: open and download. commenter: also comment. editor: also rename,
+// move and replace contents. co-owner: also manage people and links, and delete.
+const ROLE_ACTIONS: Record<FileRole | 'owner', FileAction[]> = {
+  viewer: ['view'],
+  commenter: ['view', 'comment'],
+  editor: ['view', 'comment', 'edit'],
+  'co-owner': ['view', 'comment', 'edit', 'share', 'delete'],
+  owner: ['view', 'comment', 'edit', 'share', 'delete']
+};
+
+// Emails are compared case-insensitively everywhere
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// The actor's relationship to a file, or null when they have none
+export const getFileRole = (
+  file: FileRecord,
+  actor: Actor | null | undefined
+): FileRole | 'owner' | null => {
+  if (!actor) return null;
+  if (file.userId === actor.uid) return 'owner';
+  if (!actor.email) return null;
+
+  const email = normalizeEmail(actor.email);
+  return file.collaborators.find(collaborator => collaborator.email === email)?.role || null;
+};
+
+export const can = (file: FileRecord, actor: Actor | null | undefined, action: FileAction): boolean => {
+  const role = getFileRole(file, actor);
+  return !!role && ROLE_ACTIONS[role].includes(action);
+};
+
+export const permissionDeniedMessage = (action: FileAction) =>
+  `You do not have permission to ${action === 'comment' ? 'comment on' : action} this file`;
+
+export const assertCan = (file: FileRecord, actor: Actor | null | undefined, action: FileAction) => {
+  if (!can(file, actor, action)) {
+    throw new Error(permissionDeniedMessage(action));
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { csvDelimiter, parseCsv } from '@/utils/preview';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('a,b,c\n1,2,3')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('handles CRLF line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps delimiters, newlines and doubled quotes inside quoted cells', () => {
+    expect(parseCsv('"a,b","line 1\nline 2","say ""hi"""\n')).toEqual([['a,b', 'line 1\nline 2', 'say "hi"']]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,,c\n,,')).toEqual([['a', '', 'c'], ['', '', '']]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a\tb,c\n', '\t')).toEqual([['a', 'b,c']]);
+  });
+
+  it('stops after maxRows rows', () => {
+    expect(parseCsv('1\n2\n3\n4', ',', 2)).toEqual([['1'], ['2']]);
+  });
+});
+
+describe('csvDelimiter', () => {
+  it('uses tabs for TSV files', () => {
+    expect(csvDelimiter({ name: 'data.tsv', type: '' })).toBe('\t');
+    expect(csvDelimiter({ name: 'data', type: 'text/tab-separated-values' })).toBe('\t');
+    expect(csvDelimiter({ name: 'data.csv', type: 'text/csv' })).toBe(',');
+  });
+});
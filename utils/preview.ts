@@ -0,0 +1,156 @@
+import { FileRecord } from '@/types';
+
+// What the preview pane can show, decided from a file's type and name. Files
+// of any other kind can only be downloaded.
+export type PreviewKind = 'image' | 'pdf' | 'video' | 'audio' | 'markdown' | 'csv' | 'text';
+
+const MB = 1024 * 1024;
+
+// Text is read into the page whole, so larger files are download only
+export const MAX_TEXT_PREVIEW_BYTES = 2 * MB;
+
+// Encrypted files and PDFs are held in memory while previewed. Larger PDFs
+// are streamed instead; larger encrypted files can't be previewed.
+export const MAX_BUFFERED_PREVIEW_BYTES = 50 * MB;
+
+// Only this many CSV rows are rendered
+export const MAX_CSV_PREVIEW_ROWS = 1000;
+
+// Formats every current browser renders
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml', 'image/avif', 'image/bmp'];
+const VIDEO_TYPES = ['video/mp4', 'video/webm', 'video/ogg'];
+const AUDIO_TYPES = ['audio/mpeg', 'audio/mp3', 'audio/ogg', 'audio/wav', 'audio/x-wav', 'audio/webm', 'audio/flac', 'audio/aac', 'audio/mp4'];
+
+const TEXT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/typescript',
+  'application/x-sh',
+  'application/x-yaml',
+  'application/yaml',
+  'application/sql',
+  'application/toml'
+];
+
+// Extensions shown as code, and the language they are highlighted as
+const CODE_LANGUAGES: Record<string, string> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.json': 'json',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.go': 'go',
+  '.rs': 'rust',
+  '.java': 'java',
+  '.kt': 'java',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'c',
+  '.hpp': 'c',
+  '.cs': 'c',
+  '.php': 'php',
+  '.sh': 'shell',
+  '.bash': 'shell',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.toml': 'yaml',
+  '.ini': 'yaml',
+  '.sql': 'sql',
+  '.css': 'css',
+  '.scss': 'css',
+  '.html': 'markup',
+  '.htm': 'markup',
+  '.xml': 'markup',
+  '.svg': 'markup',
+  '.txt': 'plain',
+  '.log': 'plain'
+};
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+export const getPreviewKind = (file: Pick<FileRecord, 'name' | 'type'>): PreviewKind | null => {
+  const type = file.type.toLowerCase();
+  const extension = extensionOf(file.name);
+
+  if (type === 'text/markdown' || extension === '.md' || extension === '.markdown') return 'markdown';
+  if (type === 'text/csv' || type === 'text/tab-separated-values' || extension === '.csv' || extension === '.tsv') return 'csv';
+  if (IMAGE_TYPES.includes(type)) return 'image';
+  if (type === 'application/pdf' || extension === '.pdf') return 'pdf';
+  if (VIDEO_TYPES.includes(type)) return 'video';
+  if (AUDIO_TYPES.includes(type)) return 'audio';
+  if (type.startsWith('text/') || TEXT_TYPES.includes(type) || extension in CODE_LANGUAGES) return 'text';
+  return null;
+};
+
+// Kinds whose contents are read into the page rather than pointed at
+export const isTextPreview = (kind: PreviewKind) => kind === 'text' || kind === 'markdown' || kind === 'csv';
+
+// The highlighting language for a text file, or 'plain'
+export const getCodeLanguage = (file: Pick<FileRecord, 'name' | 'type'>): string => {
+  const language = CODE_LANGUAGES[extensionOf(file.name)];
+  if (language) return language;
+
+  const type = file.type.toLowerCase();
+  if (type.includes('json')) return 'json';
+  if (type.includes('javascript')) return 'javascript';
+  if (type.includes('typescript')) return 'typescript';
+  if (type.includes('xml') || type === 'text/html') return 'markup';
+  if (type.includes('yaml')) return 'yaml';
+  if (type === 'text/css') return 'css';
+  return 'plain';
+};
+
+// Split CSV (or TSV) text into rows of cells. Quoted cells may contain the
+// delimiter, newlines and doubled quotes. Stops after maxRows rows.
+export const parseCsv = (text: string, delimiter = ',', maxRows = Infinity): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length && rows.length < maxRows; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  // The last row, unless the text ended with a newline
+  if ((cell !== '' || row.length > 0) && rows.length < maxRows) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+export const csvDelimiter = (file: Pick<FileRecord, 'name' | 'type'>) =>
+  file.type === 'text/tab-separated-values' || extensionOf(file.name) === '.tsv' ? '\t' : ',';
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest';
+import {
+  availableUntil,
+  DEFAULT_STORAGE_LIMIT,
+  FILE_SCHEMA_VERSION,
+  parseFileRecord,
+  parseUserProfile,
+  SchemaValidationError,
+  toFileDocument,
+  USER_SCHEMA_VERSION
+} from '@/utils/schema';
+
+const uploadedAt = new Date('2024-01-02T03:04:05Z');
+
+const currentDocument = (changes: Record<string, any> = {}) => ({
+  schemaVersion: FILE_SCHEMA_VERSION,
+  userId: 'owner',
+  name: 'report.pdf',
+  size: 1024,
+  type: 'application/pdf',
+  storageProvider: 'local',
+  storageKey: 'owner/report.pdf',
+  downloadCount: 0,
+  parentFolderId: null,
+  collaborators: [],
+  sharedWith: [],
+  uploadedAt,
+  updatedAt: uploadedAt,
+  ...changes
+});
+
+describe('parseFileRecord', () => {
+  it('upgrades a Cloudinary-era document and drops its stored URL', () => {
+    const record = parseFileRecord('file-1', {
+      userId: 'owner',
+      publicId: 'uploads/abc',
+      secureUrl: 'https://res.cloudinary.com/demo/abc',
+      originalFilename: 'photo.jpg',
+      size: '2048',
+      fileType: 'image/jpeg',
+      sharedWith: ['Friend@Example.com'],
+      createdAt: uploadedAt.toISOString()
+    });
+
+    expect(record).toMatchObject({
+      id: 'file-1',
+      schemaVersion: FILE_SCHEMA_VERSION,
+      storageProvider: 'cloudinary',
+      storageKey: 'uploads/abc',
+      name: 'photo.jpg',
+      size: 2048,
+      type: 'image/jpeg',
+      sharedWith: ['friend@example.com'],
+      collaborators: [{ email: 'friend@example.com', role: 'viewer', addedAt: uploadedAt }],
+      uploadedAt,
+      updatedAt: uploadedAt
+    });
+    expect(record).not.toHaveProperty('secureUrl');
+  });
+
+  it('upgrades a Firebase Storage document', () => {
+    const record = parseFileRecord('file-2', {
+      ownerId: 'owner',
+      path: 'users/owner/notes.txt',
+      name: 'notes.txt',
+      size: 10,
+      type: 'text/plain',
+      hash: 'abc123',
+      createdAt: uploadedAt
+    });
+
+    expect(record).toMatchObject({
+      userId: 'owner',
+      storageProvider: 'firebase',
+      storageKey: 'users/owner/notes.txt',
+      hash: 'abc123'
+    });
+  });
+
+  it('drops the public flag and file password of older documents', () => {
+    const record = parseFileRecord('file-3', {
+      ...currentDocument(),
+      schemaVersion: 5,
+      isPublic: true,
+      isPasswordProtected: true,
+      password: '$2a$10$hash'
+    });
+
+    expect(record).not.toHaveProperty('isPublic');
+    expect(record).not.toHaveProperty('isPasswordProtected');
+    expect(record).not.toHaveProperty('password');
+  });
+
+  it('keeps commenters', () => {
+    const record = parseFileRecord('file-4', currentDocument({
+      collaborators: [{ email: 'friend@example.com', role: 'commenter', addedAt: uploadedAt }],
+      sharedWith: ['friend@example.com']
+    }));
+
+    expect(record.collaborators[0].role).toBe('commenter');
+  });
+
+  it('schedules pending files from before scan retries for the next scan', () => {
+    const record = parseFileRecord('file-5', { ...currentDocument(), schemaVersion: 4, scanStatus: 'pending' });
+
+    expect(record.nextScanAt).toEqual(uploadedAt);
+  });
+
+  it('drops the derived availableUntil from current documents', () => {
+    const record = parseFileRecord('file-6', currentDocument({ availableUntil: uploadedAt }));
+
+    expect(record).not.toHaveProperty('availableUntil');
+    expect(record.id).toBe('file-6');
+  });
+
+  it('rejects documents that are missing required fields', () => {
+    expect(() => parseFileRecord('file-7', currentDocument({ storageKey: '' })))
+      .toThrow(SchemaValidationError);
+  });
+});
+
+describe('parseUserProfile', () => {
+  it('upgrades the old userService shape', () => {
+    const profile = parseUserProfile('user-1', {
+      email: 'someone@example.com',
+      totalStorage: 5000,
+      usedStorage: 1200,
+      files: ['file-1'],
+      sharedFiles: [],
+      createdAt: uploadedAt
+    });
+
+    expect(profile).toMatchObject({
+      uid: 'user-1',
+      schemaVersion: USER_SCHEMA_VERSION,
+      usedStorage: 1200,
+      storageLimit: 5000,
+      isAdmin: false,
+      updatedAt: uploadedAt
+    });
+    expect(profile).not.toHaveProperty('files');
+  });
+
+  it('upgrades the old types shape', () => {
+    const profile = parseUserProfile('user-2', { id: 'user-2', email: 'other@example.com', storageUsed: '300' });
+
+    expect(profile.usedStorage).toBe(300);
+    expect(profile.storageLimit).toBe(DEFAULT_STORAGE_LIMIT);
+  });
+
+  it('rejects current profiles that are missing required fields', () => {
+    expect(() => parseUserProfile('user-3', { schemaVersion: USER_SCHEMA_VERSION, uid: 'user-3', email: 'a@example.com' }))
+      .toThrow(SchemaValidationError);
+  });
+});
+
+describe('availableUntil', () => {
+  const expiresAt = new Date('2030-01-01T00:00:00Z');
+  const deletedAt = new Date('2025-06-01T00:00:00Z');
+
+  it('is the trash date for trashed files, even ones that would expire', () => {
+    expect(availableUntil({ expiresAt, deletedAt })).toEqual(deletedAt);
+  });
+
+  it('is the expiry date for files that expire', () => {
+    expect(availableUntil({ expiresAt })).toEqual(expiresAt);
+  });
+
+  it('is far in the future for files that never expire', () => {
+    expect(availableUntil({}).getUTCFullYear()).toBe(9999);
+  });
+
+  it('is written to file documents', () => {
+    const { id, ...record } = parseFileRecord('file-8', currentDocument({ expiresAt }));
+    expect(toFileDocument(record).availableUntil).toEqual(expiresAt);
+  });
+});
@@ -0,0 +1,422 @@
+import {
+  Collaborator,
+  FileRecord,
+  FileVersion,
+  FolderMetadata,
+  ScanStatus,
+  ShareSettings,
+  StoredFileFields,
+  UserProfile
+} from '@/types';
+import { StorageProviderName } from '@/services/storage/types';
+import { FILE_ROLES, normalizeEmail } from '@/utils/permissions';
+
+export const FILE_SCHEMA_VERSION = 6;
+export const USER_SCHEMA_VERSION = 3;
+
+// Quota given to new accounts. Admins can change it per user afterwards.
+export const DEFAULT_STORAGE_LIMIT = (Number(process.env.NEXT_PUBLIC_DEFAULT_STORAGE_LIMIT_MB) || 1024) * 1024 * 1024;
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+// Versions kept per file, counting the current one. Older ones are deleted.
+export const MAX_FILE_VERSIONS = Number(process.env.NEXT_PUBLIC_MAX_FILE_VERSIONS) || 10;
+
+const STORAGE_PROVIDERS: StorageProviderName[] = ['cloudinary', 'firebase', 'local'];
+const SCAN_STATUSES: ScanStatus[] = ['pending', 'clean', 'quarantined', 'failed'];
+
+export class SchemaValidationError extends Error {
+  constructor(collection: string, id: string | undefined, public problems: string[]) {
+    super(`Invalid ${collection} document${id ? ` ${id}` : ''}: ${problems.join('; ')}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+// Convert a Firestore Timestamp (client or admin SDK), Date, string or number to a Date
+export const toDate = (value: any): Date | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value.toDate === 'function') return value.toDate();
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+// Firestore rejects undefined field values, and not every provider fills every field
+export const withoutUndefined = <T extends object>(data: T): T =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+
+type FieldCheck = [field: string, valid: (value: any) => boolean, expected: string];
+
+const isString = (value: any) => typeof value === 'string';
+const isNonEmptyString = (value: any) => typeof value === 'string' && value.length > 0;
+const isCount = (value: any) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isBoolean = (value: any) => typeof value === 'boolean';
+const isDate = (value: any) => value instanceof Date && !isNaN(value.getTime());
+const isVersionNumber = (value: any) => Number.isInteger(value) && value >= 1;
+const isScanStatus = (value: any) => SCAN_STATUSES.includes(value);
+const optional = (check: (value: any) => boolean) => (value: any) => value === undefined || check(value);
+
+const isCollaborator = (value: any) =>
+  !!value && isNonEmptyString(value.email) && FILE_ROLES.includes(value.role) && isDate(value.addedAt);
+
+const runChecks = (data: Record<string, any>, checks: FieldCheck[]) =>
+  checks
+    .filter(([field, valid]) => !valid(data[field]))
+    .map(([field, , expected]) => `${field} must be ${expected}`);
+
+const FILE_CHECKS: FieldCheck[] = [
+  ['schemaVersion', (value) => value === FILE_SCHEMA_VERSION, `${FILE_SCHEMA_VERSION}`],
+  ['userId', isNonEmptyString, 'a non-empty string'],
+  ['name', isNonEmptyString, 'a non-empty string'],
+  ['size', isCount, 'a non-negative number'],
+  ['type', isString, 'a string'],
+  ['storageProvider', (value) => STORAGE_PROVIDERS.includes(value), STORAGE_PROVIDERS.join(' | ')],
+  ['storageKey', isNonEmptyString, 'a non-empty string'],
+  ['deliveryType', optional(isString), 'a string'],
+  ['hash', optional(isString), 'a string'],
+  ['blobId', optional(isNonEmptyString), 'a blob id'],
+  ['scanStatus', optional(isScanStatus), SCAN_STATUSES.join(' | ')],
+  ['scanSignature', optional(isString), 'a string'],
+  ['scannedAt', optional(isDate), 'a date'],
+  ['scanAttempts', optional(isCount), 'a non-negative number'],
+  ['scanError', optional(isString), 'a string'],
+  ['nextScanAt', optional(isDate), 'a date'],
+  ['downloadCount', isCount, 'a non-negative number'],
+  ['parentFolderId', (value) => value === null || isNonEmptyString(value), 'null or a folder id'],
+  ['isEncrypted', optional(isBoolean), 'a boolean'],
+  ['collaborators', (value) => Array.isArray(value) && value.every(isCollaborator), 'an array of { email, role, addedAt }'],
+  ['sharedWith', (value) => Array.isArray(value) && value.every(isString), 'an array of emails'],
+  ['version', optional(isVersionNumber), 'a whole number from 1'],
+  ['uploadedBy', optional(isNonEmptyString), 'a user id'],
+  ['uploaderEmail', optional(isString), 'a string'],
+  ['uploadedAt', isDate, 'a date'],
+  ['updatedAt', isDate, 'a date'],
+  ['expiresAt', optional(isDate), 'a date'],
+  ['deletedAt', optional(isDate), 'a date'],
+  ['deletedBy', optional(isNonEmptyString), 'a user id'],
+  ['trashedWithFolderId', optional(isNonEmptyString), 'a folder id']
+];
+
+const VERSION_CHECKS: FieldCheck[] = [
+  ['fileId', isNonEmptyString, 'a file id'],
+  ['userId', isNonEmptyString, 'a non-empty string'],
+  ['version', isVersionNumber, 'a whole number from 1'],
+  ['name', isNonEmptyString, 'a non-empty string'],
+  ['size', isCount, 'a non-negative number'],
+  ['type', isString, 'a string'],
+  ['storageProvider', (value) => STORAGE_PROVIDERS.includes(value), STORAGE_PROVIDERS.join(' | ')],
+  ['storageKey', isNonEmptyString, 'a non-empty string'],
+  ['deliveryType', optional(isString), 'a string'],
+  ['hash', optional(isString), 'a string'],
+  ['blobId', optional(isNonEmptyString), 'a blob id'],
+  ['scanStatus', optional(isScanStatus), SCAN_STATUSES.join(' | ')],
+  ['scanSignature', optional(isString), 'a string'],
+  ['scannedAt', optional(isDate), 'a date'],
+  ['isEncrypted', optional(isBoolean), 'a boolean'],
+  ['uploadedBy', isNonEmptyString, 'a user id'],
+  ['uploaderEmail', optional(isString), 'a string'],
+  ['uploadedAt', isDate, 'a date'],
+  ['replacedAt', isDate, 'a date']
+];
+
+const USER_CHECKS: FieldCheck[] = [
+  ['schemaVersion', (value) => value === USER_SCHEMA_VERSION, `${USER_SCHEMA_VERSION}`],
+  ['uid', isNonEmptyString, 'a non-empty string'],
+  ['email', isString, 'a string'],
+  ['displayName', optional(isString), 'a string'],
+  ['usedStorage', isCount, 'a non-negative number'],
+  ['storageLimit', isCount, 'a non-negative number'],
+  ['isAdmin', isBoolean, 'a boolean'],
+  [
+    'trashRetentionDays',
+    (value) => Number.isInteger(value) && value >= 1 && value <= MAX_TRASH_RETENTION_DAYS,
+    `a whole number of days from 1 to ${MAX_TRASH_RETENTION_DAYS}`
+  ],
+  ['createdAt', isDate, 'a date'],
+  ['updatedAt', isDate, 'a date'],
+  ['lastLoginAt', optional(isDate), 'a date']
+];
+
+const FOLDER_CHECKS: FieldCheck[] = [
+  ['userId', isNonEmptyString, 'a non-empty string'],
+  ['name', (value) => isNonEmptyString(value) && !value.includes('/'), 'a non-empty name without slashes'],
+  ['path', (value) => isString(value) && value.startsWith('/'), 'an absolute path'],
+  ['parentFolderId', (value) => value === null || isNonEmptyString(value), 'null or a folder id'],
+  ['createdAt', isDate, 'a date'],
+  ['updatedAt', isDate, 'a date'],
+  ['deletedAt', optional(isDate), 'a date'],
+  ['trashedWithFolderId', optional(isNonEmptyString), 'a folder id']
+];
+
+const SHARE_CHECKS: FieldCheck[] = [
+  ['fileId', isNonEmptyString, 'a file id'],
+  ['userId', isNonEmptyString, 'a non-empty string'],
+  ['createdBy', isNonEmptyString, 'a non-empty string'],
+  ['label', optional(isString), 'a string'],
+  ['isPasswordProtected', isBoolean, 'a boolean'],
+  ['expiresAt', optional(isDate), 'a date'],
+  ['allowDownload', isBoolean, 'a boolean'],
+  ['allowView', isBoolean, 'a boolean'],
+  ['createdAt', isDate, 'a date'],
+  ['updatedAt', isDate, 'a date'],
+  ['revokedAt', optional(isDate), 'a date']
+];
+
+// Throw unless the record matches the current file schema. Used before every write.
+export const validateFileRecord = (record: FileRecord): FileRecord => {
+  const problems = runChecks(record, FILE_CHECKS);
+  const emails = (record.collaborators || []).map(collaborator => collaborator.email);
+  if (emails.length !== record.sharedWith?.length || emails.some(email => !record.sharedWith.includes(email))) {
+    problems.push('sharedWith must list exactly the collaborator emails');
+  }
+  if (problems.length > 0) {
+    throw new SchemaValidationError('files', record.id, problems);
+  }
+  return record;
+};
+
+export const validateFileVersion = (version: FileVersion): FileVersion => {
+  const problems = runChecks(version, VERSION_CHECKS);
+  if (problems.length > 0) {
+    throw new SchemaValidationError('fileVersions', version.id, problems);
+  }
+  return version;
+};
+
+export const validateUserProfile = (profile: UserProfile): UserProfile => {
+  const problems = runChecks(profile, USER_CHECKS);
+  if (problems.length > 0) {
+    throw new SchemaValidationError('users', profile.uid, problems);
+  }
+  return profile;
+};
+
+export const validateFolder = (folder: FolderMetadata): FolderMetadata => {
+  const problems = runChecks(folder, FOLDER_CHECKS);
+  if (problems.length > 0) {
+    throw new SchemaValidationError('folders', folder.id, problems);
+  }
+  return folder;
+};
+
+export const validateShare = (share: ShareSettings): ShareSettings => {
+  const problems = runChecks(share, SHARE_CHECKS);
+  if (problems.length > 0) {
+    throw new SchemaValidationError('shares', share.id, problems);
+  }
+  return share;
+};
+
+const parseCollaborator = (collaborator: any, addedAt?: Date): Collaborator => ({
+  ...collaborator,
+  addedAt: toDate(collaborator.addedAt) || addedAt
+});
+
+// Build a current-version file record from a document of any known shape:
+// the Cloudinary-era FileData (userId, publicId, secureUrl), the Firebase
+// Storage FileMetadata (ownerId, path, createdAt, hash) or an earlier version
+// of the current schema. Stored URLs (secureUrl, url) are dropped: they
+// bypassed the access checks in the download route. So are the public flag
+// and file password of versions before 6; the migration turns public files
+// into share links, which carry their own password.
+export const upgradeFileDocument = (data: Record<string, any>): FileRecord => {
+  const isFileMetadata = !data.userId && !!data.ownerId;
+  const storageProvider: StorageProviderName = data.storageProvider
+    || (isFileMetadata ? 'firebase' : 'cloudinary');
+  const uploadedAt = toDate(data.uploadedAt) || toDate(data.createdAt) || new Date();
+
+  // Before roles, everyone in sharedWith could only view
+  const collaborators: Collaborator[] = Array.isArray(data.collaborators)
+    ? data.collaborators.map((collaborator: any) => parseCollaborator(collaborator, uploadedAt))
+    : (Array.isArray(data.sharedWith) ? data.sharedWith : []).map((email: string) => ({
+        email: normalizeEmail(email),
+        role: 'viewer',
+        addedAt: uploadedAt
+      }));
+
+  const record: FileRecord = {
+    schemaVersion: FILE_SCHEMA_VERSION,
+    userId: data.userId || data.ownerId,
+    name: data.name || data.originalFilename || data.displayName,
+    size: Number(data.size) || 0,
+    type: data.type || data.fileType || '',
+    storageProvider,
+    storageKey: data.storageKey || data.publicId || data.path,
+    resourceType: data.resourceType,
+    deliveryType: data.deliveryType,
+    format: data.format,
+    width: data.width,
+    height: data.height,
+    hash: data.hash,
+    blobId: data.blobId,
+    scanStatus: data.scanStatus,
+    scanSignature: data.scanSignature,
+    scannedAt: toDate(data.scannedAt),
+    scanAttempts: data.scanAttempts,
+    scanError: data.scanError,
+    // Pending files from before retries were scheduled are due straight away
+    nextScanAt: toDate(data.nextScanAt) || (data.scanStatus === 'pending' ? uploadedAt : undefined),
+    downloadCount: Number(data.downloadCount) || 0,
+    parentFolderId: data.parentFolderId || null,
+    isEncrypted: data.isEncrypted,
+    collaborators,
+    sharedWith: collaborators.map(collaborator => collaborator.email),
+    version: data.version,
+    uploadedBy: data.uploadedBy,
+    uploaderEmail: data.uploaderEmail,
+    uploadedAt,
+    updatedAt: toDate(data.updatedAt) || uploadedAt,
+    expiresAt: toDate(data.expiresAt),
+    deletedAt: toDate(data.deletedAt),
+    deletedBy: data.deletedBy,
+    trashedWithFolderId: data.trashedWithFolderId
+  };
+
+  return withoutUndefined(record);
+};
+
+// Build a current-version user profile from either the old userService shape
+// (totalStorage, files, sharedFiles) or the old types shape (id, storageUsed).
+export const upgradeUserDocument = (data: Record<string, any>): UserProfile => {
+  const createdAt = toDate(data.createdAt) || new Date();
+
+  const profile: UserProfile = {
+    uid: data.uid || data.id,
+    schemaVersion: USER_SCHEMA_VERSION,
+    email: data.email || '',
+    displayName: data.displayName || undefined,
+    usedStorage: Number(data.usedStorage ?? data.storageUsed) || 0,
+    storageLimit: Number(data.storageLimit ?? data.totalStorage) || DEFAULT_STORAGE_LIMIT,
+    isAdmin: !!data.isAdmin,
+    trashRetentionDays: Number(data.trashRetentionDays) || DEFAULT_TRASH_RETENTION_DAYS,
+    createdAt,
+    updatedAt: toDate(data.updatedAt) || createdAt,
+    lastLoginAt: toDate(data.lastLoginAt)
+  };
+
+  return withoutUndefined(profile);
+};
+
+// Validate a document read from Firestore, upgrading older shapes on the fly
+// so records work before the migration script has touched them. The derived
+// availableUntil is dropped; toFileDocument works it out again.
+export const parseFileRecord = (
+  id: string,
+  { availableUntil: _derived, ...data }: Record<string, any>
+): FileRecord => {
+  const record = data.schemaVersion === FILE_SCHEMA_VERSION
+    ? withoutUndefined({
+        ...data,
+        collaborators: (data.collaborators || []).map((collaborator: any) => parseCollaborator(collaborator)),
+        uploadedAt: toDate(data.uploadedAt),
+        updatedAt: toDate(data.updatedAt),
+        expiresAt: toDate(data.expiresAt),
+        deletedAt: toDate(data.deletedAt),
+        scannedAt: toDate(data.scannedAt),
+        nextScanAt: toDate(data.nextScanAt)
+      } as FileRecord)
+    : upgradeFileDocument(data);
+
+  return validateFileRecord({ ...record, id });
+};
+
+export const parseFileVersion = (id: string, data: Record<string, any>): FileVersion =>
+  validateFileVersion(withoutUndefined({
+    ...(data as FileVersion),
+    id,
+    uploadedAt: toDate(data.uploadedAt)!,
+    replacedAt: toDate(data.replacedAt)!,
+    scannedAt: toDate(data.scannedAt)
+  }));
+
+export const parseFolder = (id: string, data: Record<string, any>): FolderMetadata =>
+  validateFolder(withoutUndefined({
+    ...(data as FolderMetadata),
+    id,
+    parentFolderId: data.parentFolderId || null,
+    createdAt: toDate(data.createdAt)!,
+    updatedAt: toDate(data.updatedAt)!,
+    deletedAt: toDate(data.deletedAt)
+  }));
+
+export const parseShare = (id: string, data: Record<string, any>): ShareSettings =>
+  validateShare(withoutUndefined({
+    ...(data as ShareSettings),
+    id,
+    createdBy: data.createdBy || data.userId,
+    expiresAt: toDate(data.expiresAt),
+    createdAt: toDate(data.createdAt)!,
+    updatedAt: toDate(data.updatedAt)!,
+    revokedAt: toDate(data.revokedAt)
+  }));
+
+export const parseUserProfile = (uid: string, data: Record<string, any>): UserProfile => {
+  const profile = data.schemaVersion === USER_SCHEMA_VERSION
+    ? withoutUndefined({
+        ...data,
+        createdAt: toDate(data.createdAt),
+        updatedAt: toDate(data.updatedAt),
+        lastLoginAt: toDate(data.lastLoginAt)
+      } as UserProfile)
+    : upgradeUserDocument({ ...data, uid });
+
+  return validateUserProfile(profile);
+};
+
+// Files that never expire are listed until this date
+const NEVER = new Date('9999-12-31T23:59:59.999Z');
+
+// When a file drops out of listings: once it is trashed or expires. Stored
+// on every file document (schema version 5) so listings can filter on it in
+// the query instead of in memory.
+export const availableUntil = (record: Pick<FileRecord, 'expiresAt' | 'deletedAt'>): Date =>
+  record.deletedAt || record.expiresAt || NEVER;
+
+export type FileDocument = Omit<FileRecord, 'id'> & { availableUntil: Date };
+
+// Strip the id (it is the document key, not a field), add the derived
+// fields and validate before writing
+export const toFileDocument = (record: FileRecord): FileDocument => {
+  const { id, ...fields } = validateFileRecord(withoutUndefined(record));
+  return { ...fields, availableUntil: availableUntil(fields) };
+};
+
+export const toVersionDocument = (version: FileVersion): Omit<FileVersion, 'id'> => {
+  const { id, ...fields } = validateFileVersion(withoutUndefined(version));
+  return fields;
+};
+
+// The fields that say where a file's or version's bytes are, for copying
+// between the two. Missing fields stay as undefined so they replace, rather
+// than inherit, the other side's values when spread.
+export const storedFileFields = (source: StoredFileFields): StoredFileFields => ({
+  storageProvider: source.storageProvider,
+  storageKey: source.storageKey,
+  resourceType: source.resourceType,
+  deliveryType: source.deliveryType,
+  format: source.format,
+  width: source.width,
+  height: source.height,
+  hash: source.hash,
+  blobId: source.blobId,
+  scanStatus: source.scanStatus,
+  scanSignature: source.scanSignature,
+  scannedAt: source.scannedAt
+});
+
+// Snapshot a file's current contents as an earlier version, just before
+// they are replaced
+export const toFileVersion = (record: FileRecord): FileVersion => ({
+  ...storedFileFields(record),
+  fileId: record.id!,
+  userId: record.userId,
+  version: record.version || 1,
+  name: record.name,
+  size: record.size,
+  type: record.type,
+  isEncrypted: record.isEncrypted,
+  uploadedBy: record.uploadedBy || record.userId,
+  uploaderEmail: record.uploaderEmail,
+  uploadedAt: record.uploadedAt,
+  replacedAt: new Date()
+});
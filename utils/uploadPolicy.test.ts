@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkStoredUpload,
+  checkUpload,
+  describeUploadPolicy,
+  maxStoredSize,
+  sniffFileType,
+  UPLOAD_POLICY,
+  UploadPolicy
+} from '@/utils/uploadPolicy';
+import { encryptedSize, ENCRYPTED_FILE_TYPE } from '@/utils/encryption';
+
+const MB = 1024 * 1024;
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+const PNG = bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a);
+const EXE = bytes(0x4d, 0x5a, 0x90, 0x00);
+const ZIP = bytes(0x50, 0x4b, 0x03, 0x04);
+
+const policy = (changes: Partial<UploadPolicy> = {}): UploadPolicy => ({
+  maxFileSize: 10 * MB,
+  allowedTypes: [],
+  blockedTypes: ['application/x-msdownload', '.exe'],
+  ...changes
+});
+
+describe('sniffFileType', () => {
+  it('recognises signatures at the start of a file', () => {
+    expect(sniffFileType(PNG)).toBe('image/png');
+    expect(sniffFileType(EXE)).toBe('application/x-msdownload');
+    expect(sniffFileType(ascii('%PDF-1.7'))).toBe('application/pdf');
+  });
+
+  it('recognises signatures at an offset', () => {
+    expect(sniffFileType(ascii('RIFF\0\0\0\0WEBPVP8 '))).toBe('image/webp');
+    expect(sniffFileType(ascii('\0\0\0\x18ftypmp42'))).toBe('video/mp4');
+  });
+
+  it('recognises encrypted uploads', () => {
+    expect(sniffFileType(ascii('OFSE\x01'))).toBe(ENCRYPTED_FILE_TYPE);
+  });
+
+  it('returns null for plain text and for heads too short to match', () => {
+    expect(sniffFileType(ascii('hello, world'))).toBeNull();
+    expect(sniffFileType(bytes(0x89, 0x50))).toBeNull();
+  });
+});
+
+describe('checkUpload', () => {
+  it('rejects files over the size limit', () => {
+    const rejection = checkUpload({ name: 'big.png', size: 11 * MB, type: 'image/png' }, null, policy());
+    expect(rejection?.reason).toBe('size');
+  });
+
+  it('rejects blocked extensions and types', () => {
+    expect(checkUpload({ name: 'setup.exe', size: 1, type: '' }, null, policy())?.reason).toBe('type');
+    expect(checkUpload({ name: 'setup', size: 1, type: 'application/x-msdownload' }, null, policy())?.reason)
+      .toBe('type');
+  });
+
+  it('rejects blocked contents whatever the file is called', () => {
+    const rejection = checkUpload({ name: 'cat.png', size: 1, type: 'image/png' }, 'application/x-msdownload', policy());
+    expect(rejection?.message).toContain('whatever the file is called');
+  });
+
+  it('rejects contents that do not match an allowlist', () => {
+    const allowImages = policy({ allowedTypes: ['image/*'] });
+    expect(checkUpload({ name: 'cat.png', size: 1, type: 'image/png' }, 'image/png', allowImages)).toBeNull();
+    expect(checkUpload({ name: 'cat.png', size: 1, type: 'image/png' }, 'application/pdf', allowImages)?.reason)
+      .toBe('type');
+    expect(checkUpload({ name: 'notes.pdf', size: 1, type: 'application/pdf' }, null, allowImages)?.reason)
+      .toBe('type');
+  });
+
+  it('lets container formats go by their declared type', () => {
+    const allowDocx = policy({ allowedTypes: ['.docx'] });
+    expect(checkUpload({ name: 'letter.docx', size: 1, type: '' }, 'application/zip', allowDocx)).toBeNull();
+  });
+});
+
+describe('checkStoredUpload', () => {
+  it('sniffs the stored bytes', () => {
+    const rejection = checkStoredUpload({ name: 'cat.png', type: 'image/png' }, 4, EXE);
+    expect(rejection?.reason).toBe('type');
+    expect(checkStoredUpload({ name: 'archive.zip', type: 'application/zip' }, 4, ZIP)).toBeNull();
+  });
+
+  it('checks encrypted uploads by their declared name only', () => {
+    expect(checkStoredUpload({ name: 'cat.png', type: 'image/png' }, 100, ascii('OFSE\x01'))).toBeNull();
+    expect(checkStoredUpload({ name: 'setup.exe', type: '' }, 100, ascii('OFSE\x01'))?.reason).toBe('type');
+  });
+
+  it('measures encrypted uploads by the size of the file they hold', () => {
+    const limit = UPLOAD_POLICY.maxFileSize;
+    expect(checkStoredUpload({ name: 'cat.png', type: 'image/png' }, encryptedSize(limit), ascii('OFSE\x01'))).toBeNull();
+    expect(checkStoredUpload({ name: 'cat.png', type: 'image/png' }, encryptedSize(limit + 1), ascii('OFSE\x01'))?.reason)
+      .toBe('size');
+  });
+});
+
+describe('maxStoredSize', () => {
+  it('leaves room for encrypting the largest file allowed', () => {
+    expect(maxStoredSize(policy())).toBe(encryptedSize(10 * MB));
+    expect(maxStoredSize(policy())).toBeGreaterThan(10 * MB);
+  });
+});
+
+describe('describeUploadPolicy', () => {
+  it('names the allowlist when there is one', () => {
+    expect(describeUploadPolicy(policy({ allowedTypes: ['image/*', '.pdf'] })))
+      .toBe('Allowed: image/*, .pdf • Max size: 10 MB per file');
+  });
+
+  it('mentions blocked types otherwise', () => {
+    expect(describeUploadPolicy(policy())).toBe('Executables and blocked types are not allowed • Max size: 10 MB per file');
+    expect(describeUploadPolicy(policy({ blockedTypes: [] }))).toBe('All file types supported • Max size: 10 MB per file');
+  });
+});
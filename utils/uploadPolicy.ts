@@ -0,0 +1,186 @@
+import { ENCRYPTED_FILE_TYPE, encryptedSize, plaintextSize } from '@/utils/encryption';
+
+// What may be uploaded. The dropzone, uploadFile and the server routes that
+// record uploads all check the same policy, configured with NEXT_PUBLIC_
+// variables so the browser and the server agree.
+//
+// Type lists hold MIME types ("application/pdf"), wildcards ("image/*") or
+// extensions (".pdf"). An empty allowlist allows every type not blocked.
+export interface UploadPolicy {
+  maxFileSize: number; // in bytes
+  allowedTypes: string[];
+  blockedTypes: string[];
+}
+
+const MB = 1024 * 1024;
+
+const DEFAULT_BLOCKED_TYPES = [
+  'application/x-msdownload',
+  'application/x-executable',
+  'application/x-mach-binary',
+  '.exe',
+  '.dll',
+  '.msi',
+  '.scr',
+  '.com',
+  '.bat',
+  '.cmd',
+  '.pif',
+  '.vbs',
+  '.ps1'
+].join(',');
+
+const parseTypeList = (value: string) =>
+  value.split(',').map(entry => entry.trim().toLowerCase()).filter(Boolean);
+
+export const UPLOAD_POLICY: UploadPolicy = {
+  maxFileSize: (Number(process.env.NEXT_PUBLIC_MAX_UPLOAD_MB) || 100) * MB,
+  allowedTypes: parseTypeList(process.env.NEXT_PUBLIC_ALLOWED_FILE_TYPES || ''),
+  blockedTypes: parseTypeList(process.env.NEXT_PUBLIC_BLOCKED_FILE_TYPES ?? DEFAULT_BLOCKED_TYPES)
+};
+
+export interface UploadRejection {
+  reason: 'size' | 'type';
+  message: string;
+}
+
+// Thrown by uploads the policy refuses. The upload queue doesn't retry these.
+export class UploadPolicyError extends Error {
+  constructor(public rejection: UploadRejection) {
+    super(rejection.message);
+    this.name = 'UploadPolicyError';
+  }
+}
+
+// Enough leading bytes for every signature below
+export const SNIFF_BYTES = 16;
+
+const SIGNATURES: { type: string; offset?: number; bytes: number[] }[] = [
+  { type: 'application/x-msdownload', bytes: [0x4d, 0x5a] }, // "MZ": Windows executables and DLLs
+  { type: 'application/x-executable', bytes: [0x7f, 0x45, 0x4c, 0x46] }, // ELF
+  { type: 'application/x-mach-binary', bytes: [0xfe, 0xed, 0xfa, 0xce] },
+  { type: 'application/x-mach-binary', bytes: [0xfe, 0xed, 0xfa, 0xcf] },
+  { type: 'application/x-mach-binary', bytes: [0xce, 0xfa, 0xed, 0xfe] },
+  { type: 'application/x-mach-binary', bytes: [0xcf, 0xfa, 0xed, 0xfe] },
+  { type: ENCRYPTED_FILE_TYPE, bytes: [0x4f, 0x46, 0x53, 0x45] }, // "OFSE"
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46] },
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'image/webp', offset: 8, bytes: [0x57, 0x45, 0x42, 0x50] },
+  { type: 'audio/wav', offset: 8, bytes: [0x57, 0x41, 0x56, 0x45] },
+  { type: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { type: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { type: 'audio/flac', bytes: [0x66, 0x4c, 0x61, 0x43] },
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+  { type: 'application/x-7z-compressed', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { type: 'application/vnd.rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x05, 0x06] },
+  { type: 'application/x-ole-storage', bytes: [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1] },
+  { type: 'video/mp4', offset: 4, bytes: [0x66, 0x74, 0x79, 0x70] } // "ftyp"
+];
+
+// Formats that wrap many file types (Office documents are zip or OLE files,
+// and "ftyp" covers MP4, MOV, M4A and HEIC), so the declared type decides
+const CONTAINER_TYPES = ['application/zip', 'application/x-ole-storage', 'video/mp4'];
+
+// Identify a file from its first bytes, whatever its name says. Returns null
+// for formats without a recognisable signature, such as plain text.
+export const sniffFileType = (head: Uint8Array): string | null => {
+  const match = SIGNATURES.find(({ offset = 0, bytes }) =>
+    head.length >= offset + bytes.length && bytes.every((byte, index) => head[offset + index] === byte)
+  );
+  return match ? match.type : null;
+};
+
+export const readFileHead = async (file: Blob) =>
+  new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+const matchesTypeList = (list: string[], name: string, type: string) => {
+  const extension = extensionOf(name);
+  const mime = type.toLowerCase();
+  return list.some(entry => {
+    if (entry.startsWith('.')) return entry === extension;
+    if (entry.endsWith('/*')) return mime.startsWith(entry.slice(0, -1));
+    return entry === mime;
+  });
+};
+
+const formatLimit = (bytes: number) => `${Math.round((bytes / MB) * 10) / 10} MB`;
+
+// Check a file's size, declared type and extension, and, when its first
+// bytes were sniffed, what it really contains
+export const checkUpload = (
+  file: { name: string; size: number; type: string },
+  sniffedType: string | null = null,
+  policy: UploadPolicy = UPLOAD_POLICY
+): UploadRejection | null => {
+  if (file.size > policy.maxFileSize) {
+    return {
+      reason: 'size',
+      message: `${file.name} is ${formatLimit(file.size)}, over the ${formatLimit(policy.maxFileSize)} limit per file`
+    };
+  }
+
+  const content = sniffedType && !CONTAINER_TYPES.includes(sniffedType) ? sniffedType : null;
+  const declared = file.type || extensionOf(file.name) || 'unknown';
+
+  if (matchesTypeList(policy.blockedTypes, file.name, file.type)) {
+    return { reason: 'type', message: `${file.name}: ${declared} files are not allowed` };
+  }
+  if (content && matchesTypeList(policy.blockedTypes, '', content)) {
+    return { reason: 'type', message: `${file.name} contains ${content} data, which is not allowed whatever the file is called` };
+  }
+
+  if (policy.allowedTypes.length > 0) {
+    if (!matchesTypeList(policy.allowedTypes, file.name, file.type)) {
+      return { reason: 'type', message: `${file.name}: ${declared} files are not allowed` };
+    }
+    if (content && !matchesTypeList(policy.allowedTypes, '', content)) {
+      return { reason: 'type', message: `${file.name} contains ${content} data, which does not match its name` };
+    }
+  }
+
+  return null;
+};
+
+// Browser side: sniff the file and check it before anything is uploaded
+export const assertUploadAllowed = async (file: File) => {
+  const rejection = checkUpload(file, sniffFileType(await readFileHead(file)));
+  if (rejection) {
+    throw new UploadPolicyError(rejection);
+  }
+};
+
+// Server side: check an object as it was stored. Encrypted uploads can only
+// be checked for size and their declared name and type, since nothing but
+// the browser that encrypted them can read their contents.
+export const checkStoredUpload = (
+  declared: { name: string; type: string },
+  storedSize: number,
+  head: Uint8Array
+): UploadRejection | null => {
+  const sniffed = sniffFileType(head);
+  if (sniffed === ENCRYPTED_FILE_TYPE) {
+    return checkUpload({ ...declared, size: plaintextSize(storedSize) });
+  }
+  return checkUpload({ ...declared, size: storedSize }, sniffed);
+};
+
+// The most an upload the policy allows can take up in storage. Encrypted
+// files are a little larger than the file they hold.
+export const maxStoredSize = (policy: UploadPolicy = UPLOAD_POLICY) => encryptedSize(policy.maxFileSize);
+
+// One line for the upload area, e.g. "Max size: 100 MB per file • Allowed: image/*, .pdf"
+export const describeUploadPolicy = (policy: UploadPolicy = UPLOAD_POLICY) => {
+  const types = policy.allowedTypes.length > 0
+    ? `Allowed: ${policy.allowedTypes.join(', ')}`
+    : policy.blockedTypes.length > 0 ? 'Executables and blocked types are not allowed' : 'All file types supported';
+  return `${types} • Max size: ${formatLimit(policy.maxFileSize)} per file`;
+};
@@ -0,0 +1,23 @@
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests, run once by `npm test`. Tests of the server modules in lib/
+// swap the Admin SDK's Firestore for the in-memory one in test/fakeFirestore.ts
+// and keep stored bytes in the local store, under a temporary directory.
+// The alias mirrors the "@/*" path in tsconfig.json.
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./', import.meta.url)) }
+  },
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    environment: 'node',
+    env: {
+      NEXT_PUBLIC_STORAGE_PROVIDER: 'local',
+      LOCAL_STORAGE_DIR: path.join(os.tmpdir(), 'ofss-test-storage')
+    }
+  }
+});